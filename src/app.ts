@@ -0,0 +1,38 @@
+/**
+ * This module builds the Hono application.
+ * It registers the error handlers and mounts the routers of the handlers module,
+ * along with the OpenAPI document of their routes and its docs.
+ * It does not connect to the database nor start the server, so that the
+ * application can also be exercised in-process with app.request().
+ *
+ * @module app
+ */
+import { Hono } from "hono";
+import { admin, auth, docs, projects, tags, tasks, webhooks } from "./handlers";
+import { errorHandler, notFoundHandler } from "./errors";
+import { serveOpenApiDocument } from "./openapi";
+import { requestContext } from "./middleware/request-context.middleware";
+
+// Create a new instance of Hono
+const app = new Hono();
+
+// Send every error and unknown route as the JSON error envelope
+app.onError(errorHandler());
+app.notFound(notFoundHandler());
+
+// Share the client of every request with the activity log
+app.use(requestContext());
+
+// Define the root route and associate it with the user router
+app.route("/auth", auth);
+app.route("/tasks", tasks);
+app.route("/tags", tags);
+app.route("/projects", projects);
+app.route("/admin", admin);
+app.route("/webhooks", webhooks);
+
+// Describe the routes above, generated from their documentation
+app.get("/openapi.json", serveOpenApiDocument(app));
+app.route("/docs", docs);
+
+export default app;
@@ -0,0 +1,92 @@
+/**
+ * The activity log, recording who did what and when.
+ *
+ * @description
+ * The changes of the tasks are recorded by the task activity subscriber of
+ * the data source, and the authentication events by the auth handler. The
+ * actor and IP address of an activity default to those of the current
+ * request, so that an activity recorded by a background job has neither.
+ *
+ * @module audit/activity-log
+ */
+import { EntityManager, FindOptionsWhere } from "typeorm";
+import { z } from "zod";
+import { Activity, ActivityAction, ActivityChange, User } from "../models";
+import { getRequestContext } from "../contexts/request.context";
+
+/**
+ * An activity to record
+ */
+export interface ActivityEntry {
+  /**
+   * The kind of the activity
+   */
+  action: ActivityAction;
+  /**
+   * The user who did the action, the authenticated user by default
+   */
+  actor?: User | null;
+  /**
+   * The id of the task the activity is about
+   */
+  taskId?: number;
+  /**
+   * The changed fields with their values before and after the change
+   */
+  changes?: Record<string, ActivityChange> | null;
+}
+
+/**
+ * Records an activity
+ *
+ * @param {EntityManager} manager - The entity manager, which records the
+ * activity in the transaction of the action when it has one
+ * @param {ActivityEntry} entry - The activity to record
+ */
+export const recordActivity = async (
+  manager: EntityManager,
+  entry: ActivityEntry,
+) => {
+  const request = getRequestContext();
+
+  await manager.insert(Activity, {
+    action: entry.action,
+    actor: entry.actor === undefined ? request?.user || null : entry.actor,
+    taskId: entry.taskId ?? null,
+    changes: entry.changes || null,
+    ipAddress: request?.ipAddress || null,
+    createdAt: new Date(),
+  });
+};
+
+/**
+ * The query string of the routes listing activities
+ */
+export const activityPageQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Finds a page of activities, newest first
+ *
+ * @param {EntityManager} manager - The entity manager
+ * @param {FindOptionsWhere<Activity>} where - The conditions of the activities
+ * @param {number} page - The page number, from 1
+ * @param {number} perPage - The number of activities per page
+ * @returns {Promise<[Activity[], number]>} - The activities of the page with
+ * their actor, and the number of activities matching the conditions
+ */
+export const findActivities = (
+  manager: EntityManager,
+  where: FindOptionsWhere<Activity>,
+  page: number,
+  perPage: number,
+): Promise<[Activity[], number]> =>
+  manager.findAndCount(Activity, {
+    where,
+    relations: { actor: true },
+    order: { createdAt: "DESC", id: "DESC" },
+    skip: (page - 1) * perPage,
+    take: perPage,
+  });
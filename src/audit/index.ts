@@ -0,0 +1,15 @@
+import {
+  activityPageQuery,
+  ActivityEntry,
+  findActivities,
+  recordActivity,
+} from "./activity.log";
+import { TaskActivitySubscriber } from "./task-activity.subscriber";
+
+export {
+  activityPageQuery,
+  ActivityEntry,
+  findActivities,
+  recordActivity,
+  TaskActivitySubscriber,
+};
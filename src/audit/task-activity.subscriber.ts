@@ -0,0 +1,176 @@
+import {
+  EntityMetadata,
+  EntitySubscriberInterface,
+  EventSubscriber,
+  InsertEvent,
+  RemoveEvent,
+  UpdateEvent,
+} from "typeorm";
+import { ActivityAction, ActivityChange, Task } from "../models";
+import { recordActivity } from "./activity.log";
+
+/**
+ * The fields left out of the changes, as the activity has its own date
+ */
+const IGNORED_FIELDS = ["id", "createdAt", "updatedAt"];
+
+/**
+ * Converts a value of a task to the value recorded in a change
+ *
+ * @param {unknown} value - The value of a column or relation
+ * @returns {unknown} - The date as an ISO string, the related entities as
+ * their ids, or the value itself
+ */
+const toChangeValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toChangeValue).sort();
+  }
+
+  if (value && typeof value === "object") {
+    return (value as { id?: unknown }).id ?? null;
+  }
+
+  return value ?? null;
+};
+
+/**
+ * Gets the recorded fields of a task
+ *
+ * @param {EntityMetadata} metadata - The metadata of the task entity
+ * @param {Task} task - The task
+ * @returns {Record<string, unknown>} - The values by field name, the
+ * relations being named after the ids they hold, like projectId
+ */
+const getFields = (metadata: EntityMetadata, task: Task) => {
+  const fields: Record<string, unknown> = {};
+
+  metadata.columns.forEach((column) => {
+    const name = column.relationMetadata
+      ? `${column.propertyName}Id`
+      : column.propertyName;
+
+    if (IGNORED_FIELDS.indexOf(name) === -1) {
+      fields[name] = toChangeValue(column.getEntityValue(task));
+    }
+  });
+
+  // The tags are the only many-to-many relation of a task
+  if (task.tags) {
+    fields.tagIds = toChangeValue(task.tags);
+  }
+
+  return fields;
+};
+
+/**
+ * Compares the fields of a task before and after a change
+ *
+ * @param {Record<string, unknown>} before - The fields before the change
+ * @param {Record<string, unknown>} after - The fields after the change
+ * @returns {Record<string, ActivityChange>} - The fields that changed
+ */
+const diffFields = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+) => {
+  const changes: Record<string, ActivityChange> = {};
+
+  Object.keys({ ...before, ...after }).forEach((name) => {
+    const from = before[name] === undefined ? null : before[name];
+    const to = after[name] === undefined ? null : after[name];
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[name] = { from, to };
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Records the changes of the tasks in the activity log
+ *
+ * @description
+ * Every task saved or removed through an entity manager is recorded with
+ * its changed fields, in the transaction of the change. The subtasks
+ * deleted by the database along with their parent are not recorded.
+ */
+@EventSubscriber()
+export class TaskActivitySubscriber implements EntitySubscriberInterface<Task> {
+  listenTo() {
+    return Task;
+  }
+
+  /**
+   * Records a created task, its fields changing from null
+   *
+   * @param {InsertEvent<Task>} event - The insert event
+   */
+  async afterInsert(event: InsertEvent<Task>) {
+    await recordActivity(event.manager, {
+      action: ActivityAction.TaskCreated,
+      taskId: event.entity.id,
+      changes: diffFields({}, getFields(event.metadata, event.entity)),
+    });
+  }
+
+  /**
+   * Records the changed fields of an updated task, if any, as moving the
+   * task to or out of the trash when its delete date changed
+   *
+   * @param {UpdateEvent<Task>} event - The update event
+   */
+  async afterUpdate(event: UpdateEvent<Task>) {
+    if (!event.databaseEntity) {
+      return;
+    }
+
+    const after = getFields(event.metadata, event.entity as Task);
+    const before = getFields(event.metadata, event.databaseEntity);
+
+    // Only compare the tags when they were saved with the task
+    if (!event.entity.tags) {
+      delete before.tagIds;
+    }
+
+    const changes = diffFields(before, after);
+
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+
+    let action = ActivityAction.TaskUpdated;
+
+    // The delete date only changes when the task moves to or out of the trash
+    if (changes.deletedAt) {
+      action = changes.deletedAt.to
+        ? ActivityAction.TaskTrashed
+        : ActivityAction.TaskRestored;
+    }
+
+    await recordActivity(event.manager, {
+      action,
+      taskId: event.databaseEntity.id,
+      changes,
+    });
+  }
+
+  /**
+   * Records a deleted task, its fields changing to null
+   *
+   * @param {RemoveEvent<Task>} event - The remove event
+   */
+  async afterRemove(event: RemoveEvent<Task>) {
+    const task = event.databaseEntity || event.entity;
+
+    await recordActivity(event.manager, {
+      action: ActivityAction.TaskDeleted,
+      taskId: event.entityId ?? task.id,
+      changes: diffFields(getFields(event.metadata, task), {}),
+    });
+  }
+}
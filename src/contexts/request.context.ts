@@ -0,0 +1,57 @@
+/**
+ * Request context module
+ *
+ * This module keeps the context of the current request for the code that
+ * has no access to the Hono context, like the subscribers of the data
+ * source. The context follows the asynchronous calls made for the request.
+ *
+ * The module exports the following functions:
+ * - runWithRequestContext: Runs a function within the context of a request
+ * - getRequestContext: Gets the context of the current request
+ *
+ * @module request.context
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import { User } from "../models";
+
+/**
+ * The context of a request
+ */
+export type RequestContext = {
+  /**
+   * The IP address of the client, or null if unknown
+   */
+  ipAddress: string | null;
+  /**
+   * The authenticated user, set by the authentication middleware
+   */
+  user: User | null;
+};
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function within the context of a request
+ *
+ * @param {RequestContext} context - The context of the request
+ * @param {Function} callback - The function handling the request
+ * @returns {T} - The result of the function
+ */
+const runWithRequestContext = <T>(
+  context: RequestContext,
+  callback: () => T,
+): T => {
+  return storage.run(context, callback);
+};
+
+/**
+ * Gets the context of the current request
+ *
+ * @returns {RequestContext | undefined} - The context, or undefined outside
+ * of a request, for example in the background jobs
+ */
+const getRequestContext = (): RequestContext | undefined => {
+  return storage.getStore();
+};
+
+export { runWithRequestContext, getRequestContext };
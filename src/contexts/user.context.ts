@@ -2,43 +2,84 @@
  * User context module
  *
  * This module provides functions to manage the current user context.
- * The current user context is stored in the global variable currentUser.
+ * The current user context is stored in the variables of the Hono context,
+ * so each request only ever sees the user it was authenticated as.
  *
  * The module exports the following functions:
- * - setUser: Sets the current user context
+ * - setUser: Sets the current user context, and the user of the request context
  * - getUser: Gets the current user context
- * - clearUser: Clears the current user context
+ * - setSessionId: Sets the session of the current user
+ * - getSessionId: Gets the session of the current user
+ *
+ * Routers using these functions declare the UserEnv type on their Hono instance.
  *
  * @module user.context
  */
 
+import { Context } from "hono";
 import { User } from "../models";
+import { getRequestContext } from "./request.context";
+
+/**
+ * The context variables set by the authentication middleware
+ */
+export type UserVariables = {
+  user: User;
+  sessionId: string;
+};
 
-let currentUser: User = null;
+/**
+ * The Hono environment of routers with authenticated routes
+ */
+export type UserEnv = {
+  Variables: UserVariables;
+};
 
 /**
  * Sets the current user context
  *
+ * @param {Context} context - The Hono context of the request
  * @param {User} user - The user object to set as the current user context
  */
-const setUser = (user: User) => {
-  currentUser = user;
+const setUser = (context: Context<UserEnv>, user: User) => {
+  context.set("user", user);
+
+  // Share the user with the code that has no access to the Hono context
+  const requestContext = getRequestContext();
+
+  if (requestContext) {
+    requestContext.user = user;
+  }
 };
 
 /**
  * Gets the current user context
  *
- * @returns {User | null} - The current user context or null if not set
+ * @param {Context} context - The Hono context of the request
+ * @returns {User | undefined} - The current user context or undefined if not set
+ */
+const getUser = (context: Context<UserEnv>): User => {
+  return context.get("user");
+};
+
+/**
+ * Sets the session of the current user
+ *
+ * @param {Context} context - The Hono context of the request
+ * @param {string} sessionId - The refresh token family of the current session
  */
-const getUser = () => {
-  return currentUser;
+const setSessionId = (context: Context<UserEnv>, sessionId: string) => {
+  context.set("sessionId", sessionId);
 };
 
 /**
- * Clears the current user context
+ * Gets the session of the current user
+ *
+ * @param {Context} context - The Hono context of the request
+ * @returns {string | undefined} - The refresh token family of the current session or undefined if not set
  */
-const clearUser = (user: User) => {
-  currentUser = null;
+const getSessionId = (context: Context<UserEnv>): string => {
+  return context.get("sessionId");
 };
 
-export { setUser, getUser, clearUser };
+export { setUser, getUser, setSessionId, getSessionId };
@@ -0,0 +1,93 @@
+import { Context, ErrorHandler, NotFoundHandler } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { JwtTokenExpired } from "hono/utils/jwt/types";
+import {
+  HttpError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "./http.error";
+
+/**
+ * Sends an HttpError as the JSON error envelope
+ *
+ * @example
+ * {
+ *   "status": "error",
+ *   "error": {
+ *     "code": "VALIDATION_FAILED",
+ *     "message": "Validation failed",
+ *     "details": [{ "field": "email", "message": "Invalid email" }]
+ *   }
+ * }
+ *
+ * A TooManyRequestsError also tells the client when to retry with the
+ * Retry-After header.
+ *
+ * @param {Context} context - The Hono context object
+ * @param {HttpError} error - The error to send
+ * @returns {Response} - The JSON response with the status of the error
+ */
+const sendError = (context: Context, error: HttpError) => {
+  if (error instanceof TooManyRequestsError) {
+    context.header("Retry-After", String(error.retryAfter));
+  }
+
+  return context.json(
+    {
+      status: "error",
+      error: {
+        code: error.code,
+        message: error.message,
+        ...(error.details && { details: error.details }),
+      },
+    },
+    error.status,
+  );
+};
+
+/**
+ * Error handler of the app
+ *
+ * @description
+ * Turns every error thrown by a handler or middleware into the JSON error
+ * envelope. Errors that are not an HttpError are logged and sent as a
+ * generic internal server error, so their details never reach the client.
+ */
+export const errorHandler = (): ErrorHandler => {
+  return (error, context) => {
+    if (error instanceof HttpError) {
+      return sendError(context, error);
+    }
+
+    if (error instanceof JwtTokenExpired) {
+      return sendError(
+        context,
+        new UnauthorizedError("Token expired", "TOKEN_EXPIRED"),
+      );
+    }
+
+    if (error instanceof HTTPException) {
+      return sendError(
+        context,
+        new HttpError(error.status, "HTTP_ERROR", error.message),
+      );
+    }
+
+    console.error(error);
+
+    return sendError(
+      context,
+      new HttpError(500, "INTERNAL_SERVER_ERROR", "Internal server error"),
+    );
+  };
+};
+
+/**
+ * Not found handler of the app, for requests that match no route
+ */
+export const notFoundHandler = (): NotFoundHandler => {
+  return (context) => {
+    return sendError(context, new NotFoundError("Route not found"));
+  };
+};
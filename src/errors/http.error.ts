@@ -0,0 +1,138 @@
+import { StatusCode } from "hono/utils/http-status";
+import { ZodError } from "zod";
+
+/**
+ * The details of a field that failed validation
+ */
+export type ValidationDetail = {
+  field: string;
+  message: string;
+  /**
+   * The row of the field, when it is in an imported file
+   */
+  row?: number;
+};
+
+/**
+ * Base class of the errors that are sent to the client
+ *
+ * @description
+ * Every HttpError is turned into the JSON error envelope by the error handler,
+ * using its status as the HTTP status and its code as the error code.
+ */
+export class HttpError extends Error {
+  /**
+   * @param {StatusCode} status - The HTTP status of the response
+   * @param {string} code - The machine readable error code
+   * @param {string} message - The human readable error message
+   * @param {ValidationDetail[]} details - The fields that failed validation
+   */
+  constructor(
+    public readonly status: StatusCode,
+    public readonly code: string,
+    message: string,
+    public readonly details?: ValidationDetail[],
+  ) {
+    super(message);
+    // Keep instanceof working for subclasses of Error compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The request is malformed or cannot be processed as sent
+ */
+export class BadRequestError extends HttpError {
+  constructor(message = "Bad request", code = "BAD_REQUEST") {
+    super(400, code, message);
+  }
+}
+
+/**
+ * The request body or query failed validation
+ */
+export class ValidationError extends HttpError {
+  constructor(message = "Validation failed", details: ValidationDetail[] = []) {
+    super(400, "VALIDATION_FAILED", message, details);
+  }
+
+  /**
+   * Creates a validation error with the issues of a ZodError
+   *
+   * @param {ZodError} error - The error thrown by a Zod schema
+   * @returns {ValidationError} - The validation error with one detail per issue
+   */
+  static fromZodError(error: ZodError) {
+    return new ValidationError(
+      "Validation failed",
+      error.issues.map((issue) => ({
+        field: issue.path.join("."),
+        message: issue.message,
+      })),
+    );
+  }
+}
+
+/**
+ * The request is not authenticated
+ */
+export class UnauthorizedError extends HttpError {
+  constructor(message = "Unauthorized", code = "UNAUTHORIZED") {
+    super(401, code, message);
+  }
+}
+
+/**
+ * The authenticated user is not allowed to perform the request
+ */
+export class ForbiddenError extends HttpError {
+  constructor(message = "Forbidden", code = "FORBIDDEN") {
+    super(403, code, message);
+  }
+}
+
+/**
+ * The requested resource does not exist
+ */
+export class NotFoundError extends HttpError {
+  constructor(message = "Not found", code = "NOT_FOUND") {
+    super(404, code, message);
+  }
+}
+
+/**
+ * The request conflicts with the current state of a resource
+ */
+export class ConflictError extends HttpError {
+  constructor(message = "Conflict", code = "CONFLICT") {
+    super(409, code, message);
+  }
+}
+
+/**
+ * The client sent too many requests, and can retry after some time
+ */
+export class TooManyRequestsError extends HttpError {
+  /**
+   * @param {number} retryAfter - The number of seconds before the client can retry
+   * @param {string} message - The human readable error message
+   * @param {string} code - The machine readable error code
+   */
+  constructor(
+    public readonly retryAfter: number,
+    message = "Too many requests",
+    code = "TOO_MANY_REQUESTS",
+  ) {
+    super(429, code, message);
+  }
+}
+
+/**
+ * A service the request depends on is unavailable, for example the mail server
+ */
+export class ServiceUnavailableError extends HttpError {
+  constructor(message = "Service unavailable", code = "SERVICE_UNAVAILABLE") {
+    super(503, code, message);
+  }
+}
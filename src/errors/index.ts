@@ -0,0 +1,28 @@
+import {
+  HttpError,
+  BadRequestError,
+  ValidationError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  TooManyRequestsError,
+  ServiceUnavailableError,
+  ValidationDetail,
+} from "./http.error";
+import { errorHandler, notFoundHandler } from "./error-handler";
+
+export {
+  HttpError,
+  BadRequestError,
+  ValidationError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  TooManyRequestsError,
+  ServiceUnavailableError,
+  ValidationDetail,
+  errorHandler,
+  notFoundHandler,
+};
@@ -0,0 +1,19 @@
+import {
+  getTaskEventsSince,
+  publishTaskEvent,
+  subscribeToTaskEvents,
+  TaskEvent,
+  TaskEventListener,
+  TaskEventType,
+} from "./task-event.bus";
+import { TaskEventSubscriber } from "./task-event.subscriber";
+
+export {
+  getTaskEventsSince,
+  publishTaskEvent,
+  subscribeToTaskEvents,
+  TaskEvent,
+  TaskEventListener,
+  TaskEventType,
+  TaskEventSubscriber,
+};
@@ -0,0 +1,141 @@
+/**
+ * The in-process bus of the task events, which the task stream listens to.
+ *
+ * @description
+ * Every event gets an id greater than the one before, and is addressed to
+ * the users who can see its task. The last events are kept in a replay
+ * buffer, so that a client reconnecting with the id of the last event it
+ * received gets the events it missed. The bus lives in the memory of the
+ * process: the events are not shared between processes nor kept across
+ * restarts.
+ *
+ * @module events/task-event-bus
+ */
+import { EventEmitter } from "events";
+
+/**
+ * The kinds of task events
+ * - task.created: A task was created
+ * - task.updated: A task was changed, or restored from the trash
+ * - task.deleted: A task was moved to the trash
+ */
+export enum TaskEventType {
+  TaskCreated = "task.created",
+  TaskUpdated = "task.updated",
+  TaskDeleted = "task.deleted",
+}
+
+/**
+ * An event published on the bus
+ */
+export interface TaskEvent {
+  /**
+   * The id of the event, greater than the ids of the events before it
+   */
+  id: number;
+  /**
+   * The kind of the event
+   */
+  type: TaskEventType;
+  /**
+   * The ids of the users who can see the task
+   */
+  userIds: number[];
+  /**
+   * The task after the change
+   */
+  task: object;
+}
+
+/**
+ * A function called with the events published for a user
+ */
+export type TaskEventListener = (event: TaskEvent) => void;
+
+/**
+ * The number of events kept in the replay buffer
+ */
+const REPLAY_BUFFER_SIZE = 1000;
+
+const emitter = new EventEmitter();
+
+// Every open stream listens to the bus
+emitter.setMaxListeners(0);
+
+/**
+ * The last events published, oldest first
+ */
+const replayBuffer: TaskEvent[] = [];
+
+let lastEventId = 0;
+
+/**
+ * Publishes a task event to the users who can see the task
+ *
+ * @param {TaskEventType} type - The kind of the event
+ * @param {number[]} userIds - The ids of the users who can see the task
+ * @param {Object} task - The task after the change
+ * @returns {TaskEvent} - The published event
+ */
+export const publishTaskEvent = (
+  type: TaskEventType,
+  userIds: number[],
+  task: object,
+): TaskEvent => {
+  lastEventId += 1;
+
+  const event: TaskEvent = { id: lastEventId, type, userIds, task };
+
+  replayBuffer.push(event);
+
+  if (replayBuffer.length > REPLAY_BUFFER_SIZE) {
+    replayBuffer.shift();
+  }
+
+  userIds.forEach((userId) => emitter.emit(`user:${userId}`, event));
+
+  return event;
+};
+
+/**
+ * Listens to the events published for a user
+ *
+ * @param {number} userId - The id of the user
+ * @param {TaskEventListener} listener - The function called with each event
+ * @returns {Function} - The function to call to stop listening
+ */
+export const subscribeToTaskEvents = (
+  userId: number,
+  listener: TaskEventListener,
+) => {
+  emitter.on(`user:${userId}`, listener);
+
+  return () => {
+    emitter.off(`user:${userId}`, listener);
+  };
+};
+
+/**
+ * Gets the events published for a user after an event
+ *
+ * @param {number} userId - The id of the user
+ * @param {number} eventId - The id of the last event the user received
+ * @returns {TaskEvent[] | null} - The events after it, oldest first, or null
+ * when some of them are no longer in the replay buffer, or the id is unknown
+ */
+export const getTaskEventsSince = (
+  userId: number,
+  eventId: number,
+): TaskEvent[] | null => {
+  const oldestEventId = replayBuffer.length
+    ? replayBuffer[0].id
+    : lastEventId + 1;
+
+  if (eventId > lastEventId || eventId < oldestEventId - 1) {
+    return null;
+  }
+
+  return replayBuffer.filter(
+    (event) => event.id > eventId && event.userIds.indexOf(userId) !== -1,
+  );
+};
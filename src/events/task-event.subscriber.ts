@@ -0,0 +1,182 @@
+import {
+  EntityManager,
+  EntitySubscriberInterface,
+  EventSubscriber,
+  InsertEvent,
+  QueryRunner,
+  TransactionCommitEvent,
+  TransactionRollbackEvent,
+  TransactionStartEvent,
+  UpdateEvent,
+} from "typeorm";
+import { Task } from "../models";
+import { findTaskAudience } from "../policies/task.policy";
+import { publishTaskEvent, TaskEventType } from "./task-event.bus";
+
+/**
+ * A task event waiting for its transaction to be committed
+ */
+interface PendingTaskEvent {
+  type: TaskEventType;
+  userIds: number[];
+  task: object;
+}
+
+/**
+ * The events of the open transactions of each query runner, one list per
+ * transaction level, the savepoints being nested levels
+ */
+const pendingEvents = new WeakMap<QueryRunner, PendingTaskEvent[][]>();
+
+/**
+ * Gets the levels of the open transactions of a query runner
+ *
+ * @param {QueryRunner} queryRunner - The query runner
+ * @returns {PendingTaskEvent[][]} - The events of each level, the innermost last
+ */
+const getTransactionLevels = (queryRunner: QueryRunner) => {
+  if (!pendingEvents.has(queryRunner)) {
+    pendingEvents.set(queryRunner, []);
+  }
+
+  return pendingEvents.get(queryRunner);
+};
+
+/**
+ * Queues the event of a task until its transaction is committed, or
+ * publishes it right away outside of a transaction
+ *
+ * @param {EntityManager} manager - The entity manager of the change
+ * @param {QueryRunner} queryRunner - The query runner of the change
+ * @param {TaskEventType} type - The kind of the event
+ * @param {number} taskId - The id of the task, which can be in the trash
+ */
+const queueTaskEvent = async (
+  manager: EntityManager,
+  queryRunner: QueryRunner,
+  type: TaskEventType,
+  taskId: number,
+) => {
+  const task = await manager.findOne(Task, {
+    where: { id: taskId },
+    relations: { user: true, tags: true },
+    withDeleted: true,
+  });
+
+  if (!task?.user) {
+    return;
+  }
+
+  // The owner of the task is left out, like in the responses of the API
+  const { user, ...data } = task;
+  const pendingEvent: PendingTaskEvent = {
+    type,
+    userIds: await findTaskAudience(task, manager),
+    task: data,
+  };
+  const levels = getTransactionLevels(queryRunner);
+
+  if (levels.length > 0) {
+    levels[levels.length - 1].push(pendingEvent);
+  } else {
+    publishTaskEvent(
+      pendingEvent.type,
+      pendingEvent.userIds,
+      pendingEvent.task,
+    );
+  }
+};
+
+/**
+ * Publishes the changes of the tasks on the task event bus
+ *
+ * @description
+ * Every task saved through an entity manager is published once its
+ * transaction is committed, so that the changes rolled back, whole or to a
+ * savepoint, are never published. Moving a task to the trash is its
+ * deletion for the stream, and restoring it an update. The tasks deleted
+ * for good after their time in the trash are not published again.
+ */
+@EventSubscriber()
+export class TaskEventSubscriber implements EntitySubscriberInterface<Task> {
+  listenTo() {
+    return Task;
+  }
+
+  /**
+   * Publishes a created task
+   *
+   * @param {InsertEvent<Task>} event - The insert event
+   */
+  async afterInsert(event: InsertEvent<Task>) {
+    await queueTaskEvent(
+      event.manager,
+      event.queryRunner,
+      TaskEventType.TaskCreated,
+      event.entity.id,
+    );
+  }
+
+  /**
+   * Publishes an updated task as deleted when it moved to the trash, and as
+   * updated otherwise
+   *
+   * @param {UpdateEvent<Task>} event - The update event
+   */
+  async afterUpdate(event: UpdateEvent<Task>) {
+    if (
+      !event.databaseEntity ||
+      (event.updatedColumns.length === 0 && event.updatedRelations.length === 0)
+    ) {
+      return;
+    }
+
+    const isTrashed =
+      !event.databaseEntity.deletedAt && !!(event.entity as Task).deletedAt;
+
+    await queueTaskEvent(
+      event.manager,
+      event.queryRunner,
+      isTrashed ? TaskEventType.TaskDeleted : TaskEventType.TaskUpdated,
+      event.databaseEntity.id,
+    );
+  }
+
+  /**
+   * Opens a level for the events of a transaction or savepoint
+   *
+   * @param {TransactionStartEvent} event - The transaction start event
+   */
+  beforeTransactionStart(event: TransactionStartEvent) {
+    getTransactionLevels(event.queryRunner).push([]);
+  }
+
+  /**
+   * Publishes the events of a committed transaction, or hands the events of
+   * a released savepoint over to its transaction
+   *
+   * @param {TransactionCommitEvent} event - The transaction commit event
+   */
+  afterTransactionCommit(event: TransactionCommitEvent) {
+    const levels = getTransactionLevels(event.queryRunner);
+    const committedEvents = levels.pop() || [];
+
+    if (levels.length > 0) {
+      levels[levels.length - 1].push(...committedEvents);
+      return;
+    }
+
+    committedEvents.forEach(({ type, userIds, task }) =>
+      publishTaskEvent(type, userIds, task),
+    );
+  }
+
+  /**
+   * Drops the events of a rolled back transaction or savepoint
+   *
+   * @param {TransactionRollbackEvent} event - The transaction rollback event
+   */
+  afterTransactionRollback(event: TransactionRollbackEvent) {
+    getTransactionLevels(event.queryRunner).pop();
+  }
+}
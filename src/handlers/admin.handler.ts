@@ -0,0 +1,420 @@
+import { Context, Hono } from "hono";
+import { z } from "zod";
+import { IsNull } from "typeorm";
+import { authentication } from "../middleware/auth.middleware";
+import { requireRole } from "../middleware/role.middleware";
+import { getUser, UserEnv } from "../contexts/user.context";
+import { validate } from "../utils";
+import { escapeLike } from "../utils/pagination";
+import { User, UserRole } from "../models";
+import { RefreshToken } from "../models/refresh-token.model";
+import { AppDataSource } from "../data-source";
+import { BadRequestError, NotFoundError } from "../errors";
+import { describeRoute } from "../openapi";
+import { activityPageQuery, findActivities } from "../audit";
+import {
+  activitySchema,
+  pageMetaSchema,
+  successSchema,
+  userSchema,
+} from "../schemas";
+
+const admin = new Hono<UserEnv>();
+
+admin.use(authentication(), requireRole(UserRole.Admin));
+
+/**
+ * The query string of GET /admin/users
+ */
+const listUsersQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.string().trim().min(1).optional(),
+  role: z.nativeEnum(UserRole).optional(),
+  status: z.enum(["active", "disabled", "locked", "unverified"]).optional(),
+});
+
+/**
+ * Creates the documented responses of a route returning a user
+ *
+ * @param {string} description - What the returned user is
+ * @returns {Object} - The responses by HTTP status
+ */
+const userResponses = (description: string) => ({
+  200: { description, schema: successSchema({ user: userSchema }) },
+  404: { description: "The user is not found" },
+});
+
+/**
+ * Finds a user by the id route parameter
+ *
+ * @param {Context} context - The Hono context object
+ * @returns {Promise<User>} - The user with the given id
+ *
+ * @throws {NotFoundError} - If the user is not found
+ */
+const findUser = async (context: Context<UserEnv>) => {
+  const userId = parseInt(context.req.param("id"));
+  const user = await AppDataSource.manager.findOneBy(User, { id: userId });
+
+  if (!user) {
+    throw new NotFoundError(`User ${userId} not found`);
+  }
+
+  return user;
+};
+
+/**
+ * Checks that an admin is not managing its own account
+ *
+ * @param {Context} context - The Hono context object
+ * @param {User} user - The managed user
+ *
+ * @throws {BadRequestError} - If the user is the authenticated admin
+ */
+const assertNotSelf = (context: Context<UserEnv>, user: User) => {
+  if (user.id === getUser(context).id) {
+    throw new BadRequestError(
+      "Admins cannot change their own account",
+      "CANNOT_CHANGE_SELF",
+    );
+  }
+};
+
+/**
+ * Revokes every refresh token of a user, which logs out all its sessions
+ *
+ * @param {User} user - The user
+ */
+const revokeSessions = async (user: User) => {
+  await AppDataSource.manager.update(
+    RefreshToken,
+    { user: { id: user.id }, revokedAt: IsNull() },
+    { revokedAt: new Date() },
+  );
+};
+
+/**
+ * Handler for listing the users
+ *
+ * @description
+ * This handler lists the users for an admin, by id.
+ * It accepts the following query parameters:
+ * - search: A text searched in the first name, last name and email
+ * - role: A role to filter by
+ * - status: "active", "disabled", "locked" or "unverified" to filter by
+ * - per_page: The number of users per page, 20 by default and 100 at most
+ * - page: The page number, 1 by default
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the users
+ * - meta: An object containing the total number of users matching the
+ *   filters, the page, perPage and pageCount
+ */
+admin.get(
+  "/users",
+  describeRoute({
+    summary: "List the users",
+    responses: {
+      200: {
+        description: "A page of the users",
+        schema: successSchema({ users: z.array(userSchema) }).extend({
+          meta: pageMetaSchema,
+        }),
+      },
+    },
+  }),
+  validate(listUsersQuery, "query"),
+  async (context) => {
+    const filters = listUsersQuery.parse(context.req.query());
+
+    const query = AppDataSource.manager
+      .createQueryBuilder(User, "account")
+      .orderBy("account.id", "ASC")
+      .skip((filters.page - 1) * filters.per_page)
+      .take(filters.per_page);
+
+    if (filters.search) {
+      query.andWhere(
+        "(LOWER(account.firstName) LIKE :search ESCAPE '!' OR LOWER(account.lastName) LIKE :search ESCAPE '!' OR LOWER(account.email) LIKE :search ESCAPE '!')",
+        { search: `%${escapeLike(filters.search.toLowerCase())}%` },
+      );
+    }
+
+    if (filters.role) {
+      query.andWhere("account.role = :role", { role: filters.role });
+    }
+
+    if (filters.status === "active") {
+      query.andWhere("account.disabledAt IS NULL");
+    } else if (filters.status === "disabled") {
+      query.andWhere("account.disabledAt IS NOT NULL");
+    } else if (filters.status === "locked") {
+      query.andWhere("account.lockedUntil > :now", { now: new Date() });
+    } else if (filters.status === "unverified") {
+      query.andWhere("account.emailVerifiedAt IS NULL");
+    }
+
+    const [users, total] = await query.getManyAndCount();
+
+    return context.json({
+      status: "success",
+      data: { users },
+      meta: {
+        total,
+        page: filters.page,
+        perPage: filters.per_page,
+        pageCount: Math.ceil(total / filters.per_page),
+      },
+    });
+  },
+);
+
+/**
+ * Handler for getting a user
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the user
+ *
+ * @throws {NotFoundError} - If the user is not found
+ */
+admin.get(
+  "/users/:id",
+  describeRoute({
+    summary: "Get a user",
+    responses: userResponses("The user"),
+  }),
+  async (context) => {
+    const user = await findUser(context);
+
+    return context.json({ status: "success", data: { user } });
+  },
+);
+
+/**
+ * Handler for listing the activity of a user
+ *
+ * @description
+ * This handler lists the activity of a user for an admin, newest first,
+ * with the IP addresses of the requests.
+ * It accepts the following query parameters:
+ * - per_page: The number of activities per page, 20 by default and 100 at most
+ * - page: The page number, 1 by default
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the activities
+ * - meta: An object containing the total number of activities, the page,
+ *   perPage and pageCount
+ *
+ * @throws {NotFoundError} - If the user is not found
+ */
+admin.get(
+  "/users/:id/activity",
+  describeRoute({
+    summary: "List the activity of a user",
+    responses: {
+      200: {
+        description: "A page of the activities, newest first",
+        schema: successSchema({ activities: z.array(activitySchema) }).extend({
+          meta: pageMetaSchema,
+        }),
+      },
+      404: { description: "The user is not found" },
+    },
+  }),
+  validate(activityPageQuery, "query"),
+  async (context) => {
+    const user = await findUser(context);
+    const { page, per_page } = activityPageQuery.parse(context.req.query());
+    const [activities, total] = await findActivities(
+      AppDataSource.manager,
+      { actor: { id: user.id } },
+      page,
+      per_page,
+    );
+
+    return context.json({
+      status: "success",
+      data: { activities },
+      meta: {
+        total,
+        page,
+        perPage: per_page,
+        pageCount: Math.ceil(total / per_page),
+      },
+    });
+  },
+);
+
+/**
+ * Handler for changing the role of a user
+ *
+ * @description
+ * It expects a JSON payload with the following property:
+ * - role: The new role of the user, "user" or "admin"
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the updated user
+ *
+ * @throws {NotFoundError} - If the user is not found
+ * @throws {BadRequestError} - If the user is the authenticated admin
+ */
+admin.put(
+  "/users/:id/role",
+  describeRoute({
+    summary: "Change the role of a user",
+    responses: {
+      ...userResponses("The updated user"),
+      400: {
+        description:
+          "The request failed validation, or the user is the authenticated admin",
+      },
+    },
+  }),
+  validate(z.object({ role: z.nativeEnum(UserRole) })),
+  async (context) => {
+    const user = await findUser(context);
+    const { role } = await context.req.json();
+
+    assertNotSelf(context, user);
+
+    user.role = role;
+    await AppDataSource.manager.save(user);
+
+    return context.json({ status: "success", data: { user } });
+  },
+);
+
+/**
+ * Handler for disabling a user
+ *
+ * @description
+ * This handler disables a user, for example while moderating an account.
+ * Every session of the user is logged out, and the user cannot log in
+ * until it is enabled again. Disabling a disabled user keeps its date.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the disabled user
+ *
+ * @throws {NotFoundError} - If the user is not found
+ * @throws {BadRequestError} - If the user is the authenticated admin
+ */
+admin.post(
+  "/users/:id/disable",
+  describeRoute({
+    summary: "Disable a user and log out its sessions",
+    responses: {
+      ...userResponses("The disabled user"),
+      400: { description: "The user is the authenticated admin" },
+    },
+  }),
+  async (context) => {
+    const user = await findUser(context);
+
+    assertNotSelf(context, user);
+
+    if (!user.disabledAt) {
+      user.disabledAt = new Date();
+      await AppDataSource.manager.save(user);
+    }
+
+    await revokeSessions(user);
+
+    return context.json({ status: "success", data: { user } });
+  },
+);
+
+/**
+ * Handler for enabling a user
+ *
+ * @description
+ * This handler enables a disabled user, who can log in again.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the enabled user
+ *
+ * @throws {NotFoundError} - If the user is not found
+ */
+admin.post(
+  "/users/:id/enable",
+  describeRoute({
+    summary: "Enable a disabled user",
+    responses: userResponses("The enabled user"),
+  }),
+  async (context) => {
+    const user = await findUser(context);
+
+    user.disabledAt = null;
+    await AppDataSource.manager.save(user);
+
+    return context.json({ status: "success", data: { user } });
+  },
+);
+
+/**
+ * Handler for verifying the email of a user
+ *
+ * @description
+ * This handler marks the email of a user as verified without the
+ * verification link, for example when support confirmed it another way.
+ * An email that is already verified keeps its date.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the verified user
+ *
+ * @throws {NotFoundError} - If the user is not found
+ */
+admin.post(
+  "/users/:id/verify-email",
+  describeRoute({
+    summary: "Mark the email of a user as verified",
+    responses: userResponses("The verified user"),
+  }),
+  async (context) => {
+    const user = await findUser(context);
+
+    if (!user.emailVerifiedAt) {
+      user.emailVerifiedAt = new Date();
+      await AppDataSource.manager.save(user);
+    }
+
+    return context.json({ status: "success", data: { user } });
+  },
+);
+
+/**
+ * Handler for logging out a user everywhere
+ *
+ * @description
+ * This handler revokes every refresh token of a user, which logs out all of
+ * its sessions, for example after its password leaked.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the user
+ *
+ * @throws {NotFoundError} - If the user is not found
+ */
+admin.delete(
+  "/users/:id/sessions",
+  describeRoute({
+    summary: "Log out every session of a user",
+    responses: userResponses("The user, whose sessions are logged out"),
+  }),
+  async (context) => {
+    const user = await findUser(context);
+
+    await revokeSessions(user);
+
+    return context.json({ status: "success", data: { user } });
+  },
+);
+
+export default admin;
@@ -10,7 +10,7 @@
  * - password: A string representing the password of the user
  *
  * @example
- * POST /register
+ * POST /auth/register
  * {
  *   "firstName": "John",
  *   "lastName": "Doe",
@@ -20,23 +20,197 @@
  *
  * @returns {Object} - The JSON response object with the following properties:
  * - message: A string indicating the success of the registration
- * - user: An object representing the registered user
+ * - data: An object containing the JWT token and refresh token of the new session
  *
  * @throws {Error} - If the registration fails for any reason
  */
-import { Hono } from "hono";
-import { hashHmac, sendMail, validate } from "../utils";
-import { object, z } from "zod";
-import { User } from "../models";
+import { Context, Hono } from "hono";
+import { getClientIp, getFrontendUrl, hashHmac, validate } from "../utils";
+import {
+  accountLockedMail,
+  passwordResetMail,
+  verificationMail,
+} from "../mail";
+import { queueMail } from "../jobs";
+import { z } from "zod";
+import {
+  ActivityAction,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  MAX_REMINDER_HOURS,
+  NotificationPreference,
+  User,
+} from "../models";
 import { AppDataSource } from "../data-source";
 import { sign } from "hono/jwt";
 import { RefreshToken } from "../models/refresh-token.model";
 import { addDays } from "../utils/date";
 import { randomUUID } from "crypto";
+import { IsNull, MoreThan } from "typeorm";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "../errors";
+import { authentication } from "../middleware/auth.middleware";
+import {
+  emailKey,
+  ipKey,
+  rateLimit,
+} from "../middleware/rate-limit.middleware";
+import { getSessionId, getUser, UserEnv } from "../contexts/user.context";
+import { describeRoute } from "../openapi";
+import { activityPageQuery, findActivities, recordActivity } from "../audit";
+import {
+  activitySchema,
+  notificationPreferencesSchema,
+  pageMetaSchema,
+  sessionSchema,
+  statusSchema,
+  successSchema,
+  tokensResponseSchema,
+} from "../schemas";
 
 const bcrypt = require("bcrypt");
 
-const auth = new Hono();
+const auth = new Hono<UserEnv>();
+
+/**
+ * The time in milliseconds during which an email verification link can be used
+ */
+const EMAIL_VERIFICATION_EXPIRATION = 1000 * 60 * 10;
+
+/**
+ * The time in milliseconds during which a password reset link can be used
+ */
+const PASSWORD_RESET_EXPIRATION = 1000 * 60 * 60;
+
+/**
+ * The number of failed logins after which a user is locked, and again after
+ * every as many failed logins
+ */
+const MAX_FAILED_LOGINS = 5;
+
+/**
+ * The time in milliseconds of the first lock of a user, doubled for every
+ * following lock until the user logs in
+ */
+const LOCKOUT_DURATION = 1000 * 60 * 15;
+
+/**
+ * The longest time in milliseconds a user is locked
+ */
+const MAX_LOCKOUT_DURATION = 1000 * 60 * 60 * 24;
+
+/**
+ * One minute and one hour in milliseconds, the windows of the rate limits
+ */
+const MINUTE = 1000 * 60;
+const HOUR = MINUTE * 60;
+
+/**
+ * Signs a password reset request
+ *
+ * @description
+ * The signature covers the current password hash of the user, so the link
+ * stops working as soon as the password has been changed with it.
+ *
+ * @param {User} user - The user who requested the password reset
+ * @param {string | number} requestAt - The timestamp of the request
+ * @returns {string} - The HMAC signature of the request
+ */
+const signPasswordReset = (user: User, requestAt: string | number) => {
+  return hashHmac(`${user.email}#${requestAt}#${user.password}`);
+};
+
+/**
+ * Signs the unlock link of a locked user
+ *
+ * @description
+ * The signature covers the end of the lock, so the link stops working once
+ * the user is unlocked or locked again.
+ *
+ * @param {User} user - The locked user
+ * @returns {string} - The HMAC signature of the unlock link
+ */
+const signUnlock = (user: User) => {
+  return hashHmac(`unlock#${user.email}#${user.lockedUntil.getTime()}`);
+};
+
+/**
+ * Counts a failed login of a user, and locks the user every MAX_FAILED_LOGINS
+ *
+ * @description
+ * Every lock lasts twice as long as the previous one, up to a day, and sends
+ * the user an email with a link unlocking the account at once.
+ *
+ * @param {User} user - The user who failed to log in
+ */
+const recordFailedLogin = async (user: User) => {
+  await AppDataSource.manager.increment(
+    User,
+    { id: user.id },
+    "failedLoginAttempts",
+    1,
+  );
+
+  const { failedLoginAttempts } = await AppDataSource.manager.findOneBy(User, {
+    id: user.id,
+  });
+
+  if (failedLoginAttempts % MAX_FAILED_LOGINS !== 0) {
+    return;
+  }
+
+  // Lock the user, twice as long as the previous time
+  const locks = failedLoginAttempts / MAX_FAILED_LOGINS;
+  const duration = Math.min(
+    LOCKOUT_DURATION * Math.pow(2, locks - 1),
+    MAX_LOCKOUT_DURATION,
+  );
+  user.lockedUntil = new Date(Date.now() + duration);
+  await AppDataSource.manager.update(User, user.id, {
+    lockedUntil: user.lockedUntil,
+  });
+
+  // Queue the email with the unlock link
+  const query = new URLSearchParams({
+    email: user.email,
+    locked_until: String(user.lockedUntil.getTime()),
+    signature: signUnlock(user),
+  });
+
+  await queueMail(
+    user.email,
+    accountLockedMail({
+      firstName: user.firstName,
+      lockedUntil: user.lockedUntil,
+      url: `${process.env.APP_URL}/auth/unlock?${query}`,
+    }),
+  );
+};
+
+/**
+ * The session details stored with a refresh token
+ */
+type SessionInfo = {
+  family?: string;
+  userAgent?: string;
+  ipAddress?: string;
+};
+
+/**
+ * Gets the session details of the client that sent the request
+ *
+ * @param {Context} context - The Hono context object
+ * @returns {SessionInfo} - The user agent and IP address of the client
+ */
+const getSessionInfo = (context: Context): SessionInfo => ({
+  userAgent: context.req.header("user-agent"),
+  ipAddress: getClientIp(context),
+});
 
 /**
  * Generates a JWT token and a refresh token for a given user
@@ -46,7 +220,13 @@ const auth = new Hono();
  * The JWT token has an expiration time of one hour, and the refresh token
  * expires in one day.
  *
+ * A new login starts a new refresh token family, while a rotated refresh
+ * token keeps the family of the token it replaces. The family is the
+ * session of the JWT token, so revoking it logs the session out.
+ *
  * @param {User} user - The user for which the tokens are generated
+ * @param {SessionInfo} session - The session family, a new one by default,
+ * and the client details of the session
  * @returns {Promise<{token: string, refreshToken: string}>} - A promise that resolves
  * to an object containing the generated JWT token and refresh token
  *
@@ -54,7 +234,10 @@ const auth = new Hono();
  */
 export const generateUserToken = async (
   user: User,
+  session: SessionInfo = {},
 ): Promise<{ token: string; refreshToken: string }> => {
+  const family = session.family || randomUUID();
+
   /**
    * Generate a JWT token using the given user data and the secret key
    * stored in the environment variable JWT_SECRET
@@ -65,6 +248,7 @@ export const generateUserToken = async (
       firstName: user.firstName,
       lastName: user.lastName,
       email: user.email,
+      sessionId: family,
       exp: Math.floor(Date.now() / 1000) + 60 * 60,
     },
     process.env.JWT_SECRET,
@@ -76,6 +260,9 @@ export const generateUserToken = async (
    */
   const refreshToken = new RefreshToken();
   refreshToken.token = randomUUID();
+  refreshToken.family = family;
+  refreshToken.userAgent = session.userAgent;
+  refreshToken.ipAddress = session.ipAddress;
   refreshToken.user = user;
   refreshToken.createdAt = new Date();
   refreshToken.expiredAt = addDays(new Date(), 1);
@@ -107,12 +294,24 @@ export const generateUserToken = async (
  *
  * @returns {Object} - The JSON response object with the following properties:
  * - message: A string indicating the success of the registration
- * - user: An object representing the registered user
+ * - data: An object containing the JWT token and refresh token of the new session
  *
- * @throws {Error} - If the registration fails for any reason
+ * @throws {ConflictError} - If the email already exists
+ * @throws {TooManyRequestsError} - If the IP address registered too many users
  */
 auth.post(
   "/register",
+  describeRoute({
+    summary: "Register a user",
+    responses: {
+      200: {
+        description: "The user is registered and logged in",
+        schema: tokensResponseSchema,
+      },
+      409: { description: "The email is already taken" },
+    },
+  }),
+  rateLimit({ name: "register", limit: 10, window: HOUR, key: ipKey }),
   validate(
     z.object({
       // First name of the user
@@ -120,21 +319,19 @@ auth.post(
       // Last name of the user
       lastName: z.string().min(1),
       // Email of the user
-      email: z
-        .string()
-        .min(1)
-        .email()
-        .refine(async (email) => {
-          // Check if the email already exists in the database
-          return !(await AppDataSource.manager.existsBy(User, {
-            email: email,
-          }));
-        }, "Email already exists!"),
+      email: z.string().min(1).email(),
       // Password of the user
       password: z.string().min(6),
     }),
   ),
   async (c) => {
+    const payload: any = await c.req.json();
+
+    // Check if the email already exists in the database
+    if (await AppDataSource.manager.existsBy(User, { email: payload.email })) {
+      throw new ConflictError("Email already exists", "EMAIL_TAKEN");
+    }
+
     // Create a new query runner
     const queryRunner = AppDataSource.createQueryRunner();
 
@@ -144,8 +341,6 @@ auth.post(
       // Start a new transaction
       await queryRunner.startTransaction();
 
-      const payload: any = await c.req.json();
-
       const user = new User();
       user.firstName = payload.firstName;
       user.lastName = payload.lastName;
@@ -159,7 +354,7 @@ auth.post(
       // Commit the transaction
       await queryRunner.commitTransaction();
 
-      const token = await generateUserToken(user);
+      const token = await generateUserToken(user, getSessionInfo(c));
 
       return c.json({
         message: "Successfully registration user",
@@ -189,10 +384,39 @@ auth.post(
  * - message: A string indicating the success of the login
  * - data: An object containing the JWT token for the logged in user
  *
- * @throws {Error} - If the login fails for any reason
+ * After MAX_FAILED_LOGINS failed logins in a row, the user is locked for
+ * a while and receives an email to unlock the account. A locked user cannot
+ * log in, even with the right password.
+ *
+ * @throws {UnauthorizedError} - If the email or password is invalid
+ * @throws {ForbiddenError} - If the user is disabled
+ * @throws {TooManyRequestsError} - If the user is locked, or the IP address
+ * or email made too many login attempts
  */
 auth.post(
   "/login",
+  describeRoute({
+    summary: "Log in",
+    responses: {
+      200: {
+        description: "The user is logged in",
+        schema: tokensResponseSchema,
+      },
+      401: { description: "The email or password is invalid" },
+      403: { description: "The user is disabled" },
+      429: {
+        description:
+          "Too many requests, or the account is locked after too many failed logins",
+      },
+    },
+  }),
+  rateLimit({ name: "login-ip", limit: 30, window: 15 * MINUTE, key: ipKey }),
+  rateLimit({
+    name: "login-email",
+    limit: 10,
+    window: 15 * MINUTE,
+    key: emailKey,
+  }),
   validate(
     z.object({
       // Email of the user
@@ -208,16 +432,55 @@ auth.post(
     // Find the user by email in the database
     const matchedUser = await AppDataSource.manager.findOneBy(User, { email });
 
+    // Return error response if the user is locked, without checking the password
+    if (matchedUser?.lockedUntil && matchedUser.lockedUntil > new Date()) {
+      throw new TooManyRequestsError(
+        Math.ceil((matchedUser.lockedUntil.getTime() - Date.now()) / 1000),
+        "Account locked after too many failed logins",
+        "ACCOUNT_LOCKED",
+      );
+    }
+
     // Check if the user exists and the password is correct
     if (
       !matchedUser ||
       !(await bcrypt.compare(password, matchedUser.password))
     ) {
+      // Count the failed login of an existing user
+      if (matchedUser) {
+        await recordActivity(AppDataSource.manager, {
+          action: ActivityAction.LoginFailed,
+          actor: matchedUser,
+        });
+        await recordFailedLogin(matchedUser);
+      }
+
       // Return error response if the user does not exist or the password is incorrect
-      return context.json({ message: "Invalid email or password" }, 400);
+      throw new UnauthorizedError(
+        "Invalid email or password",
+        "INVALID_CREDENTIALS",
+      );
+    }
+
+    // Return error response if an admin disabled the user
+    if (matchedUser.disabledAt) {
+      throw new ForbiddenError("Account disabled", "ACCOUNT_DISABLED");
     }
 
-    const token = await generateUserToken(matchedUser);
+    // Start counting the failed logins again
+    if (matchedUser.failedLoginAttempts > 0 || matchedUser.lockedUntil) {
+      await AppDataSource.manager.update(User, matchedUser.id, {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+    }
+
+    await recordActivity(AppDataSource.manager, {
+      action: ActivityAction.Login,
+      actor: matchedUser,
+    });
+
+    const token = await generateUserToken(matchedUser, getSessionInfo(context));
 
     // Return success response with the JWT token
     return context.json({
@@ -229,6 +492,453 @@ auth.post(
   },
 );
 
+/**
+ * Handler for refreshing the user tokens
+ *
+ * @description
+ * This handler trades a valid refresh token for a new JWT token and
+ * refresh token. The used refresh token is revoked, so every refresh
+ * token can only be used once.
+ * Using a refresh token that has already been rotated is treated as
+ * token theft, and every refresh token of its family is revoked.
+ * It expects a JSON payload with the following property:
+ * - refreshToken: A string representing the refresh token of the user
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - message: A string indicating the success of the refresh
+ * - data: An object containing the new JWT token and refresh token
+ *
+ * @throws {UnauthorizedError} - If the refresh token is invalid, revoked or
+ * expired, or the user is disabled
+ */
+auth.post(
+  "/refresh",
+  describeRoute({
+    summary: "Refresh the tokens of a session",
+    description:
+      "The refresh token is revoked, every refresh token can only be used once.",
+    responses: {
+      200: { description: "The new tokens", schema: tokensResponseSchema },
+      401: {
+        description:
+          "The refresh token is invalid, expired or reused, or the user is disabled",
+      },
+    },
+  }),
+  validate(
+    z.object({
+      // Refresh token of the user
+      refreshToken: z.string().min(1),
+    }),
+  ),
+  async (context) => {
+    // Parse the request body as JSON
+    const { refreshToken } = await context.req.json();
+
+    // Find the refresh token with its owner in the database
+    const storedToken = await AppDataSource.manager.findOne(RefreshToken, {
+      where: { token: refreshToken },
+      relations: ["user"],
+    });
+
+    // Return error response if the refresh token does not exist
+    if (!storedToken) {
+      throw new UnauthorizedError(
+        "Invalid refresh token",
+        "INVALID_REFRESH_TOKEN",
+      );
+    }
+
+    // Return error response if an admin disabled the user
+    if (storedToken.user.disabledAt) {
+      throw new UnauthorizedError("Account disabled", "ACCOUNT_DISABLED");
+    }
+
+    // Return error response if the refresh token has expired
+    if (!storedToken.revokedAt && storedToken.expiredAt < new Date()) {
+      throw new UnauthorizedError(
+        "Refresh token expired",
+        "REFRESH_TOKEN_EXPIRED",
+      );
+    }
+
+    // Revoke the refresh token, only if nobody else revoked it in the meantime
+    const result = await AppDataSource.manager.update(
+      RefreshToken,
+      { id: storedToken.id, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    // A revoked refresh token is being reused, revoke its whole family
+    if (result.affected === 0) {
+      await AppDataSource.manager.update(
+        RefreshToken,
+        { family: storedToken.family, revokedAt: IsNull() },
+        { revokedAt: new Date() },
+      );
+
+      throw new UnauthorizedError(
+        "Refresh token reused",
+        "REFRESH_TOKEN_REUSED",
+      );
+    }
+
+    // Keep the session of the rotated refresh token
+    const token = await generateUserToken(storedToken.user, {
+      family: storedToken.family,
+      userAgent: storedToken.userAgent,
+      ipAddress: storedToken.ipAddress,
+    });
+
+    // Return success response with the new tokens
+    return context.json({
+      message: "Successfully refreshed token",
+      data: {
+        ...token,
+      },
+    });
+  },
+);
+
+/**
+ * Handler for user logout
+ *
+ * @description
+ * This handler logs out the current session of the authenticated user.
+ * Every refresh token of the session is revoked, and the JWT token of the
+ * session is rejected from now on.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the logout
+ */
+auth.post(
+  "/logout",
+  describeRoute({
+    summary: "Log out the current session",
+    responses: {
+      200: { description: "The session is logged out", schema: statusSchema },
+    },
+  }),
+  authentication(),
+  async (context) => {
+    // Revoke every refresh token of the current session
+    await AppDataSource.manager.update(
+      RefreshToken,
+      { family: getSessionId(context), revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    await recordActivity(AppDataSource.manager, {
+      action: ActivityAction.Logout,
+    });
+
+    // Return success response
+    return context.json({ status: "success" });
+  },
+);
+
+/**
+ * Handler for listing the active sessions
+ *
+ * @description
+ * This handler lists the active sessions of the authenticated user,
+ * one per refresh token that is neither revoked nor expired.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the sessions, each with its id, user agent,
+ *   IP address, creation and expiration date, and whether it is the current one
+ */
+auth.get(
+  "/sessions",
+  describeRoute({
+    summary: "List the active sessions",
+    responses: {
+      200: {
+        description: "The active sessions",
+        schema: successSchema({ sessions: z.array(sessionSchema) }),
+      },
+    },
+  }),
+  authentication(),
+  async (context) => {
+    // Find the active refresh tokens of the authenticated user
+    const refreshTokens = await AppDataSource.manager.find(RefreshToken, {
+      where: {
+        user: { id: getUser(context).id },
+        revokedAt: IsNull(),
+        expiredAt: MoreThan(new Date()),
+      },
+      order: { createdAt: "DESC" },
+    });
+
+    // Return the sessions without their refresh tokens
+    return context.json({
+      status: "success",
+      data: {
+        sessions: refreshTokens.map((refreshToken) => ({
+          id: refreshToken.id,
+          userAgent: refreshToken.userAgent,
+          ipAddress: refreshToken.ipAddress,
+          createdAt: refreshToken.createdAt,
+          expiredAt: refreshToken.expiredAt,
+          current: refreshToken.family === getSessionId(context),
+        })),
+      },
+    });
+  },
+);
+
+/**
+ * Handler for logging out everywhere
+ *
+ * @description
+ * This handler revokes every refresh token of the authenticated user,
+ * which logs out all of its sessions including the current one.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ */
+auth.delete(
+  "/sessions",
+  describeRoute({
+    summary: "Log out every session",
+    responses: {
+      200: { description: "Every session is logged out", schema: statusSchema },
+    },
+  }),
+  authentication(),
+  async (context) => {
+    // Revoke every refresh token of the authenticated user
+    await AppDataSource.manager.update(
+      RefreshToken,
+      { user: { id: getUser(context).id }, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    // Return success response
+    return context.json({ status: "success" });
+  },
+);
+
+/**
+ * Handler for revoking a session
+ *
+ * @description
+ * This handler revokes a session of the authenticated user, for example
+ * to log out a lost device. The id is the id of a session returned by
+ * GET /auth/sessions.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ *
+ * @throws {NotFoundError} - If the session is not found
+ */
+auth.delete(
+  "/sessions/:id",
+  describeRoute({
+    summary: "Revoke a session",
+    responses: {
+      200: { description: "The session is revoked", schema: statusSchema },
+      404: { description: "The session is not found" },
+    },
+  }),
+  authentication(),
+  async (context) => {
+    const sessionId = parseInt(context.req.param("id"));
+
+    // Find the refresh token of the session owned by the authenticated user
+    const refreshToken = await AppDataSource.manager.findOneBy(RefreshToken, {
+      id: sessionId,
+      user: { id: getUser(context).id },
+    });
+
+    // Return error response if the session is not found
+    if (!refreshToken) {
+      throw new NotFoundError(`Session ${sessionId} not found`);
+    }
+
+    // Revoke every refresh token of the session
+    await AppDataSource.manager.update(
+      RefreshToken,
+      { family: refreshToken.family, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+
+    // Return success response
+    return context.json({ status: "success" });
+  },
+);
+
+/**
+ * Handler for listing the activity of the user
+ *
+ * @description
+ * This handler lists the activity of the authenticated user, newest first:
+ * its logins, failed logins, logouts, email verifications and password
+ * resets, and the changes it made to tasks.
+ * It accepts the following query parameters:
+ * - per_page: The number of activities per page, 20 by default and 100 at most
+ * - page: The page number, 1 by default
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the activities
+ * - meta: An object containing the total number of activities, the page,
+ *   perPage and pageCount
+ */
+auth.get(
+  "/activity",
+  describeRoute({
+    summary: "List the activity of the user",
+    responses: {
+      200: {
+        description: "A page of the activities, newest first",
+        schema: successSchema({ activities: z.array(activitySchema) }).extend({
+          meta: pageMetaSchema,
+        }),
+      },
+    },
+  }),
+  authentication(),
+  validate(activityPageQuery, "query"),
+  async (context) => {
+    const { page, per_page } = activityPageQuery.parse(context.req.query());
+    const [activities, total] = await findActivities(
+      AppDataSource.manager,
+      { actor: { id: getUser(context).id } },
+      page,
+      per_page,
+    );
+
+    return context.json({
+      status: "success",
+      data: { activities },
+      meta: {
+        total,
+        page,
+        perPage: per_page,
+        pageCount: Math.ceil(total / per_page),
+      },
+    });
+  },
+);
+
+/**
+ * The JSON payload of PATCH /auth/notifications
+ */
+const notificationPreferencesPayloadSchema = z
+  .object({
+    dueReminders: z.boolean(),
+    reminderHours: z.number().int().min(1).max(MAX_REMINDER_HOURS),
+    overdueReminders: z.boolean(),
+    dailyDigest: z.boolean(),
+    digestHour: z.number().int().min(0).max(23),
+  })
+  .partial()
+  .refine(
+    (changes) => Object.keys(changes).length > 0,
+    "At least one field must be given",
+  );
+
+/**
+ * Finds the notification preferences of a user
+ *
+ * @param {User} user - The user
+ * @returns {Promise<NotificationPreference>} - The saved preferences, or
+ * unsaved default ones when the user has not changed them yet
+ */
+const findNotificationPreference = async (
+  user: User,
+): Promise<NotificationPreference> => {
+  const preference = await AppDataSource.manager.findOneBy(
+    NotificationPreference,
+    { user: { id: user.id } },
+  );
+
+  return (
+    preference ||
+    AppDataSource.manager.create(NotificationPreference, {
+      ...DEFAULT_NOTIFICATION_PREFERENCES,
+      updatedAt: null,
+    })
+  );
+};
+
+/**
+ * Handler for getting the notification preferences
+ *
+ * @description
+ * This handler returns the notification preferences of the authenticated
+ * user, the default ones until the user changes them.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the preferences
+ */
+auth.get(
+  "/notifications",
+  describeRoute({
+    summary: "Get the notification preferences",
+    responses: {
+      200: {
+        description: "The notification preferences",
+        schema: successSchema({ preferences: notificationPreferencesSchema }),
+      },
+    },
+  }),
+  authentication(),
+  async (context) => {
+    const preferences = await findNotificationPreference(getUser(context));
+
+    return context.json({ status: "success", data: { preferences } });
+  },
+);
+
+/**
+ * Handler for updating the notification preferences
+ *
+ * @description
+ * This handler updates the notification preferences of the authenticated
+ * user. It expects a JSON payload with at least one of the following properties:
+ * - dueReminders: Whether to be reminded of a task before it is due
+ * - reminderHours: How many hours before the due date, from 1 to 168
+ * - overdueReminders: Whether to be told when a task becomes overdue
+ * - dailyDigest: Whether to receive a daily digest of the open tasks
+ * - digestHour: The hour of the day the digest is sent from, from 0 to 23 in UTC
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the updated preferences
+ */
+auth.patch(
+  "/notifications",
+  describeRoute({
+    summary: "Update the notification preferences",
+    responses: {
+      200: {
+        description: "The updated notification preferences",
+        schema: successSchema({ preferences: notificationPreferencesSchema }),
+      },
+    },
+  }),
+  authentication(),
+  validate(notificationPreferencesPayloadSchema),
+  async (context) => {
+    const user = getUser(context);
+    const changes = notificationPreferencesPayloadSchema.parse(
+      await context.req.json(),
+    );
+
+    // Apply the changes to the current preferences and save them
+    const preferences = await findNotificationPreference(user);
+    Object.assign(preferences, changes, { user, updatedAt: new Date() });
+    await AppDataSource.manager.save(preferences);
+
+    return context.json({ status: "success", data: { preferences } });
+  },
+);
+
 /**
  * Handler for requesting email verification
  *
@@ -240,10 +950,25 @@ auth.post(
  * @returns {Object} - The JSON response object with the following properties:
  * - status: A string indicating the success of the request
  *
- * @throws {Error} - If the user is not found
+ * @throws {NotFoundError} - If the user is not found
+ * @throws {TooManyRequestsError} - If the IP address or email requested too many emails
  */
 auth.post(
   "/request-verification",
+  describeRoute({
+    summary: "Send an email verification link",
+    responses: {
+      200: { description: "The link is sent", schema: statusSchema },
+      404: { description: "No unverified user has the email" },
+    },
+  }),
+  rateLimit({ name: "verification-ip", limit: 10, window: HOUR, key: ipKey }),
+  rateLimit({
+    name: "verification-email",
+    limit: 3,
+    window: HOUR,
+    key: emailKey,
+  }),
   validate(
     z.object({
       email: z.string().email(),
@@ -256,29 +981,51 @@ auth.post(
     // Find the user by email in the database with emailVerifiedAt as null
     const user = await AppDataSource.manager.findOneBy(User, {
       email,
-      emailVerifiedAt: null,
+      emailVerifiedAt: IsNull(),
     });
 
     // Return error response if the user is not found
     if (!user) {
-      return context.json({ message: "User not found" }, 404);
+      throw new NotFoundError("User not found");
     }
 
     // Generate the verification URL with request date and signature
     const loggedDate = new Date().getTime();
-    const verificationUrl = `${process.env.APP_URL}/auth/verify
-      ?email=${user.email}
-      &request_at=${loggedDate}
-      &signature=${hashHmac(`${user.email}#${loggedDate}`)}`;
+    const query = new URLSearchParams({
+      email: user.email,
+      request_at: String(loggedDate),
+      signature: hashHmac(`${user.email}#${loggedDate}`),
+    });
+    const verificationUrl = `${process.env.APP_URL}/auth/verify?${query}`;
 
-    // Send the verification email
-    await sendMail(user.email, "Email Verification", verificationUrl);
+    // Queue the verification email
+    await queueMail(
+      user.email,
+      verificationMail({ firstName: user.firstName, url: verificationUrl }),
+      new Date(loggedDate + EMAIL_VERIFICATION_EXPIRATION),
+    );
 
     // Return success response
     return context.json({ status: "success" });
   },
 );
 
+/**
+ * Creates the schema of the query string of a signed email link
+ *
+ * @param {string} dateParam - The name of the parameter with the signed date
+ * @returns {ZodObject} - The schema of the query string
+ */
+const signedLinkQuery = (dateParam: string) =>
+  z.object({
+    email: z.string().email(),
+    [dateParam]: z
+      .string()
+      .min(1)
+      .describe("The timestamp signed with the email"),
+    signature: z.string().min(1),
+  });
+
 /**
  * Handler for email verification
  *
@@ -292,41 +1039,279 @@ auth.post(
  * @returns {Object} - The JSON response object with the following properties:
  * - status: A string indicating the success of the verification
  *
- * @throws {Error} - If the signature is invalid or the request has expired
- * @throws {Error} - If the user is not found
+ * @throws {BadRequestError} - If the signature is invalid or the request has expired
+ * @throws {NotFoundError} - If the user is not found
  */
-auth.get("/verify", async (context) => {
-  // Parse the query string
-  const { email, request_at, signature } = context.req.query();
-
-  // Parse the request date and calculate the time difference
-  const requestDate = new Date(parseInt(request_at));
-  const currentDate = new Date();
-  const timeDiff = currentDate.getTime() - requestDate.getTime();
-
-  // Check if the signature is valid and the request has not expired
-  if (hashHmac(`${email}#${request_at}`) !== signature) {
-    return context.json({ message: "Invalid signature" }, 400);
-  }
+auth.get(
+  "/verify",
+  describeRoute({
+    summary: "Verify an email",
+    responses: {
+      200: { description: "The email is verified", schema: statusSchema },
+      400: { description: "The signature is invalid or the link expired" },
+      404: { description: "The user is not found" },
+    },
+  }),
+  validate(signedLinkQuery("request_at"), "query"),
+  async (context) => {
+    // Parse the query string
+    const { email, request_at, signature } = context.req.query();
 
-  if (timeDiff > 1000 * 60 * 10) {
-    return context.json({ message: "Request expired" }, 400);
-  }
+    // Parse the request date and calculate the time difference
+    const requestDate = new Date(parseInt(request_at));
+    const currentDate = new Date();
+    const timeDiff = currentDate.getTime() - requestDate.getTime();
 
-  // Find the user by email in the database
-  const user = await AppDataSource.manager.findOneBy(User, { email });
+    // Check if the signature is valid and the request has not expired
+    if (hashHmac(`${email}#${request_at}`) !== signature) {
+      throw new BadRequestError("Invalid signature", "INVALID_SIGNATURE");
+    }
 
-  // Return error response if the user is not found
-  if (!user) {
-    return context.json({ message: "User not found" }, 404);
-  }
+    if (timeDiff > EMAIL_VERIFICATION_EXPIRATION) {
+      throw new BadRequestError("Request expired", "REQUEST_EXPIRED");
+    }
 
-  // Update the emailVerifiedAt field and save the user to the database
-  user.emailVerifiedAt = currentDate;
-  await AppDataSource.manager.save(user);
+    // Find the user by email in the database
+    const user = await AppDataSource.manager.findOneBy(User, { email });
 
-  // Return success response
-  return context.json({ status: "success" });
-});
+    // Return error response if the user is not found
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    // Update the emailVerifiedAt field and save the user to the database
+    user.emailVerifiedAt = currentDate;
+    await AppDataSource.manager.save(user);
+
+    await recordActivity(AppDataSource.manager, {
+      action: ActivityAction.EmailVerified,
+      actor: user,
+    });
+
+    // Return success response
+    return context.json({ status: "success" });
+  },
+);
+
+/**
+ * Handler for unlocking a locked user
+ *
+ * @description
+ * This handler unlocks a user with the values of the link sent when the
+ * user was locked, and starts counting the failed logins again.
+ * It expects a query string with the following properties:
+ * - email: A string representing the email of the user
+ * - locked_until: A string representing the timestamp of the end of the lock
+ * - signature: A string representing the HMAC signature of the link
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the unlock
+ *
+ * @throws {BadRequestError} - If the signature is invalid, which it is once the user is unlocked
+ */
+auth.get(
+  "/unlock",
+  describeRoute({
+    summary: "Unlock a locked user",
+    responses: {
+      200: { description: "The user is unlocked", schema: statusSchema },
+      400: { description: "The signature is invalid" },
+    },
+  }),
+  validate(signedLinkQuery("locked_until"), "query"),
+  async (context) => {
+    // Parse the query string
+    const { email, locked_until, signature } = context.req.query();
+
+    // Find the user by email in the database
+    const user = await AppDataSource.manager.findOneBy(User, { email });
+
+    // Check if the user is still locked by the lock of the link
+    if (
+      !user?.lockedUntil ||
+      String(user.lockedUntil.getTime()) !== locked_until ||
+      signUnlock(user) !== signature
+    ) {
+      throw new BadRequestError("Invalid signature", "INVALID_SIGNATURE");
+    }
+
+    await AppDataSource.manager.update(User, user.id, {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    });
+
+    // Return success response
+    return context.json({ status: "success" });
+  },
+);
+
+/**
+ * Handler for requesting a password reset
+ *
+ * @description
+ * This handler sends a signed link to the /reset-password page of the
+ * frontend to the user, which resets the password with POST
+ * /auth/reset-password. The link expires after one hour and can only be
+ * used once.
+ * It expects a JSON payload with the following property:
+ * - email: A string representing the email of the user
+ *
+ * The response is the same whether the user exists or not, so the handler
+ * cannot be used to find out which emails are registered.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ *
+ * @throws {TooManyRequestsError} - If the IP address or email requested too many emails
+ */
+auth.post(
+  "/forgot-password",
+  describeRoute({
+    summary: "Send a password reset link",
+    description:
+      "The response is the same whether a user has the email or not.",
+    responses: {
+      200: {
+        description: "The link is sent if a user has the email",
+        schema: statusSchema,
+      },
+    },
+  }),
+  rateLimit({ name: "reset-ip", limit: 10, window: HOUR, key: ipKey }),
+  rateLimit({ name: "reset-email", limit: 3, window: HOUR, key: emailKey }),
+  validate(
+    z.object({
+      email: z.string().email(),
+    }),
+  ),
+  async (context) => {
+    // Parse the request body as JSON
+    const { email } = await context.req.json();
+
+    // Find the user by email in the database
+    const user = await AppDataSource.manager.findOneBy(User, { email });
+
+    if (user) {
+      // Generate the password reset URL with request date and signature
+      const requestAt = new Date().getTime();
+      const query = new URLSearchParams({
+        email: user.email,
+        request_at: String(requestAt),
+        signature: signPasswordReset(user, requestAt),
+      });
+      const resetUrl = getFrontendUrl(`/reset-password?${query}`);
+
+      // Queue the password reset email
+      await queueMail(
+        user.email,
+        passwordResetMail({ firstName: user.firstName, url: resetUrl }),
+        new Date(requestAt + PASSWORD_RESET_EXPIRATION),
+      );
+    }
+
+    // Return success response
+    return context.json({ status: "success" });
+  },
+);
+
+/**
+ * Handler for resetting the password
+ *
+ * @description
+ * This handler sets a new password with the values of a password reset link.
+ * Every refresh token of the user is revoked, which logs out all sessions,
+ * and a locked user is unlocked.
+ * It expects a JSON payload with the following properties:
+ * - email: A string representing the email of the user
+ * - requestAt: A string representing the request_at value of the link
+ * - signature: A string representing the signature value of the link
+ * - password: A string representing the new password of the user
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the reset
+ *
+ * @throws {BadRequestError} - If the signature is invalid or the link has expired
+ */
+auth.post(
+  "/reset-password",
+  describeRoute({
+    summary: "Reset the password",
+    responses: {
+      200: {
+        description: "The password is reset and every session logged out",
+        schema: statusSchema,
+      },
+      400: { description: "The signature is invalid or the link expired" },
+    },
+  }),
+  validate(
+    z.object({
+      email: z.string().email(),
+      requestAt: z.string().min(1),
+      signature: z.string().min(1),
+      password: z.string().min(6),
+    }),
+  ),
+  async (context) => {
+    // Parse the request body as JSON
+    const { email, requestAt, signature, password } = await context.req.json();
+
+    // Find the user by email in the database
+    const user = await AppDataSource.manager.findOneBy(User, { email });
+
+    // Check if the signature is valid, it no longer is once the password changed
+    if (!user || signPasswordReset(user, requestAt) !== signature) {
+      throw new BadRequestError("Invalid signature", "INVALID_SIGNATURE");
+    }
+
+    // Check if the link has not expired
+    const timeDiff = new Date().getTime() - parseInt(requestAt);
+
+    if (timeDiff > PASSWORD_RESET_EXPIRATION) {
+      throw new BadRequestError("Request expired", "REQUEST_EXPIRED");
+    }
+
+    // Create a new query runner
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      // Connect to the database
+      await queryRunner.connect();
+      // Start a new transaction
+      await queryRunner.startTransaction();
+
+      // Hash the new password using bcrypt, and unlock the user
+      user.password = await bcrypt.hash(password, 12);
+      user.failedLoginAttempts = 0;
+      user.lockedUntil = null;
+      await queryRunner.manager.save(user);
+
+      // Revoke every refresh token of the user
+      await queryRunner.manager.update(
+        RefreshToken,
+        { user: { id: user.id }, revokedAt: IsNull() },
+        { revokedAt: new Date() },
+      );
+
+      await recordActivity(queryRunner.manager, {
+        action: ActivityAction.PasswordReset,
+        actor: user,
+      });
+
+      // Commit the transaction
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      // Rollback the transaction if an error occurs
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      // Release the query runner
+      await queryRunner.release();
+    }
+
+    // Return success response
+    return context.json({ status: "success" });
+  },
+);
 
 export default auth;
@@ -0,0 +1,79 @@
+import { Hono } from "hono";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { NotFoundError } from "../errors";
+
+const swaggerUi = require("swagger-ui-dist");
+
+const docs = new Hono();
+
+/**
+ * The files of the Swagger UI bundle served by the docs, by content type
+ */
+const ASSETS: Record<string, string> = {
+  "swagger-ui.css": "text/css; charset=utf-8",
+  "swagger-ui-bundle.js": "application/javascript; charset=utf-8",
+};
+
+/**
+ * The page of the docs, rendering /openapi.json with Swagger UI
+ */
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Tasks API</title>
+    <link rel="stylesheet" href="/docs/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="/docs/swagger-ui-bundle.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: "/openapi.json", dom_id: "#swagger-ui" });
+    </script>
+  </body>
+</html>
+`;
+
+/**
+ * Handler for the API docs
+ *
+ * @description
+ * This handler renders the OpenAPI document served at /openapi.json with
+ * Swagger UI, whose files are bundled with the application.
+ *
+ * @returns {string} - The HTML page of the docs
+ */
+docs.get("/", (context) => context.html(DOCS_PAGE));
+
+/**
+ * Handler for the files of the API docs
+ *
+ * @description
+ * This handler serves the stylesheet and script of Swagger UI. They change
+ * only with the version of Swagger UI, so browsers may cache them for a day.
+ *
+ * @returns {string} - The content of the file
+ *
+ * @throws {NotFoundError} - If the file is not one of the files of the docs
+ */
+docs.get("/:file", async (context) => {
+  const file = context.req.param("file");
+
+  if (!ASSETS.hasOwnProperty(file)) {
+    throw new NotFoundError(`File ${file} not found`);
+  }
+
+  const content = await fs.readFile(
+    join(swaggerUi.getAbsoluteFSPath(), file),
+    "utf8",
+  );
+
+  context.header("Content-Type", ASSETS[file]);
+  context.header("Cache-Control", "public, max-age=86400");
+
+  return context.body(content);
+});
+
+export default docs;
@@ -1,4 +1,9 @@
 import auth from "./auth.handler";
 import tasks from "./tasks.handler";
+import tags from "./tags.handler";
+import projects from "./projects.handler";
+import admin from "./admin.handler";
+import webhooks from "./webhooks.handler";
+import docs from "./docs.handler";
 
-export { auth, tasks };
+export { auth, tasks, tags, projects, admin, webhooks, docs };
@@ -0,0 +1,698 @@
+import { Context, Hono } from "hono";
+import { z } from "zod";
+import { authentication } from "../middleware/auth.middleware";
+import { getUser, UserEnv } from "../contexts/user.context";
+import { getFrontendUrl, hashHmac, validate } from "../utils";
+import { projectInvitationMail } from "../mail";
+import { queueMail } from "../jobs";
+import { Project, ProjectMember, ProjectRole, Task } from "../models";
+import { AppDataSource } from "../data-source";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from "../errors";
+import { getProjectRole } from "../policies/task.policy";
+import { describeRoute } from "../openapi";
+import {
+  memberSchema,
+  projectDetailsSchema,
+  projectSchema,
+  statusSchema,
+  successSchema,
+} from "../schemas";
+
+const projects = new Hono<UserEnv>();
+
+projects.use(authentication());
+
+/**
+ * The time in milliseconds during which a project invitation can be accepted
+ */
+const INVITATION_EXPIRATION = 1000 * 60 * 60 * 24 * 7;
+
+/**
+ * The JSON payload of POST /projects and PUT /projects/:id
+ */
+const projectPayloadSchema = z.object({
+  /**
+   * The name of the project
+   * @type {string}
+   */
+  name: z.string().trim().min(1),
+  /**
+   * The description of the project
+   * @type {string | null}
+   */
+  description: z.string().nullable().optional(),
+});
+
+/**
+ * The roles a member can be invited as or changed to.
+ * A project has a single owner, who created it.
+ */
+const memberRole = z.enum([ProjectRole.Editor, ProjectRole.Viewer]);
+
+/**
+ * Signs a project invitation
+ *
+ * @param {number} projectId - The id of the project
+ * @param {string} email - The email of the invited user
+ * @param {ProjectRole} role - The role of the invited user
+ * @param {string | number} requestAt - The timestamp of the invitation
+ * @returns {string} - The HMAC signature of the invitation
+ */
+const signInvitation = (
+  projectId: number,
+  email: string,
+  role: ProjectRole,
+  requestAt: string | number,
+) => {
+  return hashHmac(`${projectId}#${email}#${role}#${requestAt}`);
+};
+
+/**
+ * Formats a project membership for responses
+ *
+ * @param {ProjectMember} member - The membership with its user
+ * @returns {Object} - The user details and role of the member
+ */
+const formatMember = (member: ProjectMember) => ({
+  userId: member.user.id,
+  firstName: member.user.firstName,
+  lastName: member.user.lastName,
+  email: member.user.email,
+  role: member.role,
+  joinedAt: member.createdAt,
+});
+
+/**
+ * Finds a project of the authenticated user by the id route parameter
+ *
+ * @param {Context} context - The Hono context object
+ * @param {ProjectRole[]} roles - The roles allowed to access the project,
+ * every role by default
+ * @returns {Promise<{ project: Project, role: ProjectRole }>} - The project
+ * and the role of the authenticated user in it
+ *
+ * @throws {NotFoundError} - If the user is not a member of the project
+ * @throws {ForbiddenError} - If the role of the user is not allowed
+ */
+const findProject = async (
+  context: Context<UserEnv>,
+  roles: ProjectRole[] = [
+    ProjectRole.Owner,
+    ProjectRole.Editor,
+    ProjectRole.Viewer,
+  ],
+) => {
+  const projectId = parseInt(context.req.param("id"));
+  const role = await getProjectRole(getUser(context), projectId);
+  const project = role
+    ? await AppDataSource.manager.findOneBy(Project, { id: projectId })
+    : null;
+
+  if (!project) {
+    throw new NotFoundError(`Project ${projectId} not found`);
+  }
+
+  if (roles.indexOf(role) === -1) {
+    throw new ForbiddenError(
+      `Only ${roles.join(" and ")} members can do this`,
+      "INSUFFICIENT_PROJECT_ROLE",
+    );
+  }
+
+  return { project, role };
+};
+
+/**
+ * Finds a member of a project by the userId route parameter
+ *
+ * @param {Context} context - The Hono context object
+ * @param {Project} project - The project
+ * @returns {Promise<ProjectMember>} - The membership with its user
+ *
+ * @throws {NotFoundError} - If the user is not a member of the project
+ */
+const findMember = async (context: Context<UserEnv>, project: Project) => {
+  const userId = parseInt(context.req.param("userId"));
+  const member = await AppDataSource.manager.findOne(ProjectMember, {
+    where: { project: { id: project.id }, user: { id: userId } },
+    relations: { user: true },
+  });
+
+  if (!member) {
+    throw new NotFoundError(`Member ${userId} not found`);
+  }
+
+  return member;
+};
+
+/**
+ * Get the projects of the authenticated user
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the projects with the role of the user in each
+ */
+projects.get(
+  "/",
+  describeRoute({
+    summary: "List the projects of the user",
+    responses: {
+      200: {
+        description: "The projects, by name",
+        schema: successSchema({ projects: z.array(projectSchema) }),
+      },
+    },
+  }),
+  async (context) => {
+    const memberships = await AppDataSource.manager.find(ProjectMember, {
+      where: { user: { id: getUser(context).id } },
+      relations: { project: true },
+      order: { project: { name: "ASC" } },
+    });
+
+    return context.json({
+      status: "success",
+      data: {
+        projects: memberships.map((member) => ({
+          ...member.project,
+          role: member.role,
+        })),
+      },
+    });
+  },
+);
+
+/**
+ * Create a new project
+ *
+ * @description
+ * This handler creates a new project owned by the authenticated user.
+ * It expects a JSON payload with the following properties:
+ * - name: A string representing the name of the project
+ * - description: An optional string representing the description of the project
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the creation
+ * - data: An object containing the new project
+ */
+projects.post(
+  "/",
+  describeRoute({
+    summary: "Create a project",
+    description: "The user becomes the owner of the project.",
+    responses: {
+      200: {
+        description: "The created project",
+        schema: successSchema({ project: projectSchema }),
+      },
+    },
+  }),
+  validate(projectPayloadSchema),
+  async (context) => {
+    const { name, description } = projectPayloadSchema.parse(
+      await context.req.json(),
+    );
+
+    const project = new Project();
+    project.name = name;
+    project.description = description || null;
+    project.createdAt = new Date();
+
+    const owner = new ProjectMember();
+    owner.project = project;
+    owner.user = getUser(context);
+    owner.role = ProjectRole.Owner;
+    owner.createdAt = project.createdAt;
+
+    // Create a new query runner
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      // Connect to the database
+      await queryRunner.connect();
+      // Start a new transaction
+      await queryRunner.startTransaction();
+
+      // Create the project and its owner membership together
+      await queryRunner.manager.save(project);
+      await queryRunner.manager.save(owner);
+
+      // Commit the transaction
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      // Rollback the transaction if an error occurs
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      // Release the query runner
+      await queryRunner.release();
+    }
+
+    return context.json({
+      status: "success",
+      data: { project: { ...project, role: owner.role } },
+    });
+  },
+);
+
+/**
+ * Get a project with its members
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the project, the role of the user and the members
+ *
+ * @throws {NotFoundError} - If the user is not a member of the project
+ */
+projects.get(
+  "/:id",
+  describeRoute({
+    summary: "Get a project with its members",
+    responses: {
+      200: {
+        description: "The project",
+        schema: successSchema({ project: projectDetailsSchema }),
+      },
+      404: { description: "The user is not a member of the project" },
+    },
+  }),
+  async (context) => {
+    const { project, role } = await findProject(context);
+    const members = await AppDataSource.manager.find(ProjectMember, {
+      where: { project: { id: project.id } },
+      relations: { user: true },
+      order: { createdAt: "ASC" },
+    });
+
+    return context.json({
+      status: "success",
+      data: {
+        project: { ...project, role, members: members.map(formatMember) },
+      },
+    });
+  },
+);
+
+/**
+ * Update a project
+ *
+ * @description
+ * This handler renames the project or changes its description.
+ * It expects the same JSON payload as POST /projects.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the update
+ * - data: An object containing the updated project
+ *
+ * @throws {NotFoundError} - If the user is not a member of the project
+ * @throws {ForbiddenError} - If the user is not the owner of the project
+ */
+projects.put(
+  "/:id",
+  describeRoute({
+    summary: "Update a project",
+    responses: {
+      200: {
+        description: "The updated project",
+        schema: successSchema({ project: projectSchema }),
+      },
+      403: { description: "The user is not the owner of the project" },
+      404: { description: "The user is not a member of the project" },
+    },
+  }),
+  validate(projectPayloadSchema),
+  async (context) => {
+    const { project, role } = await findProject(context, [ProjectRole.Owner]);
+    const { name, description } = projectPayloadSchema.parse(
+      await context.req.json(),
+    );
+
+    project.name = name;
+
+    if (description !== undefined) {
+      project.description = description;
+    }
+
+    project.updatedAt = new Date();
+
+    await AppDataSource.manager.save(project);
+
+    return context.json({
+      status: "success",
+      data: { project: { ...project, role } },
+    });
+  },
+);
+
+/**
+ * Delete a project
+ *
+ * @description
+ * This handler deletes the project with its memberships and all its tasks.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the deletion
+ * - data: An object containing the deleted project
+ *
+ * @throws {NotFoundError} - If the user is not a member of the project
+ * @throws {ForbiddenError} - If the user is not the owner of the project
+ */
+projects.delete(
+  "/:id",
+  describeRoute({
+    summary: "Delete a project with its tasks",
+    responses: {
+      200: {
+        description: "The deleted project",
+        schema: successSchema({ project: projectSchema.omit({ role: true }) }),
+      },
+      403: { description: "The user is not the owner of the project" },
+      404: { description: "The user is not a member of the project" },
+    },
+  }),
+  async (context) => {
+    const { project } = await findProject(context, [ProjectRole.Owner]);
+
+    await AppDataSource.manager.remove(project);
+
+    return context.json({
+      status: "success",
+      data: { project },
+    });
+  },
+);
+
+/**
+ * Invite a user to a project
+ *
+ * @description
+ * This handler sends a signed invitation link to the given email.
+ * The link opens the /invitations/accept page of the frontend, and expires
+ * after seven days. The page accepts it with POST /projects/invitations/accept
+ * as the user with that email.
+ * It expects a JSON payload with the following properties:
+ * - email: A string representing the email of the invited user
+ * - role: The role of the invited user, "editor" or "viewer"
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the invitation
+ *
+ * @throws {NotFoundError} - If the user is not a member of the project
+ * @throws {ForbiddenError} - If the user is not the owner of the project
+ * @throws {ConflictError} - If the invited user is already a member
+ */
+projects.post(
+  "/:id/invitations",
+  describeRoute({
+    summary: "Invite a user to a project",
+    responses: {
+      200: { description: "The invitation is sent", schema: statusSchema },
+      403: { description: "The user is not the owner of the project" },
+      404: { description: "The user is not a member of the project" },
+      409: { description: "The invited user is already a member" },
+    },
+  }),
+  validate(
+    z.object({
+      email: z.string().email(),
+      role: memberRole,
+    }),
+  ),
+  async (context) => {
+    const { project } = await findProject(context, [ProjectRole.Owner]);
+    const { email, role } = await context.req.json();
+
+    const isMember = await AppDataSource.manager.existsBy(ProjectMember, {
+      project: { id: project.id },
+      user: { email },
+    });
+
+    if (isMember) {
+      throw new ConflictError(`${email} is already a member`, "ALREADY_MEMBER");
+    }
+
+    // Generate the invitation URL with request date and signature
+    const requestAt = new Date().getTime();
+    const query = new URLSearchParams({
+      project_id: String(project.id),
+      email,
+      role,
+      request_at: String(requestAt),
+      signature: signInvitation(project.id, email, role, requestAt),
+    });
+    const invitationUrl = getFrontendUrl(`/invitations/accept?${query}`);
+
+    // Queue the invitation email
+    await queueMail(
+      email,
+      projectInvitationMail({
+        inviterName: getUser(context).firstName,
+        projectName: project.name,
+        role,
+        url: invitationUrl,
+      }),
+    );
+
+    return context.json({ status: "success" });
+  },
+);
+
+/**
+ * Accept a project invitation
+ *
+ * @description
+ * This handler adds the authenticated user to a project with the values of
+ * an invitation link. The invitation must have been sent to the email of the
+ * authenticated user.
+ * It expects a JSON payload with the following properties:
+ * - projectId: The project_id value of the link
+ * - email: The email value of the link
+ * - role: The role value of the link
+ * - requestAt: The request_at value of the link
+ * - signature: The signature value of the link
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the project and the role of the user
+ *
+ * @throws {BadRequestError} - If the signature is invalid or the link has expired
+ * @throws {ForbiddenError} - If the invitation was sent to another email
+ * @throws {NotFoundError} - If the project no longer exists
+ * @throws {ConflictError} - If the user is already a member
+ */
+projects.post(
+  "/invitations/accept",
+  describeRoute({
+    summary: "Accept an invitation to a project",
+    responses: {
+      200: {
+        description: "The joined project",
+        schema: successSchema({ project: projectSchema }),
+      },
+      400: { description: "The signature is invalid or the link expired" },
+      403: { description: "The invitation was sent to another email" },
+      404: { description: "The project no longer exists" },
+      409: { description: "The user is already a member" },
+    },
+  }),
+  validate(
+    z.object({
+      projectId: z.coerce.number().int(),
+      email: z.string().email(),
+      role: memberRole,
+      requestAt: z.string().min(1),
+      signature: z.string().min(1),
+    }),
+  ),
+  async (context) => {
+    const { projectId, email, role, requestAt, signature } =
+      await context.req.json();
+    const user = getUser(context);
+
+    // Check if the signature is valid and the link has not expired
+    if (
+      signInvitation(Number(projectId), email, role, requestAt) !== signature
+    ) {
+      throw new BadRequestError("Invalid signature", "INVALID_SIGNATURE");
+    }
+
+    if (new Date().getTime() - parseInt(requestAt) > INVITATION_EXPIRATION) {
+      throw new BadRequestError("Request expired", "REQUEST_EXPIRED");
+    }
+
+    if (email !== user.email) {
+      throw new ForbiddenError(
+        "The invitation was sent to another email",
+        "INVITATION_EMAIL_MISMATCH",
+      );
+    }
+
+    const project = await AppDataSource.manager.findOneBy(Project, {
+      id: Number(projectId),
+    });
+
+    if (!project) {
+      throw new NotFoundError(`Project ${projectId} not found`);
+    }
+
+    if (await getProjectRole(user, project.id)) {
+      throw new ConflictError(
+        "You are already a member of the project",
+        "ALREADY_MEMBER",
+      );
+    }
+
+    const member = new ProjectMember();
+    member.project = project;
+    member.user = user;
+    member.role = role;
+    member.createdAt = new Date();
+
+    await AppDataSource.manager.save(member);
+
+    return context.json({
+      status: "success",
+      data: { project: { ...project, role } },
+    });
+  },
+);
+
+/**
+ * Change the role of a member
+ *
+ * @description
+ * It expects a JSON payload with the following property:
+ * - role: The new role of the member, "editor" or "viewer"
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the update
+ * - data: An object containing the updated member
+ *
+ * @throws {NotFoundError} - If the project or member is not found
+ * @throws {ForbiddenError} - If the user is not the owner of the project
+ * @throws {BadRequestError} - If the member is the owner
+ */
+projects.put(
+  "/:id/members/:userId",
+  describeRoute({
+    summary: "Change the role of a member",
+    responses: {
+      200: {
+        description: "The updated member",
+        schema: successSchema({ member: memberSchema }),
+      },
+      400: {
+        description:
+          "The request failed validation, or the member is the owner",
+      },
+      403: { description: "The user is not the owner of the project" },
+      404: { description: "The project or member is not found" },
+    },
+  }),
+  validate(z.object({ role: memberRole })),
+  async (context) => {
+    const { project } = await findProject(context, [ProjectRole.Owner]);
+    const member = await findMember(context, project);
+
+    if (member.role === ProjectRole.Owner) {
+      throw new BadRequestError(
+        "The role of the owner cannot be changed",
+        "OWNER_ROLE",
+      );
+    }
+
+    const { role } = await context.req.json();
+    member.role = role;
+
+    await AppDataSource.manager.save(member);
+
+    return context.json({
+      status: "success",
+      data: { member: formatMember(member) },
+    });
+  },
+);
+
+/**
+ * Remove a member from a project
+ *
+ * @description
+ * The owner can remove any other member, and every other member can remove
+ * themselves to leave the project. The tasks of the project assigned to the
+ * removed member are unassigned.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the removal
+ *
+ * @throws {NotFoundError} - If the project or member is not found
+ * @throws {ForbiddenError} - If the user is neither the owner nor the member
+ * @throws {BadRequestError} - If the member is the owner
+ */
+projects.delete(
+  "/:id/members/:userId",
+  describeRoute({
+    summary: "Remove a member, or leave a project",
+    responses: {
+      200: { description: "The member is removed", schema: statusSchema },
+      400: { description: "The member is the owner" },
+      403: { description: "The user is neither the owner nor the member" },
+      404: { description: "The project or member is not found" },
+    },
+  }),
+  async (context) => {
+    const { project, role } = await findProject(context);
+    const member = await findMember(context, project);
+
+    if (role !== ProjectRole.Owner && member.user.id !== getUser(context).id) {
+      throw new ForbiddenError(
+        "Only the owner can remove other members",
+        "INSUFFICIENT_PROJECT_ROLE",
+      );
+    }
+
+    if (member.role === ProjectRole.Owner) {
+      throw new BadRequestError(
+        "The owner cannot leave the project",
+        "OWNER_ROLE",
+      );
+    }
+
+    // Create a new query runner
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      // Connect to the database
+      await queryRunner.connect();
+      // Start a new transaction
+      await queryRunner.startTransaction();
+
+      // Unassign the tasks of the project assigned to the member
+      await queryRunner.manager.update(
+        Task,
+        { project: { id: project.id }, assignee: { id: member.user.id } },
+        { assignee: null },
+      );
+
+      await queryRunner.manager.remove(member);
+
+      // Commit the transaction
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      // Rollback the transaction if an error occurs
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      // Release the query runner
+      await queryRunner.release();
+    }
+
+    return context.json({ status: "success" });
+  },
+);
+
+export default projects;
@@ -0,0 +1,248 @@
+import { Context, Hono } from "hono";
+import { z } from "zod";
+import { authentication } from "../middleware/auth.middleware";
+import { getUser, UserEnv } from "../contexts/user.context";
+import { validate } from "../utils";
+import { Tag } from "../models";
+import { AppDataSource } from "../data-source";
+import { ConflictError, NotFoundError } from "../errors";
+import { describeRoute } from "../openapi";
+import { successSchema, tagSchema } from "../schemas";
+
+const tags = new Hono<UserEnv>();
+
+tags.use(authentication());
+
+/**
+ * The JSON payload of POST /tags and PUT /tags/:id
+ */
+const tagPayloadSchema = z.object({
+  /**
+   * The name of the tag, unique per user
+   * @type {string}
+   */
+  name: z.string().trim().min(1).max(50),
+  /**
+   * The color of the tag as a hexadecimal color like "#ff0000"
+   * @type {string | null}
+   */
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "Invalid color")
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Finds a tag of the authenticated user by the id route parameter
+ *
+ * @param {Context} context - The Hono context object
+ * @returns {Promise<Tag>} - The tag with the given id
+ *
+ * @throws {NotFoundError} - If the tag is not found
+ */
+const findUserTag = async (context: Context<UserEnv>) => {
+  const tagId = parseInt(context.req.param("id"));
+  const tag = await AppDataSource.manager.findOneBy(Tag, {
+    id: tagId,
+    user: { id: getUser(context).id },
+  });
+
+  if (!tag) {
+    throw new NotFoundError(`Tag ${tagId} not found`);
+  }
+
+  return tag;
+};
+
+/**
+ * Checks that the authenticated user has no other tag with the given name
+ *
+ * @param {Context} context - The Hono context object
+ * @param {string} name - The name of the tag
+ * @param {number} tagId - The id of the tag being renamed, if any
+ *
+ * @throws {ConflictError} - If another tag already has the name
+ */
+const assertUniqueName = async (
+  context: Context<UserEnv>,
+  name: string,
+  tagId?: number,
+) => {
+  const existingTag = await AppDataSource.manager.findOneBy(Tag, {
+    name,
+    user: { id: getUser(context).id },
+  });
+
+  if (existingTag && existingTag.id !== tagId) {
+    throw new ConflictError(`Tag ${name} already exists`, "TAG_EXISTS");
+  }
+};
+
+/**
+ * Get all tags of the authenticated user
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the tags sorted by name
+ */
+tags.get(
+  "/",
+  describeRoute({
+    summary: "List the tags",
+    responses: {
+      200: {
+        description: "The tags, by name",
+        schema: successSchema({ tags: z.array(tagSchema) }),
+      },
+    },
+  }),
+  async (context) => {
+    const userTags = await AppDataSource.manager.find(Tag, {
+      where: { user: { id: getUser(context).id } },
+      order: { name: "ASC" },
+    });
+
+    return context.json({
+      status: "success",
+      data: { tags: userTags },
+    });
+  },
+);
+
+/**
+ * Create a new tag
+ *
+ * @description
+ * This handler creates a new tag for the authenticated user.
+ * It expects a JSON payload with the following properties:
+ * - name: A string representing the name of the tag
+ * - color: An optional hexadecimal color of the tag
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the creation
+ * - data: An object containing the new tag
+ *
+ * @throws {ConflictError} - If the user already has a tag with the name
+ */
+tags.post(
+  "/",
+  describeRoute({
+    summary: "Create a tag",
+    responses: {
+      200: {
+        description: "The created tag",
+        schema: successSchema({ tag: tagSchema }),
+      },
+      409: { description: "The user already has a tag with the name" },
+    },
+  }),
+  validate(tagPayloadSchema),
+  async (context) => {
+    const { name, color } = tagPayloadSchema.parse(await context.req.json());
+
+    await assertUniqueName(context, name);
+
+    const tag = new Tag();
+    tag.name = name;
+    tag.color = color || null;
+    tag.user = getUser(context);
+    tag.createdAt = new Date();
+
+    await AppDataSource.manager.save(tag);
+
+    return context.json({
+      status: "success",
+      // Leave the owner out of the response
+      data: { tag: { ...tag, user: undefined } },
+    });
+  },
+);
+
+/**
+ * Update an existing tag
+ *
+ * @description
+ * This handler renames or recolors the tag with the given id.
+ * It expects the same JSON payload as POST /tags.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the update
+ * - data: An object containing the updated tag
+ *
+ * @throws {NotFoundError} - If the tag is not found
+ * @throws {ConflictError} - If the user already has another tag with the name
+ */
+tags.put(
+  "/:id",
+  describeRoute({
+    summary: "Update a tag",
+    responses: {
+      200: {
+        description: "The updated tag",
+        schema: successSchema({ tag: tagSchema }),
+      },
+      404: { description: "The tag is not found" },
+      409: { description: "The user already has another tag with the name" },
+    },
+  }),
+  validate(tagPayloadSchema),
+  async (context) => {
+    const tag = await findUserTag(context);
+    const { name, color } = tagPayloadSchema.parse(await context.req.json());
+
+    await assertUniqueName(context, name, tag.id);
+
+    tag.name = name;
+
+    if (color !== undefined) {
+      tag.color = color;
+    }
+
+    await AppDataSource.manager.save(tag);
+
+    return context.json({
+      status: "success",
+      data: { tag },
+    });
+  },
+);
+
+/**
+ * Delete a tag
+ *
+ * @description
+ * This handler deletes the tag with the given id and removes it from
+ * every task it was labelling. The tasks themselves are kept.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the deletion
+ * - data: An object containing the deleted tag
+ *
+ * @throws {NotFoundError} - If the tag is not found
+ */
+tags.delete(
+  "/:id",
+  describeRoute({
+    summary: "Delete a tag",
+    responses: {
+      200: {
+        description: "The deleted tag",
+        schema: successSchema({ tag: tagSchema }),
+      },
+      404: { description: "The tag is not found" },
+    },
+  }),
+  async (context) => {
+    const tag = await findUserTag(context);
+
+    await AppDataSource.manager.remove(tag);
+
+    return context.json({
+      status: "success",
+      data: { tag },
+    });
+  },
+);
+
+export default tags;
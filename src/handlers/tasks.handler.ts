@@ -1,196 +1,2262 @@
-import { Hono } from "hono";
-import { authentication } from "../middleware/auth.middleware";
-import { getUser } from "../contexts/user.context";
+import { Context, Hono } from "hono";
+import { stream, streamSSE } from "hono/streaming";
+import { authentication, findSessionUser } from "../middleware/auth.middleware";
+import { getSessionId, getUser, UserEnv } from "../contexts/user.context";
 import { validate } from "../utils";
+import { decodeCursor, encodeCursor, escapeLike } from "../utils/pagination";
 import { z } from "zod";
-import { Task, User } from "../models";
+import {
+  Project,
+  ProjectMember,
+  Tag,
+  Task,
+  TaskPriority,
+  TaskStatus,
+  User,
+} from "../models";
 import { AppDataSource } from "../data-source";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  HttpError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "../errors";
+import {
+  canEditProjectTasks,
+  canEditTask,
+  getProjectRole,
+  whereTaskVisible,
+} from "../policies/task.policy";
+import { EntityManager, In, Not } from "typeorm";
+import { describeRoute } from "../openapi";
+import { activityPageQuery, findActivities } from "../audit";
+import {
+  getTaskEventsSince,
+  subscribeToTaskEvents,
+  TaskEvent,
+} from "../events";
+import { getTrashRetentionDays } from "../jobs";
+import {
+  createImportedTasks,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_TASKS,
+  saveImportedTasks,
+  TASK_FILE_FORMATS,
+  taskFileFormats,
+  toExportedTask,
+  validateImportedTasks,
+} from "../transfer";
+import {
+  activitySchema,
+  bulkTaskResultSchema,
+  exportedTaskSchema,
+  pageMetaSchema,
+  successSchema,
+  taskListMetaSchema,
+  taskSchema,
+} from "../schemas";
 
-const tasks = new Hono();
+const tasks = new Hono<UserEnv>();
 
 tasks.use(authentication());
 
+/**
+ * The rank of each priority, used to sort tasks by priority
+ */
+const PRIORITY_RANKS: Record<TaskPriority, number> = {
+  [TaskPriority.Low]: 1,
+  [TaskPriority.Medium]: 2,
+  [TaskPriority.High]: 3,
+  [TaskPriority.Urgent]: 4,
+};
+
+/**
+ * The due date tasks without a due date are sorted as, after every other task
+ */
+const NO_DUE_DATE = new Date("9999-12-31T00:00:00.000Z");
+
+/**
+ * The fields GET /tasks can be sorted by
+ *
+ * Each field has the SQL expression it is sorted by, and a function reading
+ * the same value from a task to build the cursor of the next page.
+ */
+const SORT_FIELDS = {
+  created_at: {
+    expression: "task.createdAt",
+    value: (task: Task) => task.createdAt.toISOString(),
+    isDate: true,
+  },
+  updated_at: {
+    expression: "COALESCE(task.updatedAt, task.createdAt)",
+    value: (task: Task) => (task.updatedAt || task.createdAt).toISOString(),
+    isDate: true,
+  },
+  title: {
+    expression: "task.title",
+    value: (task: Task) => task.title,
+    isDate: false,
+  },
+  due_at: {
+    expression: "COALESCE(task.dueAt, :noDueDate)",
+    value: (task: Task) => (task.dueAt || NO_DUE_DATE).toISOString(),
+    isDate: true,
+  },
+  priority: {
+    expression: `CASE task.priority WHEN '${TaskPriority.Low}' THEN 1 WHEN '${TaskPriority.Medium}' THEN 2 WHEN '${TaskPriority.High}' THEN 3 WHEN '${TaskPriority.Urgent}' THEN 4 END`,
+    value: (task: Task) => PRIORITY_RANKS[task.priority],
+    isDate: false,
+  },
+};
+
+/**
+ * The accepted values of the sort parameter, a "-" prefix sorts descending
+ */
+const SORT_OPTIONS = [
+  "created_at",
+  "-created_at",
+  "updated_at",
+  "-updated_at",
+  "title",
+  "-title",
+  "due_at",
+  "-due_at",
+  "priority",
+  "-priority",
+] as const;
+
+/**
+ * The query string of GET /tasks
+ */
+const listTasksQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(10),
+  cursor: z
+    .string()
+    .refine((cursor) => decodeCursor(cursor) !== null, "Invalid cursor")
+    .optional(),
+  completed: z
+    .enum(["true", "false"])
+    .transform((completed) => completed === "true")
+    .optional(),
+  status: z.nativeEnum(TaskStatus).optional(),
+  priority: z.nativeEnum(TaskPriority).optional(),
+  tags: z
+    .string()
+    .regex(/^\d+(,\d+)*$/, "Expected comma separated tag ids")
+    .transform((tags) => tags.split(",").map(Number))
+    .optional(),
+  tag_mode: z.enum(["any", "all"]).default("any"),
+  project_id: z.coerce.number().int().optional(),
+  assignee_id: z.union([z.literal("me"), z.coerce.number().int()]).optional(),
+  search: z.string().trim().min(1).optional(),
+  created_from: z.coerce.date().optional(),
+  created_to: z.coerce.date().optional(),
+  updated_from: z.coerce.date().optional(),
+  updated_to: z.coerce.date().optional(),
+  sort: z.enum(SORT_OPTIONS).default("-created_at"),
+});
+
 /**
  * Get all tasks for the authenticated user
  *
- * @param {Object} context - The Hono context object
- * @returns {Promise<Object>} - The JSON response object
+ * @description
+ * This handler lists the top level tasks visible to the authenticated user,
+ * which are its personal tasks and the tasks of the projects it is a member of.
+ * Subtasks are listed by GET /tasks/:id/subtasks.
+ * It accepts the following query parameters:
+ * - completed: "true" or "false" to filter by completion status
+ * - status: A status to filter by
+ * - priority: A priority to filter by
+ * - tags: Comma separated tag ids to filter by
+ * - tag_mode: "any" to list tasks with at least one of the tags, the default,
+ *   or "all" to list tasks with every one of the tags
+ * - project_id: A project id to filter by
+ * - assignee_id: A user id, or "me", to filter by assignee
+ * - created_from, created_to: A date range on the creation date
+ * - updated_from, updated_to: A date range on the last update date
+ * - search: A text searched in the title and description
+ * - sort: One of created_at, updated_at, title, due_at or priority, prefixed
+ *   with "-" to sort descending, "-created_at" by default. Tasks without a due
+ *   date come last when sorting by due_at
+ * - per_page: The number of tasks per page, 10 by default and 100 at most
+ * - page: The page number for offset pagination, 1 by default
+ * - cursor: The nextCursor of the previous page for cursor pagination,
+ *   used instead of page when given
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the tasks
+ * - meta: An object containing the total number of tasks matching the filters,
+ *   the page, perPage and pageCount, and the nextCursor or null on the last page
+ */
+tasks.get(
+  "/",
+  describeRoute({
+    summary: "List the tasks",
+    responses: {
+      200: {
+        description: "A page of the tasks",
+        schema: successSchema({ tasks: z.array(taskSchema) }).extend({
+          meta: taskListMetaSchema,
+        }),
+      },
+    },
+  }),
+  validate(listTasksQuery, "query"),
+  async (context) => {
+    const filters = listTasksQuery.parse(context.req.query());
+
+    // Get the authenticated user
+    const user = getUser(context);
+
+    // Filter the top level tasks visible to the authenticated user
+    const query = AppDataSource.manager
+      .createQueryBuilder(Task, "task")
+      .where("task.parent IS NULL");
+
+    whereTaskVisible(query, "task", user);
+
+    if (filters.project_id) {
+      query.andWhere("task.project = :projectId", {
+        projectId: filters.project_id,
+      });
+    }
+
+    if (filters.assignee_id) {
+      query.andWhere("task.assignee = :assigneeId", {
+        assigneeId:
+          filters.assignee_id === "me" ? user.id : filters.assignee_id,
+      });
+    }
+
+    if (filters.completed !== undefined) {
+      query.andWhere("task.completed = :completed", {
+        completed: filters.completed,
+      });
+    }
+
+    if (filters.status) {
+      query.andWhere("task.status = :status", { status: filters.status });
+    }
+
+    if (filters.priority) {
+      query.andWhere("task.priority = :priority", {
+        priority: filters.priority,
+      });
+    }
+
+    if (filters.tags) {
+      const tagIds = filters.tags.filter(
+        (tagId, index) => filters.tags.indexOf(tagId) === index,
+      );
+
+      // Match the tasks labelled with any, or with all, of the tags
+      query.andWhere(
+        `task.id IN (SELECT task_tags.task_id FROM task_tags WHERE task_tags.tag_id IN (:...tagIds)${
+          filters.tag_mode === "all"
+            ? " GROUP BY task_tags.task_id HAVING COUNT(DISTINCT task_tags.tag_id) = :tagCount"
+            : ""
+        })`,
+        { tagIds, tagCount: tagIds.length },
+      );
+    }
+
+    if (filters.search) {
+      query.andWhere(
+        "(LOWER(task.title) LIKE :search ESCAPE '!' OR LOWER(task.description) LIKE :search ESCAPE '!')",
+        { search: `%${escapeLike(filters.search.toLowerCase())}%` },
+      );
+    }
+
+    if (filters.created_from) {
+      query.andWhere("task.createdAt >= :createdFrom", {
+        createdFrom: filters.created_from,
+      });
+    }
+
+    if (filters.created_to) {
+      query.andWhere("task.createdAt <= :createdTo", {
+        createdTo: filters.created_to,
+      });
+    }
+
+    if (filters.updated_from) {
+      query.andWhere("task.updatedAt >= :updatedFrom", {
+        updatedFrom: filters.updated_from,
+      });
+    }
+
+    if (filters.updated_to) {
+      query.andWhere("task.updatedAt <= :updatedTo", {
+        updatedTo: filters.updated_to,
+      });
+    }
+
+    // Count the tasks matching the filters, regardless of the page
+    const total = await query.getCount();
+
+    // Sort by the requested field, then by id so that the order is stable
+    const direction = filters.sort.startsWith("-") ? "DESC" : "ASC";
+    const sortField = SORT_FIELDS[filters.sort.replace(/^-/, "")];
+
+    query
+      .orderBy(sortField.expression, direction)
+      .addOrderBy("task.id", direction)
+      .setParameter("noDueDate", NO_DUE_DATE);
+
+    if (filters.cursor) {
+      // Continue after the last task of the previous page
+      const cursor = decodeCursor(filters.cursor);
+      const operator = direction === "DESC" ? "<" : ">";
+
+      query.andWhere(
+        `(${sortField.expression} ${operator} :cursorValue OR (${sortField.expression} = :cursorValue AND task.id ${operator} :cursorId))`,
+        {
+          cursorValue: sortField.isDate ? new Date(cursor.value) : cursor.value,
+          cursorId: cursor.id,
+        },
+      );
+    } else {
+      // Skip the tasks of the previous pages
+      query.skip((filters.page - 1) * filters.per_page);
+    }
+
+    // Retrieve one more task than requested to know if there is a next page
+    const tasks = await query.take(filters.per_page + 1).getMany();
+    const hasNextPage = tasks.length > filters.per_page;
+    const pageTasks = tasks.slice(0, filters.per_page);
+    const lastTask = pageTasks[pageTasks.length - 1];
+
+    await loadTaskTags(pageTasks);
+    await loadTaskProgress(pageTasks);
+
+    // Return the tasks as a JSON response
+    return context.json({
+      status: "success",
+      data: {
+        tasks: pageTasks,
+      },
+      meta: {
+        total,
+        page: filters.cursor ? null : filters.page,
+        perPage: filters.per_page,
+        pageCount: Math.ceil(total / filters.per_page),
+        nextCursor: hasNextPage
+          ? encodeCursor({ value: sortField.value(lastTask), id: lastTask.id })
+          : null,
+      },
+    });
+  },
+);
+
+/**
+ * The fields of a task that can be set by the client
+ */
+const taskFields = {
+  /**
+   * The title of the task
+   * @type {string}
+   */
+  title: z.string().min(1),
+  /**
+   * The description of the task
+   * @type {string}
+   */
+  description: z.string().min(1),
+  /**
+   * The workflow status of the task
+   * @type {TaskStatus}
+   */
+  status: z.nativeEnum(TaskStatus),
+  /**
+   * The priority of the task
+   * @type {TaskPriority}
+   */
+  priority: z.nativeEnum(TaskPriority),
+  /**
+   * The date and time when the task is due, or null for no due date
+   * @type {Date | null}
+   */
+  dueAt: z.coerce.date().nullable(),
+  /**
+   * Whether the task is completed, a shortcut for the done status
+   * @type {boolean}
+   */
+  completed: z.boolean(),
+  /**
+   * The ids of the tags of the task, replacing its current tags
+   * @type {number[]}
+   */
+  tagIds: z.array(z.number().int()).max(50),
+  /**
+   * The id of the user the task is assigned to, or null to unassign it
+   * @type {number | null}
+   */
+  assigneeId: z.number().int().nullable(),
+};
+
+/**
+ * The JSON payload of POST /tasks
+ */
+const createTaskSchema = z.object({
+  title: taskFields.title,
+  description: taskFields.description,
+  status: taskFields.status.optional(),
+  priority: taskFields.priority.optional(),
+  dueAt: taskFields.dueAt.optional(),
+  tagIds: taskFields.tagIds.optional(),
+  assigneeId: taskFields.assigneeId.optional(),
+  /**
+   * The id of the project of the task, omitted for a personal task
+   * @type {number}
+   */
+  projectId: z.number().int().optional(),
+});
+
+/**
+ * The JSON payload of PUT /tasks/:id
+ */
+const updateTaskSchema = z.object({
+  title: taskFields.title,
+  description: taskFields.description,
+  status: taskFields.status.optional(),
+  priority: taskFields.priority.optional(),
+  dueAt: taskFields.dueAt.optional(),
+  completed: taskFields.completed.optional(),
+  tagIds: taskFields.tagIds.optional(),
+  assigneeId: taskFields.assigneeId.optional(),
+});
+
+/**
+ * The JSON payload of PATCH /tasks/:id
+ */
+const patchTaskSchema = updateTaskSchema
+  .partial()
+  .refine(
+    (changes) => Object.keys(changes).length > 0,
+    "At least one field must be given",
+  );
+
+/**
+ * Applies the given changes to a task
+ *
+ * @description
+ * Fields that are not given are left unchanged. The status can only move
+ * along the allowed transitions, and completed is a shortcut that moves
+ * the task to done, or reopens a done task when false.
+ *
+ * @param {Task} task - The task to update
+ * @param {Object} changes - The validated changes of the task
+ *
+ * @throws {ConflictError} - If the task cannot move to the requested status
+ */
+const applyTaskChanges = (
+  task: Task,
+  changes: z.infer<typeof patchTaskSchema>,
+) => {
+  if (changes.title !== undefined) {
+    task.title = changes.title;
+  }
+
+  if (changes.description !== undefined) {
+    task.description = changes.description;
+  }
+
+  if (changes.priority !== undefined) {
+    task.priority = changes.priority;
+  }
+
+  if (changes.dueAt !== undefined) {
+    task.dueAt = changes.dueAt;
+  }
+
+  let status = changes.status;
+
+  if (status === undefined && changes.completed !== undefined) {
+    status = changes.completed
+      ? TaskStatus.Done
+      : task.status === TaskStatus.Done
+        ? TaskStatus.Todo
+        : task.status;
+  }
+
+  if (status !== undefined) {
+    if (!task.canTransitionTo(status)) {
+      throw new ConflictError(
+        `Task cannot move from ${task.status} to ${status}`,
+        "INVALID_STATUS_TRANSITION",
+      );
+    }
+
+    task.setStatus(status);
+  }
+};
+
+/**
+ * Finds tags of a user by their ids
+ *
+ * @param {EntityManager} manager - The entity manager to read with
+ * @param {User} user - The owner of the tags
+ * @param {number[]} tagIds - The ids of the tags
+ * @returns {Promise<Tag[]>} - The tags with the given ids
+ *
+ * @throws {ValidationError} - If a tag is not found
+ */
+const findUserTags = async (
+  manager: EntityManager,
+  user: User,
+  tagIds: number[],
+) => {
+  const userTags = await manager.findBy(Tag, {
+    id: In(tagIds),
+    user: { id: user.id },
+  });
+
+  const missingTagIds = tagIds.filter(
+    (tagId) => !userTags.some((tag) => tag.id === tagId),
+  );
+
+  if (missingTagIds.length > 0) {
+    throw new ValidationError("Validation failed", [
+      {
+        field: "tagIds",
+        message: `Tags not found: ${missingTagIds.join(", ")}`,
+      },
+    ]);
+  }
+
+  return userTags;
+};
+
+/**
+ * Finds the user a task can be assigned to
+ *
+ * @description
+ * The tasks of a project can be assigned to any member of the project,
+ * and personal tasks only to the user who creates them.
+ *
+ * @param {EntityManager} manager - The entity manager to read with
+ * @param {User} user - The user who assigns the task
+ * @param {number | null} projectId - The id of the project of the task
+ * @param {number} assigneeId - The id of the user to assign the task to
+ * @returns {Promise<User>} - The user to assign the task to
+ *
+ * @throws {ValidationError} - If the task cannot be assigned to the user
+ */
+const findAssignee = async (
+  manager: EntityManager,
+  user: User,
+  projectId: number | null,
+  assigneeId: number,
+) => {
+  if (!projectId) {
+    if (assigneeId !== user.id) {
+      throw new ValidationError("Validation failed", [
+        {
+          field: "assigneeId",
+          message: "Personal tasks can only be assigned to yourself",
+        },
+      ]);
+    }
+
+    return user;
+  }
+
+  const member = await manager.findOne(ProjectMember, {
+    where: { project: { id: projectId }, user: { id: assigneeId } },
+    relations: { user: true },
+  });
+
+  if (!member) {
+    throw new ValidationError("Validation failed", [
+      {
+        field: "assigneeId",
+        message: "The assignee must be a member of the project",
+      },
+    ]);
+  }
+
+  return member.user;
+};
+
+/**
+ * Applies the changes of the tags and assignee of a task
+ *
+ * @param {EntityManager} manager - The entity manager to read with
+ * @param {User} user - The user who changes the task
+ * @param {Task} task - The task to update
+ * @param {Object} changes - The validated changes of the task
+ *
+ * @throws {ValidationError} - If a tag or the assignee is not found
+ */
+const applyTaskRelations = async (
+  manager: EntityManager,
+  user: User,
+  task: Task,
+  changes: z.infer<typeof patchTaskSchema>,
+) => {
+  if (changes.tagIds) {
+    task.tags = await findUserTags(manager, user, changes.tagIds);
+  }
+
+  if (changes.assigneeId !== undefined) {
+    task.assignee =
+      changes.assigneeId === null
+        ? null
+        : await findAssignee(manager, user, task.projectId, changes.assigneeId);
+  }
+};
+
+/**
+ * Loads the tags of the given tasks with a single query
+ *
+ * @param {Task[]} taskList - The tasks to load the tags of
+ */
+const loadTaskTags = async (taskList: Task[]) => {
+  if (taskList.length === 0) {
+    return;
+  }
+
+  const taggedTasks = await AppDataSource.manager.find(Task, {
+    select: { id: true },
+    where: { id: In(taskList.map((task) => task.id)) },
+    relations: { tags: true },
+  });
+
+  taskList.forEach((task) => {
+    task.tags = taggedTasks.find((tagged) => tagged.id === task.id).tags;
+  });
+};
+
+/**
+ * Loads the subtask progress of the given tasks with a single query
+ *
+ * @param {Task[]} taskList - The tasks to load the progress of
+ * @param {EntityManager} manager - The entity manager to read with
+ */
+const loadTaskProgress = async (
+  taskList: Task[],
+  manager: EntityManager = AppDataSource.manager,
+) => {
+  if (taskList.length === 0) {
+    return;
+  }
+
+  const counts = await manager
+    .createQueryBuilder(Task, "subtask")
+    .select("subtask.parent", "parentId")
+    .addSelect("COUNT(*)", "total")
+    .addSelect(
+      "SUM(CASE WHEN subtask.status = :done THEN 1 ELSE 0 END)",
+      "done",
+    )
+    .where("subtask.parent IN (:...taskIds)", {
+      taskIds: taskList.map((task) => task.id),
+      done: TaskStatus.Done,
+    })
+    .groupBy("subtask.parent")
+    .getRawMany();
+
+  taskList.forEach((task) => {
+    const count = counts.find((row) => Number(row.parentId) === task.id);
+
+    task.progress = {
+      done: count ? Number(count.done) : 0,
+      total: count ? Number(count.total) : 0,
+    };
+  });
+};
+
+/**
+ * Saves the changes of a task with the entity manager of a transaction
+ *
+ * @description
+ * When the task becomes done, its open subtasks are completed with it.
+ * The task cannot be completed while one of its subtasks is blocked.
+ *
+ * @param {EntityManager} manager - The entity manager of the transaction
+ * @param {Task} task - The changed task
+ * @param {TaskStatus} previousStatus - The status of the task before the changes
+ *
+ * @throws {ConflictError} - If the task is completed with a blocked subtask
+ */
+const saveTaskChanges = async (
+  manager: EntityManager,
+  task: Task,
+  previousStatus: TaskStatus,
+) => {
+  if (task.status === TaskStatus.Done && previousStatus !== TaskStatus.Done) {
+    const openSubtasks = await manager.find(Task, {
+      where: { parent: { id: task.id }, status: Not(TaskStatus.Done) },
+    });
+
+    if (openSubtasks.some((subtask) => subtask.status === TaskStatus.Blocked)) {
+      throw new ConflictError(
+        "Task cannot be completed while a subtask is blocked",
+        "BLOCKED_SUBTASKS",
+      );
+    }
+
+    // Complete the open subtasks together with their parent
+    openSubtasks.forEach((subtask) => {
+      subtask.setStatus(TaskStatus.Done);
+      subtask.updatedAt = task.updatedAt;
+    });
+
+    await manager.save(openSubtasks);
+  }
+
+  await manager.save(task);
+};
+
+/**
+ * Saves the changes of a task in a transaction
+ *
+ * @description
+ * When the task becomes done, its open subtasks are completed with it in
+ * the same transaction.
+ *
+ * @param {Task} task - The changed task
+ * @param {TaskStatus} previousStatus - The status of the task before the changes
+ *
+ * @throws {ConflictError} - If the task is completed with a blocked subtask
+ */
+const saveTask = async (task: Task, previousStatus: TaskStatus) => {
+  // Create a new query runner
+  const queryRunner = AppDataSource.createQueryRunner();
+
+  try {
+    // Connect to the database
+    await queryRunner.connect();
+    // Start a new transaction
+    await queryRunner.startTransaction();
+
+    await saveTaskChanges(queryRunner.manager, task, previousStatus);
+
+    // Commit the transaction
+    await queryRunner.commitTransaction();
+  } catch (error) {
+    // Rollback the transaction if an error occurs
+    await queryRunner.rollbackTransaction();
+    throw error;
+  } finally {
+    // Release the query runner
+    await queryRunner.release();
+  }
+};
+
+/**
+ * Loads a task visible to a user with its tags, parent and progress
+ *
+ * @param {User} user - The user who must be able to see the task
+ * @param {number} taskId - The id of the task
+ * @param {EntityManager} manager - The entity manager to read with
+ * @returns {Promise<Task | null>} - The task, or null if it is not visible
+ */
+const loadTask = async (
+  user: User,
+  taskId: number,
+  manager: EntityManager = AppDataSource.manager,
+) => {
+  const query = manager
+    .createQueryBuilder(Task, "task")
+    .leftJoinAndSelect("task.tags", "tag")
+    .leftJoinAndSelect("task.parent", "parent")
+    .where("task.id = :taskId", { taskId });
+
+  const task = await whereTaskVisible(query, "task", user).getOne();
+
+  if (task) {
+    await loadTaskProgress([task], manager);
+  }
+
+  return task;
+};
+
+/**
+ * Finds a task visible to a user by its id
+ *
+ * @param {EntityManager} manager - The entity manager to read with
+ * @param {User} user - The user who must be able to see the task
+ * @param {number} taskId - The id of the task
+ * @param {"read" | "write"} access - Whether the task is only read, or
+ * changed which requires the user to be allowed to edit it
+ * @returns {Promise<Task>} - The task with the given id, its tags and parent
+ *
+ * @throws {NotFoundError} - If the task is not found
+ * @throws {ForbiddenError} - If the task is changed by a viewer of its project
+ */
+const findUserTask = async (
+  manager: EntityManager,
+  user: User,
+  taskId: number,
+  access: "read" | "write",
+) => {
+  const task = await loadTask(user, taskId, manager);
+
+  if (!task) {
+    throw new NotFoundError(`Task ${taskId} not found`);
+  }
+
+  if (access === "write" && !(await canEditTask(user, task, manager))) {
+    throw new ForbiddenError(
+      `Task ${taskId} is read only for viewers of its project`,
+      "READ_ONLY_TASK",
+    );
+  }
+
+  return task;
+};
+
+/**
+ * Finds a task visible to the authenticated user by the id route parameter
+ *
+ * @param {Context} context - The Hono context object
+ * @param {"read" | "write"} access - Whether the task is only read, or
+ * changed which requires the user to be allowed to edit it
+ * @returns {Promise<Task>} - The task with the given id, its tags and parent
+ *
+ * @throws {NotFoundError} - If the task is not found
+ * @throws {ForbiddenError} - If the task is changed by a viewer of its project
+ */
+const findTask = async (
+  context: Context<UserEnv>,
+  access: "read" | "write",
+) => {
+  return findUserTask(
+    AppDataSource.manager,
+    getUser(context),
+    parseInt(context.req.param("id")),
+    access,
+  );
+};
+
+/**
+ * Finds a subtask of the given task by the subtaskId route parameter
+ *
+ * @param {Context} context - The Hono context object
+ * @param {Task} task - The parent task of the subtask
+ * @returns {Promise<Task>} - The subtask with the given id
+ *
+ * @throws {NotFoundError} - If the subtask is not found
+ */
+const findSubtask = async (context: Context<UserEnv>, task: Task) => {
+  const subtaskId = parseInt(context.req.param("subtaskId"));
+  const subtask = await AppDataSource.manager.findOneBy(Task, {
+    id: subtaskId,
+    parent: { id: task.id },
+  });
+
+  if (!subtask) {
+    throw new NotFoundError(`Subtask ${subtaskId} not found`);
+  }
+
+  return subtask;
+};
+
+/**
+ * Creates a new task of a user
+ *
+ * @param {EntityManager} manager - The entity manager to save the task with
+ * @param {User} user - The user who creates the task
+ * @param {Object} payload - The validated fields of the task
+ * @returns {Promise<Task>} - The saved task
+ *
+ * @throws {NotFoundError} - If the project is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project
+ * @throws {ValidationError} - If a tag or the assignee is not found
+ */
+const createTask = async (
+  manager: EntityManager,
+  user: User,
+  payload: z.infer<typeof createTaskSchema>,
+) => {
+  const {
+    title,
+    description,
+    status,
+    priority,
+    dueAt,
+    tagIds,
+    projectId,
+    assigneeId,
+  } = payload;
+
+  if (projectId) {
+    // Check if the user can add tasks to the project
+    const role = await getProjectRole(user, projectId, manager);
+
+    if (!role) {
+      throw new NotFoundError(`Project ${projectId} not found`);
+    }
+
+    if (!canEditProjectTasks(role)) {
+      throw new ForbiddenError(
+        `Project ${projectId} is read only for viewers`,
+        "READ_ONLY_PROJECT",
+      );
+    }
+  }
+
+  // Create a new task object
+  const newTask = new Task();
+  newTask.title = title;
+  newTask.description = description;
+  newTask.user = user;
+  newTask.priority = priority || TaskPriority.Medium;
+  newTask.dueAt = dueAt || null;
+  newTask.status = TaskStatus.Todo;
+  newTask.setStatus(status || TaskStatus.Todo);
+  newTask.tags = tagIds ? await findUserTags(manager, user, tagIds) : [];
+  newTask.project = projectId ? ({ id: projectId } as Project) : null;
+  newTask.assignee = assigneeId
+    ? await findAssignee(manager, user, projectId, assigneeId)
+    : null;
+  newTask.createdAt = new Date();
+
+  // Save the new task to the database
+  await manager.save(newTask);
+
+  return newTask;
+};
+
+/**
+ * Moves a task and its subtasks to the trash
+ *
+ * @param {EntityManager} manager - The entity manager to save the tasks with
+ * @param {Task} task - The task to move to the trash
+ */
+const trashTask = async (manager: EntityManager, task: Task) => {
+  const subtasks = await manager.find(Task, {
+    where: { parent: { id: task.id } },
+  });
+
+  // Mark the task and its subtasks with the same date, to restore them together
+  task.deletedAt = new Date();
+  subtasks.forEach((subtask) => {
+    subtask.deletedAt = task.deletedAt;
+  });
+
+  // Saving several tasks runs in a transaction
+  await manager.save([...subtasks, task]);
+};
+
+/**
+ * Create a new task
+ *
+ * @description
+ * This handler creates a new task for the authenticated user, either a
+ * personal task or a task of a project the user is an owner or editor of.
+ * It expects a JSON payload with the following properties:
+ * - title: A string representing the title of the task
+ * - description: A string representing the description of the task
+ * - status: An optional status, todo by default
+ * - priority: An optional priority, medium by default
+ * - dueAt: An optional date and time when the task is due
+ * - tagIds: An optional array of ids of the tags of the task
+ * - projectId: An optional id of the project of the task
+ * - assigneeId: An optional id of a member of the project to assign the
+ *   task to, or of the authenticated user for a personal task
+ *
+ * @param {Object} context - The Hono context object
+ * @returns {Promise<Object>} - The JSON response object
+ *
+ * @throws {NotFoundError} - If the project is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project
+ */
+tasks.post(
+  "/",
+  describeRoute({
+    summary: "Create a task",
+    responses: {
+      200: {
+        description: "The created task",
+        schema: successSchema({ task: taskSchema }),
+      },
+      403: { description: "The user is a viewer of the project" },
+      404: { description: "The project is not found" },
+    },
+  }),
+  validate(createTaskSchema),
+  async (context) => {
+    // Parse the request body as JSON
+    const payload = createTaskSchema.parse(await context.req.json());
+    // Get the authenticated user
+    const user = getUser(context);
+
+    const newTask = await createTask(AppDataSource.manager, user, payload);
+
+    // Return the success response with the new task
+    return context.json({
+      status: "success",
+      data: { task: await loadTask(user, newTask.id) },
+    });
+  },
+);
+
+/**
+ * Updates the task of the id route parameter with the changes of the request,
+ * for both PUT and PATCH /tasks/:id
+ *
+ * @param {Context} context - The Hono context object
+ * @param {ZodSchema} schema - The schema the changes were validated with
+ * @returns {Promise<Response>} - The JSON response with the updated task
+ *
+ * @throws {NotFoundError} - If the task is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ * @throws {ConflictError} - If the status transition is not allowed, or the
+ * task is completed while one of its subtasks is blocked
+ */
+const updateTask = async (
+  context: Context<UserEnv>,
+  schema: typeof updateTaskSchema | typeof patchTaskSchema,
+) => {
+  const task = await findTask(context, "write");
+  const previousStatus = task.status;
+  const changes = schema.parse(await context.req.json());
+
+  applyTaskChanges(task, changes);
+  await applyTaskRelations(
+    AppDataSource.manager,
+    getUser(context),
+    task,
+    changes,
+  );
+  task.updatedAt = new Date();
+
+  await saveTask(task, previousStatus);
+
+  return context.json({
+    status: "success",
+    data: { task: await loadTask(getUser(context), task.id) },
+  });
+};
+
+/**
+ * Update an existing task
+ *
+ * @description
+ * This handler updates an existing task with the given id.
+ * It expects a JSON payload with the following properties:
+ * - title: A string representing the new title of the task
+ * - description: A string representing the new description of the task
+ * - status: An optional new status of the task
+ * - priority: An optional new priority of the task
+ * - dueAt: An optional new due date of the task, null to remove it
+ * - completed: An optional boolean indicating whether the task is completed or not
+ * - tagIds: An optional array of ids of tags, replacing the tags of the task
+ * - assigneeId: An optional id of the user to assign the task to, null to
+ *   unassign it
+ *
+ * Optional fields that are not given are left unchanged.
+ * Completing a task also completes its open subtasks.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the update
+ * - data: An object containing the updated task
+ *
+ * @throws {NotFoundError} - If the task is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ * @throws {ConflictError} - If the status transition is not allowed, or the
+ * task is completed while one of its subtasks is blocked
+ */
+tasks.put(
+  "/:id",
+  describeRoute({
+    summary: "Replace a task",
+    responses: {
+      200: {
+        description: "The updated task",
+        schema: successSchema({ task: taskSchema }),
+      },
+      403: { description: "The user is a viewer of the project of the task" },
+      404: { description: "The task is not found" },
+      409: {
+        description:
+          "The status transition is not allowed, or the task has open subtasks",
+      },
+    },
+  }),
+  validate(updateTaskSchema),
+  (context) => updateTask(context, updateTaskSchema),
+);
+
+/**
+ * Partially update an existing task
+ *
+ * @description
+ * This handler updates only the given fields of the task with the given id.
+ * It accepts the same properties as PUT /tasks/:id, all of them optional,
+ * and at least one of them must be given.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the update
+ * - data: An object containing the updated task
+ *
+ * @throws {NotFoundError} - If the task is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ * @throws {ConflictError} - If the status transition is not allowed, or the
+ * task is completed while one of its subtasks is blocked
+ */
+tasks.patch(
+  "/:id",
+  describeRoute({
+    summary: "Update a task",
+    responses: {
+      200: {
+        description: "The updated task",
+        schema: successSchema({ task: taskSchema }),
+      },
+      403: { description: "The user is a viewer of the project of the task" },
+      404: { description: "The task is not found" },
+      409: {
+        description:
+          "The status transition is not allowed, or the task has open subtasks",
+      },
+    },
+  }),
+  validate(patchTaskSchema),
+  (context) => updateTask(context, patchTaskSchema),
+);
+
+/**
+ * Moves a task to the trash by its id
+ *
+ * @description
+ * The subtasks of the task are moved to the trash with it, and are restored
+ * with it. The tasks in the trash are deleted for good after the retention
+ * period of the trash.
+ *
+ * @param {Request} context - The request context
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the deletion
+ * - data: An object containing the deleted task
+ *
+ * @throws {NotFoundError} - If the task is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ */
+tasks.delete(
+  "/:id",
+  describeRoute({
+    summary: "Move a task to the trash",
+    responses: {
+      200: {
+        description: "The deleted task",
+        schema: successSchema({ task: taskSchema }),
+      },
+      403: { description: "The user is a viewer of the project of the task" },
+      404: { description: "The task is not found" },
+    },
+  }),
+  async (context) => {
+    const task = await findTask(context, "write");
+
+    await trashTask(AppDataSource.manager, task);
+
+    return context.json({
+      status: "success",
+      data: { task },
+    });
+  },
+);
+
+/**
+ * The id of the task of an operation of POST /tasks/bulk
+ */
+const bulkTaskId = z.number().int();
+
+/**
+ * The JSON payload of POST /tasks/bulk
+ */
+const bulkTasksSchema = z.object({
+  /**
+   * Whether a failed operation rolls back every operation (atomic), or only
+   * itself while the others are saved (partial)
+   * @type {"atomic" | "partial"}
+   */
+  mode: z.enum(["atomic", "partial"]).default("atomic"),
+  /**
+   * The operations, run in their order
+   * @type {Object[]}
+   */
+  operations: z
+    .array(
+      z.discriminatedUnion("action", [
+        z.object({ action: z.literal("create"), task: createTaskSchema }),
+        z.object({
+          action: z.literal("update"),
+          id: bulkTaskId,
+          changes: patchTaskSchema,
+        }),
+        z.object({ action: z.literal("complete"), id: bulkTaskId }),
+        z.object({ action: z.literal("delete"), id: bulkTaskId }),
+      ]),
+    )
+    .min(1)
+    .max(100),
+});
+
+/**
+ * An operation of POST /tasks/bulk
+ */
+type BulkTaskOperation = z.infer<typeof bulkTasksSchema>["operations"][number];
+
+/**
+ * The result of an operation of POST /tasks/bulk
+ */
+type BulkTaskResult = {
+  index: number;
+  action: BulkTaskOperation["action"];
+  status: "success" | "error";
+  task?: Task;
+  error?: { code: string; message: string; details?: HttpError["details"] };
+};
+
+/**
+ * Runs an operation of POST /tasks/bulk
+ *
+ * @param {EntityManager} manager - The entity manager of the transaction
+ * @param {User} user - The authenticated user
+ * @param {BulkTaskOperation} operation - The validated operation
+ * @returns {Promise<Task>} - The created, changed or deleted task
+ *
+ * @throws {NotFoundError} - If the task or project is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ * @throws {ValidationError} - If a tag or the assignee is not found
+ * @throws {ConflictError} - If the status transition is not allowed, or the
+ * task is completed while one of its subtasks is blocked
+ */
+const runBulkOperation = async (
+  manager: EntityManager,
+  user: User,
+  operation: BulkTaskOperation,
+) => {
+  if (operation.action === "create") {
+    const newTask = await createTask(manager, user, operation.task);
+
+    return loadTask(user, newTask.id, manager);
+  }
+
+  const task = await findUserTask(manager, user, operation.id, "write");
+
+  if (operation.action === "delete") {
+    await trashTask(manager, task);
+
+    return task;
+  }
+
+  const previousStatus = task.status;
+  const changes =
+    operation.action === "complete" ? { completed: true } : operation.changes;
+
+  applyTaskChanges(task, changes);
+  await applyTaskRelations(manager, user, task, changes);
+  task.updatedAt = new Date();
+
+  await saveTaskChanges(manager, task, previousStatus);
+
+  return loadTask(user, task.id, manager);
+};
+
+/**
+ * Run several task operations at once
+ *
+ * @description
+ * This handler runs a batch of operations on the tasks of the authenticated
+ * user in a single transaction, in their order. Each operation can see the
+ * changes of the operations before it.
+ * It expects a JSON payload with the following properties:
+ * - mode: atomic by default, to roll back every operation when one of them
+ *   fails, or partial to only roll back the failed operations
+ * - operations: An array of 1 to 100 operations, each with an action:
+ *   - create: Creates the task given as task, like POST /tasks
+ *   - update: Changes the task with the given id, like PATCH /tasks/:id
+ *   - complete: Completes the task with the given id
+ *   - delete: Moves the task with the given id to the trash
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the result of each operation, in their order
+ *
+ * @throws {HttpError} - In atomic mode, the error of the first failed
+ * operation, with its position in the message
+ */
+tasks.post(
+  "/bulk",
+  describeRoute({
+    summary: "Run several task operations at once",
+    description:
+      "In atomic mode a failed operation rolls back every operation and fails the request. In partial mode it only rolls back itself, and its error is returned in its result.",
+    responses: {
+      200: {
+        description: "The result of each operation, in their order",
+        schema: successSchema({ results: z.array(bulkTaskResultSchema) }),
+      },
+      403: {
+        description:
+          "In atomic mode, the user is a viewer of the project of a task",
+      },
+      404: { description: "In atomic mode, a task or project is not found" },
+      409: {
+        description:
+          "In atomic mode, a status transition is not allowed, or a task has blocked subtasks",
+      },
+    },
+  }),
+  validate(bulkTasksSchema),
+  async (context) => {
+    const { mode, operations } = bulkTasksSchema.parse(
+      await context.req.json(),
+    );
+    const user = getUser(context);
+    const results: BulkTaskResult[] = [];
+
+    // Create a new query runner
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      // Connect to the database
+      await queryRunner.connect();
+      // Start a new transaction
+      await queryRunner.startTransaction();
+
+      for (let index = 0; index < operations.length; index++) {
+        const operation = operations[index];
+
+        // In partial mode, each operation runs in a savepoint of its own
+        if (mode === "partial") {
+          await queryRunner.startTransaction();
+        }
+
+        try {
+          const task = await runBulkOperation(
+            queryRunner.manager,
+            user,
+            operation,
+          );
+
+          if (mode === "partial") {
+            await queryRunner.commitTransaction();
+          }
+
+          results.push({
+            index,
+            action: operation.action,
+            status: "success",
+            task,
+          });
+        } catch (error) {
+          if (mode === "partial") {
+            // Roll back to the savepoint of the failed operation
+            await queryRunner.rollbackTransaction();
+          }
+
+          if (!(error instanceof HttpError)) {
+            throw error;
+          }
+
+          if (mode === "atomic") {
+            throw new HttpError(
+              error.status,
+              error.code,
+              `Operation ${index} failed: ${error.message}`,
+              error.details,
+            );
+          }
+
+          results.push({
+            index,
+            action: operation.action,
+            status: "error",
+            error: {
+              code: error.code,
+              message: error.message,
+              ...(error.details && { details: error.details }),
+            },
+          });
+        }
+      }
+
+      // Commit the transaction
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      // Rollback the transaction if an error occurs
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      // Release the query runner
+      await queryRunner.release();
+    }
+
+    return context.json({
+      status: "success",
+      data: { results },
+    });
+  },
+);
+
+/**
+ * The number of tasks read at once by an export
+ */
+const EXPORT_BATCH_SIZE = 100;
+
+/**
+ * The query string of GET /tasks/export
+ */
+const exportTasksQuery = z.object({
+  format: z.enum(TASK_FILE_FORMATS).default("json"),
+});
+
+/**
+ * Export the tasks as a file
+ *
+ * @description
+ * This handler streams every task visible to the authenticated user,
+ * subtasks included, in the order they were created. The tasks are read in
+ * batches, so that large exports are not held in memory.
+ * It accepts the following query parameter:
+ * - format: json by default, csv, or ics for an iCalendar file with a VTODO
+ *   per task, due at the due date of the task
+ *
+ * @returns {Response} - The streamed file, as an attachment
  */
-tasks.get("/", async (context) => {
-  const { per_page, page } = await context.req.query();
+tasks.get(
+  "/export",
+  describeRoute({
+    summary: "Export the tasks as a file",
+    description:
+      "A JSON file is an array of ExportedTask. A CSV file has one column per field of an ExportedTask, with the tags separated by commas.",
+    responses: {
+      200: {
+        description: "The file of the tasks",
+        mediaTypes: ["application/json", "text/csv", "text/calendar"],
+      },
+    },
+  }),
+  validate(exportTasksQuery, "query"),
+  async (context) => {
+    const { format } = exportTasksQuery.parse(context.req.query());
+    const user = getUser(context);
+    const fileFormat = taskFileFormats[format];
 
-  console.log(per_page, page);
+    context.header("Content-Type", fileFormat.contentType);
+    context.header(
+      "Content-Disposition",
+      `attachment; filename="tasks.${format}"`,
+    );
 
-  // Get the authenticated user
-  const user = getUser();
+    return stream(context, async (output) => {
+      await output.write(fileFormat.begin());
 
-  // Define the query parameters for retrieving tasks
-  const query = {
-    where: { user }, // Filter by the authenticated user
-    take: parseInt(per_page) || 10, // Limit the number of tasks returned
-    skip: ((parseInt(page) || 1) - 1) * (parseInt(per_page) || 10), // Skip the first N tasks
-    relations: ["user"], // Include the user information in the response
-  };
+      let count = 0;
+      let batch: Task[];
 
-  // Retrieve tasks from the database
-  const tasks = await AppDataSource.manager.find(Task, {
-    ...query, // Merge the query parameters with the default options
-    order: { createdAt: "DESC" }, // Sort the tasks by creation date in descending order
-  });
+      do {
+        // Continue after the last task of the previous batch
+        const query = AppDataSource.manager
+          .createQueryBuilder(Task, "task")
+          .leftJoin("task.parent", "parent")
+          .addSelect("parent.id")
+          .where("task.id > :lastId", {
+            lastId: count > 0 ? batch[batch.length - 1].id : 0,
+          })
+          .orderBy("task.id", "ASC")
+          .take(EXPORT_BATCH_SIZE);
 
-  // Return the tasks as a JSON response
-  return context.json({
-    status: "success",
-    data: {
-      tasks,
+        batch = await whereTaskVisible(query, "task", user).getMany();
+        await loadTaskTags(batch);
+
+        for (let index = 0; index < batch.length; index++) {
+          await output.write(
+            fileFormat.formatTask(toExportedTask(batch[index]), count),
+          );
+          count += 1;
+        }
+      } while (batch.length === EXPORT_BATCH_SIZE);
+
+      await output.write(fileFormat.end());
+    });
+  },
+);
+
+/**
+ * The query string of POST /tasks/import
+ */
+const importTasksQuery = z.object({
+  format: z.enum(TASK_FILE_FORMATS).optional(),
+  dry_run: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((dryRun) => dryRun === "true"),
+});
+
+/**
+ * The multipart form body of POST /tasks/import
+ */
+const importTasksForm = z.object({
+  /**
+   * The file to import
+   * @type {File}
+   */
+  file: z
+    .instanceof(File, { message: "Expected a file" })
+    .describe("The file to import, like a file of GET /tasks/export"),
+});
+
+/**
+ * Import tasks from a file
+ *
+ * @description
+ * This handler imports the tasks of an uploaded file as personal tasks of
+ * the authenticated user, in a single transaction. The tags are matched by
+ * their name, and the missing ones are created. The subtasks are linked to
+ * their parent by the ids of the file, which are not kept.
+ * It expects a multipart form body with the following field:
+ * - file: A JSON, CSV or iCalendar file of at most 1 MB and 1000 tasks
+ *
+ * It accepts the following query parameters:
+ * - format: json, csv or ics, read from the extension of the file name by default
+ * - dry_run: "true" to validate the file and preview the import, without
+ *   saving it
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the import
+ * - data: An object containing whether it was a dry run, the imported tasks,
+ *   and the names of the created tags
+ *
+ * @throws {ValidationError} - If the file cannot be read, or one of its tasks
+ * is invalid, with the row of every invalid field
+ */
+tasks.post(
+  "/import",
+  describeRoute({
+    summary: "Import tasks from a file",
+    description:
+      "The files of GET /tasks/export can be imported. The ids of a dry run are not kept.",
+    responses: {
+      200: {
+        description: "The imported tasks, or the tasks a dry run would import",
+        schema: successSchema({
+          dryRun: z.boolean(),
+          tasks: z.array(exportedTaskSchema),
+          newTags: z
+            .array(z.string())
+            .describe("The names of the tags created for the tasks"),
+        }),
+      },
+      400: {
+        description:
+          "The file cannot be read, or its tasks failed validation, with the row of every invalid field",
+      },
     },
-  });
+  }),
+  validate(importTasksQuery, "query"),
+  validate(importTasksForm, "form"),
+  async (context) => {
+    const { format, dry_run } = importTasksQuery.parse(context.req.query());
+    const { file } = importTasksForm.parse(await context.req.parseBody());
+    const user = getUser(context);
+
+    // Read the format from the extension of the file name when it is not given
+    const extension = file.name.split(".").pop().toLowerCase();
+    const formatName =
+      format || TASK_FILE_FORMATS.filter((name) => name === extension)[0];
+
+    if (!formatName) {
+      throw new ValidationError("Validation failed", [
+        {
+          field: "format",
+          message: "Expected a format, or a .json, .csv or .ics file",
+        },
+      ]);
+    }
+
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      throw new ValidationError("Validation failed", [
+        { field: "file", message: "The file must be at most 1 MB" },
+      ]);
+    }
+
+    let records: Record<string, unknown>[];
+
+    try {
+      // Skip the byte order mark that spreadsheets write
+      records = taskFileFormats[formatName].parse(
+        (await file.text()).replace(/^\uFEFF/, ""),
+      );
+    } catch (error) {
+      throw new ValidationError("Validation failed", [
+        {
+          field: "file",
+          message: `Invalid ${formatName} file: ${error.message}`,
+        },
+      ]);
+    }
+
+    if (records.length === 0 || records.length > MAX_IMPORT_TASKS) {
+      throw new ValidationError("Validation failed", [
+        {
+          field: "file",
+          message: `The file must contain from 1 to ${MAX_IMPORT_TASKS} tasks`,
+        },
+      ]);
+    }
+
+    const { tasks: importedTasks, details } = validateImportedTasks(records);
+
+    if (details.length > 0) {
+      throw new ValidationError("The file contains invalid tasks", details);
+    }
+
+    // Create a new query runner
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      // Connect to the database
+      await queryRunner.connect();
+      // Start a new transaction
+      await queryRunner.startTransaction();
+
+      const { tasks: newTasks, newTags } = await createImportedTasks(
+        queryRunner.manager,
+        user,
+        importedTasks,
+      );
+      await saveImportedTasks(queryRunner.manager, newTasks, newTags);
+
+      if (dry_run) {
+        // A dry run only previews the import
+        await queryRunner.rollbackTransaction();
+      } else {
+        // Commit the transaction
+        await queryRunner.commitTransaction();
+      }
+
+      return context.json({
+        status: "success",
+        data: {
+          dryRun: dry_run,
+          tasks: newTasks.map(toExportedTask),
+          newTags: newTags.map((tag) => tag.name),
+        },
+      });
+    } catch (error) {
+      // Rollback the transaction if an error occurs
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      // Release the query runner
+      await queryRunner.release();
+    }
+  },
+);
+
+/**
+ * The interval between the heartbeats of GET /tasks/stream when
+ * STREAM_HEARTBEAT_INTERVAL is not set
+ */
+const DEFAULT_HEARTBEAT_INTERVAL = 15 * 1000;
+
+/**
+ * Stream the changes of the tasks
+ *
+ * @description
+ * This handler streams the changes of the tasks visible to the
+ * authenticated user as Server-Sent Events, once they are committed:
+ * - task.created: A task was created
+ * - task.updated: A task was changed, or restored from the trash
+ * - task.deleted: A task was moved to the trash
+ *
+ * The data of each event is a JSON object with the task after the change,
+ * and its id is the one to send back as the Last-Event-ID header when
+ * reconnecting. The events missed since then are sent first, or a reset
+ * event when some of them are no longer kept, after which the client has
+ * to reload the tasks. A heartbeat comment is sent every
+ * STREAM_HEARTBEAT_INTERVAL milliseconds, 15 seconds by default, so that
+ * the proxies keep the connection open.
+ *
+ * The session is checked again before each heartbeat: once it is logged
+ * out or revoked, or the user disabled, an unauthorized event with the
+ * error is sent and the stream is closed.
+ *
+ * The token is sent in the Authorization header like for the other routes.
+ * The EventSource of the browsers cannot send headers, so browser clients
+ * read the stream with fetch(), or with an EventSource polyfill that sends
+ * headers.
+ *
+ * @returns {Response} - The event stream, open until the client disconnects
+ */
+tasks.get(
+  "/stream",
+  describeRoute({
+    summary: "Stream the changes of the tasks",
+    description:
+      "Server-Sent Events named task.created, task.updated and task.deleted, with the task as JSON data. Reconnect with the Last-Event-ID header to receive the missed events, or a reset event when they are no longer kept. The stream ends with an unauthorized event once the session is logged out or revoked. The token is sent in the Authorization header, so browsers read the stream with fetch() rather than EventSource.",
+    responses: {
+      200: {
+        description: "The event stream",
+        mediaTypes: ["text/event-stream"],
+      },
+    },
+  }),
+  async (context) => {
+    const user = getUser(context);
+    const sessionId = getSessionId(context);
+    const lastEventId = context.req.header("Last-Event-ID");
+    const heartbeatInterval =
+      parseInt(process.env.STREAM_HEARTBEAT_INTERVAL) ||
+      DEFAULT_HEARTBEAT_INTERVAL;
+
+    return streamSSE(context, async (output) => {
+      // The events are written without waiting for the client, so that
+      // none is published between the replay and the subscription
+      const sendEvent = (event: TaskEvent) => {
+        output.writeSSE({
+          id: String(event.id),
+          event: event.type,
+          data: JSON.stringify({ task: event.task }),
+        });
+      };
+
+      if (lastEventId !== undefined) {
+        const missedEvents = /^\d+$/.test(lastEventId)
+          ? getTaskEventsSince(user.id, parseInt(lastEventId))
+          : null;
+
+        if (missedEvents) {
+          missedEvents.forEach(sendEvent);
+        } else {
+          output.writeSSE({
+            event: "reset",
+            data: JSON.stringify({
+              message: "Some events were missed, reload the tasks",
+            }),
+          });
+        }
+      }
+
+      await new Promise<void>((resolve) => {
+        const unsubscribe = subscribeToTaskEvents(user.id, sendEvent);
+        const close = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          resolve();
+        };
+        const heartbeat = setInterval(async () => {
+          try {
+            await findSessionUser(sessionId, user.id);
+          } catch (error) {
+            // Stop streaming to a session that ended since the stream
+            // opened, and check again at the next heartbeat if it failed
+            if (error instanceof UnauthorizedError) {
+              output.writeSSE({
+                event: "unauthorized",
+                data: JSON.stringify({
+                  error: { code: error.code, message: error.message },
+                }),
+              });
+              close();
+              return;
+            }
+          }
+
+          output.write(": heartbeat\n\n");
+        }, heartbeatInterval);
+
+        output.onAbort(close);
+      });
+    });
+  },
+);
+
+/**
+ * The query string of GET /tasks/trash
+ */
+const listTrashQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(10),
 });
 
 /**
- * Create a new task
+ * Get the tasks in the trash
  *
- * @param {Object} context - The Hono context object
- * @returns {Promise<Object>} - The JSON response object
+ * @description
+ * This handler lists the tasks in the trash visible to the authenticated
+ * user, the most recently deleted first. The subtasks moved to the trash
+ * along with their parent are left out, as they are restored with it.
+ * It accepts the following query parameters:
+ * - per_page: The number of tasks per page, 10 by default and 100 at most
+ * - page: The page number, 1 by default
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the tasks
+ * - meta: An object containing the total number of tasks in the trash, the
+ *   page, perPage and pageCount
+ */
+tasks.get(
+  "/trash",
+  describeRoute({
+    summary: "List the tasks in the trash",
+    description: `The tasks are deleted for good ${getTrashRetentionDays()} days after they were moved to the trash.`,
+    responses: {
+      200: {
+        description: "A page of the tasks, the most recently deleted first",
+        schema: successSchema({ tasks: z.array(taskSchema) }).extend({
+          meta: pageMetaSchema,
+        }),
+      },
+    },
+  }),
+  validate(listTrashQuery, "query"),
+  async (context) => {
+    const { page, per_page } = listTrashQuery.parse(context.req.query());
+
+    const query = AppDataSource.manager
+      .createQueryBuilder(Task, "task")
+      .withDeleted()
+      .leftJoinAndSelect("task.tags", "tag")
+      .leftJoin("task.parent", "parent")
+      .where("task.deletedAt IS NOT NULL")
+      .andWhere("(parent.id IS NULL OR parent.deletedAt IS NULL)")
+      .orderBy("task.deletedAt", "DESC")
+      .addOrderBy("task.id", "DESC")
+      .skip((page - 1) * per_page)
+      .take(per_page);
+
+    const [trashedTasks, total] = await whereTaskVisible(
+      query,
+      "task",
+      getUser(context),
+    ).getManyAndCount();
+
+    return context.json({
+      status: "success",
+      data: { tasks: trashedTasks },
+      meta: {
+        total,
+        page,
+        perPage: per_page,
+        pageCount: Math.ceil(total / per_page),
+      },
+    });
+  },
+);
+
+/**
+ * Restores a task from the trash by its id
+ *
+ * @description
+ * The subtasks moved to the trash along with the task are restored with it.
+ * A subtask moved to the trash on its own can only be restored while its
+ * parent is not in the trash.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the restored task
+ *
+ * @throws {NotFoundError} - If the task is not in the trash
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ * @throws {ConflictError} - If the parent of the task is in the trash
  */
 tasks.post(
-  "/",
+  "/:id/restore",
+  describeRoute({
+    summary: "Restore a task from the trash",
+    responses: {
+      200: {
+        description: "The restored task",
+        schema: successSchema({ task: taskSchema }),
+      },
+      403: { description: "The user is a viewer of the project of the task" },
+      404: { description: "The task is not in the trash" },
+      409: { description: "The parent of the task is in the trash" },
+    },
+  }),
+  async (context) => {
+    const user = getUser(context);
+    const taskId = parseInt(context.req.param("id"));
+
+    const query = AppDataSource.manager
+      .createQueryBuilder(Task, "task")
+      .withDeleted()
+      .leftJoinAndSelect("task.parent", "parent")
+      .where("task.id = :taskId", { taskId })
+      .andWhere("task.deletedAt IS NOT NULL");
+
+    const task = await whereTaskVisible(query, "task", user).getOne();
+
+    if (!task) {
+      throw new NotFoundError(`Task ${taskId} not found in the trash`);
+    }
+
+    if (!(await canEditTask(user, task))) {
+      throw new ForbiddenError(
+        `Task ${taskId} is read only for viewers of its project`,
+        "READ_ONLY_TASK",
+      );
+    }
+
+    if (task.parent?.deletedAt) {
+      throw new ConflictError(
+        "The parent task is in the trash, restore it first",
+        "PARENT_IN_TRASH",
+      );
+    }
+
+    // Restore the subtasks moved to the trash along with the task
+    const subtasks = (
+      await AppDataSource.manager.find(Task, {
+        where: { parent: { id: task.id } },
+        withDeleted: true,
+      })
+    ).filter(
+      (subtask) =>
+        subtask.deletedAt &&
+        subtask.deletedAt.getTime() === task.deletedAt.getTime(),
+    );
+
+    [task, ...subtasks].forEach((trashedTask) => {
+      trashedTask.deletedAt = null;
+    });
+
+    // Saving several tasks runs in a transaction
+    await AppDataSource.manager.save([task, ...subtasks]);
+
+    return context.json({
+      status: "success",
+      data: { task: await loadTask(user, task.id) },
+    });
+  },
+);
+
+/**
+ * Get the history of a task
+ *
+ * @description
+ * This handler lists the changes of a task, newest first, with the user who
+ * made each change and the fields it changed. The IP addresses of the
+ * changes are left out, as they belong to the users who made them.
+ * It accepts the following query parameters:
+ * - per_page: The number of changes per page, 20 by default and 100 at most
+ * - page: The page number, 1 by default
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the activities of the task
+ * - meta: An object containing the total number of activities, the page,
+ *   perPage and pageCount
+ *
+ * @throws {NotFoundError} - If the task is not found
+ */
+tasks.get(
+  "/:id/history",
+  describeRoute({
+    summary: "List the changes of a task",
+    responses: {
+      200: {
+        description: "A page of the changes, newest first",
+        schema: successSchema({ activities: z.array(activitySchema) }).extend({
+          meta: pageMetaSchema,
+        }),
+      },
+      404: { description: "The task is not found" },
+    },
+  }),
+  validate(activityPageQuery, "query"),
+  async (context) => {
+    const task = await findTask(context, "read");
+    const { page, per_page } = activityPageQuery.parse(context.req.query());
+    const [activities, total] = await findActivities(
+      AppDataSource.manager,
+      { taskId: task.id },
+      page,
+      per_page,
+    );
+
+    return context.json({
+      status: "success",
+      data: {
+        activities: activities.map((activity) => ({
+          ...activity.toJSON(),
+          ipAddress: undefined,
+        })),
+      },
+      meta: {
+        total,
+        page,
+        perPage: per_page,
+        pageCount: Math.ceil(total / per_page),
+      },
+    });
+  },
+);
+
+/**
+ * Get the subtasks of a task
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the subtasks in their order
+ *
+ * @throws {NotFoundError} - If the task is not found
+ */
+tasks.get(
+  "/:id/subtasks",
+  describeRoute({
+    summary: "List the subtasks of a task",
+    responses: {
+      200: {
+        description: "The subtasks, in their order",
+        schema: successSchema({ subtasks: z.array(taskSchema) }),
+      },
+      404: { description: "The task is not found" },
+    },
+  }),
+  async (context) => {
+    const task = await findTask(context, "read");
+    const subtasks = await AppDataSource.manager.find(Task, {
+      where: { parent: { id: task.id } },
+      relations: { tags: true },
+      order: { position: "ASC", id: "ASC" },
+    });
+
+    return context.json({
+      status: "success",
+      data: { subtasks },
+    });
+  },
+);
+
+/**
+ * Add a subtask to a task
+ *
+ * @description
+ * This handler adds a subtask at the end of the subtasks of the task.
+ * Subtasks are tasks themselves, and can be updated and deleted with the
+ * /tasks/:id routes, but cannot have subtasks of their own.
+ * It expects a JSON payload with the following properties:
+ * - title: A string representing the title of the subtask
+ * - description: An optional string representing the description of the subtask
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the creation
+ * - data: An object containing the new subtask
+ *
+ * @throws {NotFoundError} - If the task is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ * @throws {BadRequestError} - If the task is itself a subtask
+ */
+tasks.post(
+  "/:id/subtasks",
+  describeRoute({
+    summary: "Create a subtask",
+    responses: {
+      200: {
+        description: "The created subtask",
+        schema: successSchema({ subtask: taskSchema }),
+      },
+      400: { description: "The task is itself a subtask" },
+      403: { description: "The user is a viewer of the project of the task" },
+      404: { description: "The task is not found" },
+    },
+  }),
   validate(
     z.object({
-      /**
-       * The title of the task
-       * @type {string}
-       */
-      title: z.string().min(1),
-      /**
-       * The description of the task
-       * @type {string}
-       */
-      description: z.string().min(1),
+      title: taskFields.title,
+      description: z.string().optional(),
     }),
   ),
   async (context) => {
-    // Parse the request body as JSON
+    const task = await findTask(context, "write");
+
+    if (task.parent) {
+      throw new BadRequestError(
+        "Subtasks cannot have subtasks",
+        "NESTED_SUBTASK",
+      );
+    }
+
     const { title, description } = await context.req.json();
-    // Get the authenticated user
-    const user = getUser();
 
-    // Create a new task object
-    const newTask = new Task();
-    newTask.title = title;
-    newTask.description = description;
-    newTask.user = user;
-    newTask.completed = false;
-    newTask.createdAt = new Date();
+    const subtask = new Task();
+    subtask.title = title;
+    subtask.description = description || "";
+    subtask.user = getUser(context);
+    subtask.parent = task;
+    subtask.project = task.projectId
+      ? ({ id: task.projectId } as Project)
+      : null;
+    subtask.priority = task.priority;
+    subtask.status = TaskStatus.Todo;
+    subtask.setStatus(TaskStatus.Todo);
+    subtask.tags = [];
+    subtask.createdAt = new Date();
 
-    // Save the new task to the database
-    await AppDataSource.manager.save(newTask);
+    // Create a new query runner
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      // Connect to the database
+      await queryRunner.connect();
+      // Start a new transaction
+      await queryRunner.startTransaction();
+
+      // Put the subtask after the last one, including the deleted subtasks
+      // that can be restored, so that positions never collide
+      const { maxPosition } = await queryRunner.manager
+        .createQueryBuilder(Task, "subtask")
+        .withDeleted()
+        .select("MAX(subtask.position)", "maxPosition")
+        .where("subtask.parent = :parentId", { parentId: task.id })
+        .getRawOne();
+      subtask.position = maxPosition === null ? 0 : Number(maxPosition) + 1;
+
+      await queryRunner.manager.save(subtask);
+
+      // Commit the transaction
+      await queryRunner.commitTransaction();
+    } catch (error) {
+      // Rollback the transaction if an error occurs
+      await queryRunner.rollbackTransaction();
+      throw error;
+    } finally {
+      // Release the query runner
+      await queryRunner.release();
+    }
 
-    // Return the success response with the new task
     return context.json({
       status: "success",
-      data: { task: newTask },
+      data: { subtask: { ...subtask, user: undefined, parent: undefined } },
     });
   },
 );
 
 /**
- * Update an existing task
+ * Reorder the subtasks of a task
  *
  * @description
- * This handler updates an existing task with the given id.
- * It expects a JSON payload with the following properties:
- * - title: A string representing the new title of the task
- * - description: A string representing the new description of the task
- * - completed: A boolean indicating whether the task is completed or not
+ * It expects a JSON payload with the following property:
+ * - subtaskIds: An array with the ids of every subtask of the task, in
+ *   their new order
  *
  * @returns {Object} - The JSON response object with the following properties:
- * - status: A string indicating the success of the update
- * - data: An object containing the updated task
+ * - status: A string indicating the success of the reorder
+ * - data: An object containing the subtasks in their new order
+ *
+ * @throws {NotFoundError} - If the task is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ * @throws {ValidationError} - If the ids are not exactly the subtasks of the task
  */
 tasks.put(
-  "/:id",
-  /**
-   * Validates the request body as JSON
-   */
+  "/:id/subtasks/order",
+  describeRoute({
+    summary: "Reorder the subtasks of a task",
+    responses: {
+      200: {
+        description: "The subtasks, in their new order",
+        schema: successSchema({ subtasks: z.array(taskSchema) }),
+      },
+      400: {
+        description:
+          "The request failed validation, or the ids are not exactly the subtasks of the task",
+      },
+      403: { description: "The user is a viewer of the project of the task" },
+      404: { description: "The task is not found" },
+    },
+  }),
   validate(
     z.object({
-      title: z.string().min(1),
-      description: z.string().min(1),
-      completed: z.boolean().optional(),
+      subtaskIds: z.array(z.number().int()),
     }),
   ),
-  /**
-   * Updates an existing task with the given id
-   *
-   * @param {Request} context - The request context
-   *
-   * @returns {Object} - The JSON response object with the following properties:
-   * - status: A string indicating the success of the update
-   * - data: An object containing the updated task
-   */
   async (context) => {
-    const taskId = parseInt(context.req.param("id"));
-    const task = await AppDataSource.manager.findOneBy(Task, {
-      id: taskId,
-      user: getUser(),
+    const task = await findTask(context, "write");
+    const { subtaskIds } = await context.req.json();
+    const subtasks = await AppDataSource.manager.find(Task, {
+      where: { parent: { id: task.id } },
+      relations: { tags: true },
     });
 
-    if (!task) {
-      throw new Error(`Task ${taskId} not found`);
-    }
+    const isSameSet =
+      subtaskIds.length === subtasks.length &&
+      subtasks.every((subtask) => subtaskIds.indexOf(subtask.id) !== -1);
 
-    const { title, description, completed } = await context.req.json();
+    if (!isSameSet) {
+      throw new ValidationError("Validation failed", [
+        {
+          field: "subtaskIds",
+          message: "Expected the ids of every subtask of the task",
+        },
+      ]);
+    }
 
-    task.title = title;
-    task.description = description;
-    task.completed = completed;
-    task.updatedAt = new Date();
+    subtasks.forEach((subtask) => {
+      subtask.position = subtaskIds.indexOf(subtask.id);
+    });
 
-    await AppDataSource.manager.save(task);
+    await AppDataSource.manager.save(subtasks);
 
     return context.json({
       status: "success",
-      data: { task },
+      data: {
+        subtasks: subtasks.sort((a, b) => a.position - b.position),
+      },
     });
   },
 );
 
 /**
- * Deletes a task by its id
+ * Toggle the completion of a subtask
  *
- * @param {Request} context - The request context
+ * @description
+ * This handler completes an open subtask, or reopens a done subtask.
  *
  * @returns {Object} - The JSON response object with the following properties:
- * - status: A string indicating the success of the deletion
- * - data: An object containing the deleted task
+ * - status: A string indicating the success of the toggle
+ * - data: An object containing the toggled subtask
  *
- * @throws {Error} - If the task is not found
+ * @throws {NotFoundError} - If the task or subtask is not found
+ * @throws {ForbiddenError} - If the user is a viewer of the project of the task
+ * @throws {ConflictError} - If the subtask is blocked
  */
-tasks.delete("/:id", async (context) => {
-  const taskId = parseInt(context.req.param("id"));
-  const user = getUser();
-  const task = await AppDataSource.manager.findOneBy(Task, {
-    id: taskId,
-    user,
-  });
-
-  if (!task) {
-    return context.json(
-      {
-        message: "Task not found",
+tasks.post(
+  "/:id/subtasks/:subtaskId/toggle",
+  describeRoute({
+    summary: "Toggle a subtask between todo and done",
+    responses: {
+      200: {
+        description: "The toggled subtask",
+        schema: successSchema({ subtask: taskSchema }),
       },
-      400,
-    );
-  }
+      403: { description: "The user is a viewer of the project of the task" },
+      404: { description: "The task or subtask is not found" },
+      409: { description: "The subtask is blocked" },
+    },
+  }),
+  async (context) => {
+    const task = await findTask(context, "write");
+    const subtask = await findSubtask(context, task);
+    const previousStatus = subtask.status;
 
-  await AppDataSource.manager.remove(task);
+    applyTaskChanges(subtask, {
+      completed: subtask.status !== TaskStatus.Done,
+    });
+    subtask.updatedAt = new Date();
 
-  return context.json({
-    status: "success",
-    data: { task },
-  });
-});
+    await saveTask(subtask, previousStatus);
+
+    return context.json({
+      status: "success",
+      data: { subtask },
+    });
+  },
+);
 
 /**
  * Export the tasks handler
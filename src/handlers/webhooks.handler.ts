@@ -0,0 +1,408 @@
+import { Context, Hono } from "hono";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { authentication } from "../middleware/auth.middleware";
+import { getUser, UserEnv } from "../contexts/user.context";
+import { validate } from "../utils";
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+  WEBHOOK_TEST_EVENT,
+} from "../models";
+import { AppDataSource } from "../data-source";
+import { NotFoundError } from "../errors";
+import { describeRoute } from "../openapi";
+import {
+  pageMetaSchema,
+  successSchema,
+  webhookDeliverySchema,
+  webhookSchema,
+} from "../schemas";
+import {
+  createWebhookDelivery,
+  isPrivateUrl,
+  sendWebhookDelivery,
+} from "../webhooks";
+
+const webhooks = new Hono<UserEnv>();
+
+webhooks.use(authentication());
+
+/**
+ * The JSON payload of POST /webhooks
+ */
+const createWebhookSchema = z.object({
+  /**
+   * The URL the events are posted to
+   * @type {string}
+   */
+  url: z
+    .string()
+    .trim()
+    .max(2048)
+    .url()
+    .refine(
+      (url) => /^https?:\/\//i.test(url),
+      "The URL must use http or https",
+    )
+    .refine(
+      (url) => !isPrivateUrl(url),
+      "The URL must not point to a loopback, private or link-local host",
+    ),
+  /**
+   * The events the webhook is subscribed to
+   * @type {WebhookEvent[]}
+   */
+  events: z.array(z.nativeEnum(WebhookEvent)).min(1),
+  /**
+   * Whether the webhook is notified of events, true by default
+   * @type {boolean}
+   */
+  active: z.boolean().default(true),
+});
+
+/**
+ * The JSON payload of PATCH /webhooks/:id, the fields to change
+ */
+const updateWebhookSchema = createWebhookSchema
+  .extend({ active: z.boolean() })
+  .partial()
+  .refine(
+    (changes) => Object.keys(changes).length > 0,
+    "At least one field must be given",
+  );
+
+/**
+ * The query string of GET /webhooks/:id/deliveries
+ */
+const deliveryPageQuery = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  per_page: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+/**
+ * Finds a webhook of the authenticated user by the id route parameter
+ *
+ * @param {Context} context - The Hono context object
+ * @returns {Promise<Webhook>} - The webhook with the given id
+ *
+ * @throws {NotFoundError} - If the webhook is not found
+ */
+const findUserWebhook = async (context: Context<UserEnv>) => {
+  const webhookId = parseInt(context.req.param("id"));
+  const webhook = await AppDataSource.manager.findOneBy(Webhook, {
+    id: webhookId,
+    user: { id: getUser(context).id },
+  });
+
+  if (!webhook) {
+    throw new NotFoundError(`Webhook ${webhookId} not found`);
+  }
+
+  return webhook;
+};
+
+/**
+ * Get all webhooks of the authenticated user
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the webhooks, oldest first
+ */
+webhooks.get(
+  "/",
+  describeRoute({
+    summary: "List the webhooks",
+    responses: {
+      200: {
+        description: "The webhooks, oldest first",
+        schema: successSchema({ webhooks: z.array(webhookSchema) }),
+      },
+    },
+  }),
+  async (context) => {
+    const userWebhooks = await AppDataSource.manager.find(Webhook, {
+      where: { user: { id: getUser(context).id } },
+      order: { id: "ASC" },
+    });
+
+    return context.json({
+      status: "success",
+      data: { webhooks: userWebhooks },
+    });
+  },
+);
+
+/**
+ * Register a new webhook
+ *
+ * @description
+ * This handler registers a webhook notified of the events of the tasks the
+ * authenticated user can see.
+ * It expects a JSON payload with the following properties:
+ * - url: The http or https URL the events are posted to, which cannot
+ *   point to a loopback, private or link-local host
+ * - events: The events the webhook is subscribed to, task.created,
+ *   task.updated, task.completed or task.deleted
+ * - active: Whether the webhook is notified of events, true by default
+ *
+ * The deliveries are signed with a secret generated for the webhook, which
+ * is only returned by this request.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the creation
+ * - data: An object containing the new webhook with its secret
+ */
+webhooks.post(
+  "/",
+  describeRoute({
+    summary: "Register a webhook",
+    description:
+      "The secret signing the deliveries is only returned by this request.",
+    responses: {
+      200: {
+        description: "The registered webhook, with its secret",
+        schema: successSchema({ webhook: webhookSchema }),
+      },
+    },
+  }),
+  validate(createWebhookSchema),
+  async (context) => {
+    const { url, events, active } = createWebhookSchema.parse(
+      await context.req.json(),
+    );
+
+    const webhook = new Webhook();
+    webhook.url = url;
+    webhook.events = events;
+    webhook.active = active;
+    webhook.secret = `whsec_${randomBytes(24).toString("hex")}`;
+    webhook.user = getUser(context);
+    webhook.createdAt = new Date();
+
+    await AppDataSource.manager.save(webhook);
+
+    return context.json({
+      status: "success",
+      data: { webhook: { ...webhook.toJSON(), secret: webhook.secret } },
+    });
+  },
+);
+
+/**
+ * Get a webhook
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the webhook
+ *
+ * @throws {NotFoundError} - If the webhook is not found
+ */
+webhooks.get(
+  "/:id",
+  describeRoute({
+    summary: "Get a webhook",
+    responses: {
+      200: {
+        description: "The webhook",
+        schema: successSchema({ webhook: webhookSchema }),
+      },
+      404: { description: "The webhook is not found" },
+    },
+  }),
+  async (context) => {
+    const webhook = await findUserWebhook(context);
+
+    return context.json({
+      status: "success",
+      data: { webhook },
+    });
+  },
+);
+
+/**
+ * Update a webhook
+ *
+ * @description
+ * This handler changes some of the fields of the webhook with the given id.
+ * It expects a JSON payload with the fields of POST /webhooks to change.
+ * The deliveries queued before a webhook is deactivated are not posted.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the update
+ * - data: An object containing the updated webhook
+ *
+ * @throws {NotFoundError} - If the webhook is not found
+ */
+webhooks.patch(
+  "/:id",
+  describeRoute({
+    summary: "Update a webhook",
+    responses: {
+      200: {
+        description: "The updated webhook",
+        schema: successSchema({ webhook: webhookSchema }),
+      },
+      404: { description: "The webhook is not found" },
+    },
+  }),
+  validate(updateWebhookSchema),
+  async (context) => {
+    const webhook = await findUserWebhook(context);
+    const changes = updateWebhookSchema.parse(await context.req.json());
+
+    Object.assign(webhook, changes);
+    webhook.updatedAt = new Date();
+
+    await AppDataSource.manager.save(webhook);
+
+    return context.json({
+      status: "success",
+      data: { webhook },
+    });
+  },
+);
+
+/**
+ * Delete a webhook
+ *
+ * @description
+ * This handler deletes the webhook with the given id along with its
+ * delivery log. Its pending deliveries are not posted.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the deletion
+ * - data: An object containing the deleted webhook
+ *
+ * @throws {NotFoundError} - If the webhook is not found
+ */
+webhooks.delete(
+  "/:id",
+  describeRoute({
+    summary: "Delete a webhook",
+    responses: {
+      200: {
+        description: "The deleted webhook",
+        schema: successSchema({ webhook: webhookSchema }),
+      },
+      404: { description: "The webhook is not found" },
+    },
+  }),
+  async (context) => {
+    const webhook = await findUserWebhook(context);
+
+    await AppDataSource.manager.remove(webhook);
+
+    return context.json({
+      status: "success",
+      data: { webhook },
+    });
+  },
+);
+
+/**
+ * List the deliveries of a webhook
+ *
+ * @description
+ * This handler lists the delivery log of the webhook with the given id,
+ * newest first, with the outcome of the last attempt of each delivery.
+ * It accepts the following query parameters:
+ * - per_page: The number of deliveries per page, 20 by default and 100 at most
+ * - page: The page number, 1 by default
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the deliveries
+ * - meta: An object containing the total number of deliveries, the page,
+ *   perPage and pageCount
+ *
+ * @throws {NotFoundError} - If the webhook is not found
+ */
+webhooks.get(
+  "/:id/deliveries",
+  describeRoute({
+    summary: "List the deliveries of a webhook",
+    responses: {
+      200: {
+        description: "A page of the deliveries, newest first",
+        schema: successSchema({
+          deliveries: z.array(webhookDeliverySchema),
+        }).extend({ meta: pageMetaSchema }),
+      },
+      404: { description: "The webhook is not found" },
+    },
+  }),
+  validate(deliveryPageQuery, "query"),
+  async (context) => {
+    const webhook = await findUserWebhook(context);
+    const { page, per_page } = deliveryPageQuery.parse(context.req.query());
+    const [deliveries, total] = await AppDataSource.manager.findAndCount(
+      WebhookDelivery,
+      {
+        where: { webhook: { id: webhook.id } },
+        order: { createdAt: "DESC", id: "DESC" },
+        skip: (page - 1) * per_page,
+        take: per_page,
+      },
+    );
+
+    return context.json({
+      status: "success",
+      data: { deliveries },
+      meta: {
+        total,
+        page,
+        perPage: per_page,
+        pageCount: Math.ceil(total / per_page),
+      },
+    });
+  },
+);
+
+/**
+ * Send a test event to a webhook
+ *
+ * @description
+ * This handler posts a webhook.test event to the webhook with the given id,
+ * even when it is inactive, and waits for the endpoint. The test delivery
+ * is not retried, and is recorded in the delivery log.
+ *
+ * @returns {Object} - The JSON response object with the following properties:
+ * - status: A string indicating the success of the request
+ * - data: An object containing the delivery, succeeded or failed
+ *
+ * @throws {NotFoundError} - If the webhook is not found
+ */
+webhooks.post(
+  "/:id/test",
+  describeRoute({
+    summary: "Send a test event to a webhook",
+    description:
+      "The delivery is posted right away and not retried, whether the endpoint answered or not is told by its status.",
+    responses: {
+      200: {
+        description: "The test delivery",
+        schema: successSchema({ delivery: webhookDeliverySchema }),
+      },
+      404: { description: "The webhook is not found" },
+    },
+  }),
+  async (context) => {
+    const webhook = await findUserWebhook(context);
+    const delivery = await AppDataSource.manager.save(
+      createWebhookDelivery(webhook, WEBHOOK_TEST_EVENT, {
+        webhook: { id: webhook.id, url: webhook.url },
+      }),
+    );
+
+    await sendWebhookDelivery(delivery, true);
+
+    return context.json({
+      status: "success",
+      data: { delivery },
+    });
+  },
+);
+
+export default webhooks;
@@ -1,30 +1,23 @@
 /**
  * This is the entry point of the application.
- * It initializes the database connection and starts the server.
+ * It initializes the database connection, starts the server and the job worker.
  */
 import { serve } from "@hono/node-server";
-import { Hono } from "hono";
-import { AppDataSource } from "./data-source";
-import { auth } from "./handlers";
-import tasks from "./handlers/tasks.handler";
-import { JwtTokenExpired } from "hono/utils/jwt/types";
+import { AppDataSource, isSchemaSynchronized } from "./data-source";
+import app from "./app";
+import { startWorker } from "./jobs";
 
 // Initialize the database connection
 AppDataSource.initialize()
   .then(async () => {
-    // Create a new instance of Hono
-    const app = new Hono();
-
-    app.onError((err, c) => {
-      if (err instanceof JwtTokenExpired) {
-        return c.json({ message: "Token expired" }, 401);
-      }
-      return c.body(err, 500);
-    });
-
-    // Define the root route and associate it with the user router
-    app.route("/auth", auth);
-    app.route("/tasks", tasks);
+    // Refuse to serve a database whose schema is behind the migrations
+    if (!isSchemaSynchronized && (await AppDataSource.showMigrations())) {
+      console.error(
+        "There are pending migrations, run `pnpm migration:run` before starting the server",
+      );
+      await AppDataSource.destroy();
+      process.exit(1);
+    }
 
     // Specify the port on which the server will run
     const port = 3000;
@@ -37,5 +30,8 @@ AppDataSource.initialize()
       fetch: app.fetch,
       port,
     });
+
+    // Run the background jobs in the same process
+    startWorker();
   })
   .catch((error) => console.log("this", error));
@@ -0,0 +1,115 @@
+/**
+ * The recurring job sending the daily digest of their open tasks to the
+ * users who opted in.
+ *
+ * @description
+ * The job runs every hour, and sends the digest of the day once the digest
+ * hour of the user has passed, in UTC. The digest lists the open tasks
+ * assigned to the user and the unassigned tasks the user owns, among the
+ * tasks the user can still see, and is not sent when there is none nor to a
+ * disabled user.
+ *
+ * @module jobs/daily-digest
+ */
+import { IsNull, LessThanOrEqual } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { dailyDigestMail } from "../mail";
+import {
+  NotificationPreference,
+  NotificationType,
+  Task,
+  TaskStatus,
+} from "../models";
+import { whereTaskVisible } from "../policies/task.policy";
+import { registerJob } from "./job.queue";
+import { queueMail } from "./send-mail.job";
+import { getTaskUrl, recordNotification } from "./notifications";
+
+/**
+ * The name of the job
+ */
+export const DAILY_DIGEST_JOB = "daily-digest";
+
+/**
+ * The largest number of tasks listed in a digest
+ */
+const DIGEST_MAX_TASKS = 20;
+
+/**
+ * Compares tasks by due date, the tasks without one last, then by creation date
+ *
+ * @param {Task} a - The first task
+ * @param {Task} b - The second task
+ * @returns {number} - The order of the tasks
+ */
+const compareDueDates = (a: Task, b: Task): number => {
+  const aDueAt = a.dueAt ? a.dueAt.getTime() : Infinity;
+  const bDueAt = b.dueAt ? b.dueAt.getTime() : Infinity;
+
+  if (aDueAt !== bDueAt) {
+    return aDueAt < bDueAt ? -1 : 1;
+  }
+
+  return a.createdAt.getTime() - b.createdAt.getTime();
+};
+
+/**
+ * Queues the digests of the users whose digest hour has passed today
+ *
+ * @param {Date} now - The current date, given by tests
+ */
+export const sendDailyDigests = async (now = new Date()) => {
+  const day = now.toISOString().slice(0, 10);
+
+  const preferences = await AppDataSource.manager.find(NotificationPreference, {
+    where: {
+      dailyDigest: true,
+      digestHour: LessThanOrEqual(now.getUTCHours()),
+      user: { disabledAt: IsNull() },
+    },
+    relations: { user: true },
+  });
+
+  for (const { user } of preferences) {
+    // A former member of a project no longer gets the tasks of the project
+    const tasks = await whereTaskVisible(
+      AppDataSource.manager
+        .createQueryBuilder(Task, "task")
+        .where("task.status != :done", { done: TaskStatus.Done })
+        .andWhere(
+          "(task.assignee = :userId OR (task.user = :userId AND task.assignee IS NULL))",
+          { userId: user.id },
+        ),
+      "task",
+      user,
+    ).getMany();
+
+    if (tasks.length === 0) {
+      continue;
+    }
+
+    if (!(await recordNotification(user, NotificationType.Digest, day))) {
+      continue;
+    }
+
+    tasks.sort(compareDueDates);
+
+    await queueMail(
+      user.email,
+      dailyDigestMail({
+        firstName: user.firstName,
+        tasks: tasks.slice(0, DIGEST_MAX_TASKS).map((task) => ({
+          title: task.title,
+          dueAt: task.dueAt,
+          isOverdue: !!task.dueAt && task.dueAt.getTime() <= now.getTime(),
+          url: getTaskUrl(task),
+        })),
+        remaining: Math.max(tasks.length - DIGEST_MAX_TASKS, 0),
+      }),
+    );
+  }
+};
+
+registerJob(DAILY_DIGEST_JOB, () => sendDailyDigests(), {
+  every: 60 * 60 * 1000,
+});
@@ -0,0 +1,76 @@
+/**
+ * The job posting a delivery to its webhook, so that changes do not wait
+ * for the endpoints and a failed delivery is retried with backoff.
+ *
+ * @module jobs/deliver-webhook
+ */
+import { EntityManager } from "typeorm";
+import { z } from "zod";
+import { AppDataSource } from "../data-source";
+import { WebhookDelivery, WebhookDeliveryStatus } from "../models";
+import { sendWebhookDelivery } from "../webhooks/webhook.delivery";
+import { enqueueJob, registerJob } from "./job.queue";
+
+/**
+ * The name of the job
+ */
+export const DELIVER_WEBHOOK_JOB = "deliver-webhook";
+
+/**
+ * The number of attempts of a delivery before it is marked as failed
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 6;
+
+/**
+ * The payload of the job: the delivery to post
+ */
+const deliverWebhookPayload = z.object({ deliveryId: z.number().int() });
+
+registerJob(
+  DELIVER_WEBHOOK_JOB,
+  async (payload) => {
+    const { deliveryId } = deliverWebhookPayload.parse(payload);
+
+    const delivery = await AppDataSource.manager.findOne(WebhookDelivery, {
+      where: { id: deliveryId },
+      relations: { webhook: true },
+    });
+
+    // The webhook was deleted with its deliveries, or the delivery is over
+    if (!delivery || delivery.status !== WebhookDeliveryStatus.Pending) {
+      return;
+    }
+
+    if (!delivery.webhook.active) {
+      delivery.status = WebhookDeliveryStatus.Failed;
+      delivery.error = "The webhook was deactivated";
+      await AppDataSource.manager.save(delivery);
+      return;
+    }
+
+    const { status, error } = await sendWebhookDelivery(
+      delivery,
+      delivery.attempts + 1 >= WEBHOOK_MAX_ATTEMPTS,
+    );
+
+    // Fail the job so that the queue retries it after a backoff
+    if (status === WebhookDeliveryStatus.Pending) {
+      throw new Error(error);
+    }
+  },
+  { maxAttempts: WEBHOOK_MAX_ATTEMPTS },
+);
+
+/**
+ * Queues a delivery to be posted by the worker
+ *
+ * @param {EntityManager} manager - The entity manager of the transaction
+ * creating the delivery
+ * @param {number} deliveryId - The id of the delivery
+ */
+export const queueWebhookDelivery = async (
+  manager: EntityManager,
+  deliveryId: number,
+) => {
+  await enqueueJob(DELIVER_WEBHOOK_JOB, { deliveryId }, { manager });
+};
@@ -0,0 +1,42 @@
+import {
+  enqueueJob,
+  processNextJob,
+  registerJob,
+  scheduleRecurringJobs,
+} from "./job.queue";
+import { startWorker } from "./job.worker";
+import { queueMail, SEND_MAIL_JOB } from "./send-mail.job";
+import { PURGE_REFRESH_TOKENS_JOB } from "./purge-refresh-tokens.job";
+import { sendTaskReminders, TASK_REMINDERS_JOB } from "./task-reminders.job";
+import { DAILY_DIGEST_JOB, sendDailyDigests } from "./daily-digest.job";
+import {
+  getTrashRetentionDays,
+  purgeTrash,
+  PURGE_TRASH_JOB,
+} from "./purge-trash.job";
+import {
+  DELIVER_WEBHOOK_JOB,
+  queueWebhookDelivery,
+  WEBHOOK_MAX_ATTEMPTS,
+} from "./deliver-webhook.job";
+
+export {
+  enqueueJob,
+  processNextJob,
+  registerJob,
+  scheduleRecurringJobs,
+  startWorker,
+  queueMail,
+  SEND_MAIL_JOB,
+  PURGE_REFRESH_TOKENS_JOB,
+  sendTaskReminders,
+  TASK_REMINDERS_JOB,
+  sendDailyDigests,
+  DAILY_DIGEST_JOB,
+  getTrashRetentionDays,
+  purgeTrash,
+  PURGE_TRASH_JOB,
+  DELIVER_WEBHOOK_JOB,
+  queueWebhookDelivery,
+  WEBHOOK_MAX_ATTEMPTS,
+};
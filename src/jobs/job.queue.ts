@@ -0,0 +1,223 @@
+/**
+ * The background job queue, stored in the jobs table of the database.
+ *
+ * @description
+ * Jobs are enqueued by name with a JSON payload, and run by the handler
+ * registered under that name. A failed job is retried with an exponential
+ * backoff until it reaches its maximum attempts, then it is dead and kept
+ * in the table for inspection. A job registered with an interval is
+ * recurring: it is enqueued again every time it finishes.
+ *
+ * Jobs are claimed with a conditional update, so that several workers can
+ * share the queue without running a job twice. A job that stays running
+ * longer than the lock timeout, for example because its worker crashed,
+ * is claimed again.
+ *
+ * @module jobs/queue
+ */
+import { EntityManager, In } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { Job, JobStatus } from "../models";
+
+/**
+ * Runs a job with its payload, and rejects when the job fails
+ *
+ * @description
+ * The payload is read back from the database, so the handler validates it
+ * before using it.
+ */
+export type JobHandler = (payload: unknown) => Promise<void>;
+
+/**
+ * The options of a registered job
+ */
+export interface JobOptions {
+  /**
+   * The interval in milliseconds of a recurring job
+   */
+  every?: number;
+  /**
+   * The number of attempts after which a failed job is dead, 5 by default
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * The delay before the first retry of a failed job, doubled after every attempt
+ */
+const RETRY_BACKOFF = 30 * 1000;
+
+/**
+ * The longest delay between two attempts of a failed job
+ */
+const MAX_RETRY_BACKOFF = 60 * 60 * 1000;
+
+/**
+ * The time after which a running job is considered abandoned
+ */
+const LOCK_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * The registered jobs by name
+ */
+const registry: Record<string, { handler: JobHandler; options: JobOptions }> =
+  {};
+
+/**
+ * Registers the handler of a job
+ *
+ * @param {string} name - The name of the job
+ * @param {JobHandler} handler - The function running the job
+ * @param {JobOptions} options - The interval of a recurring job and the maximum attempts
+ */
+export const registerJob = (
+  name: string,
+  handler: JobHandler,
+  options: JobOptions = {},
+) => {
+  registry[name] = { handler, options };
+};
+
+/**
+ * Adds a job to the queue
+ *
+ * @param {string} name - The name of a registered job
+ * @param {unknown} payload - The payload given to the handler
+ * @param {Object} options - The delay in milliseconds before the job can run,
+ * or the date from which it can run, and the entity manager of a transaction
+ * the job is only queued with
+ * @returns {Promise<Job>} - The enqueued job
+ * @throws {Error} - If no job is registered with the name
+ */
+export const enqueueJob = async (
+  name: string,
+  payload: unknown = {},
+  options: { delay?: number; runAt?: Date; manager?: EntityManager } = {},
+): Promise<Job> => {
+  if (!registry[name]) {
+    throw new Error(`Unknown job ${name}`);
+  }
+
+  const now = new Date();
+
+  const job = new Job();
+  job.name = name;
+  job.payload = payload;
+  job.status = JobStatus.Pending;
+  job.attempts = 0;
+  job.maxAttempts = registry[name].options.maxAttempts || 5;
+  job.runAt = options.runAt || new Date(now.getTime() + (options.delay || 0));
+  job.createdAt = now;
+
+  return (options.manager || AppDataSource.manager).save(job);
+};
+
+/**
+ * Enqueues the recurring jobs that are not already pending or running
+ */
+export const scheduleRecurringJobs = async () => {
+  for (const name of Object.keys(registry)) {
+    if (!registry[name].options.every) {
+      continue;
+    }
+
+    const isScheduled = await AppDataSource.manager.existsBy(Job, {
+      name,
+      status: In([JobStatus.Pending, JobStatus.Running]),
+    });
+
+    if (!isScheduled) {
+      await enqueueJob(name);
+    }
+  }
+};
+
+/**
+ * Gets the delay before the next attempt of a failed job
+ *
+ * @param {number} attempts - The number of attempts of the job so far
+ * @returns {number} - The delay in milliseconds
+ */
+const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BACKOFF * Math.pow(2, attempts - 1), MAX_RETRY_BACKOFF);
+
+/**
+ * Claims and runs the next due job
+ *
+ * @param {Date} now - The current date, given by tests
+ * @returns {Promise<boolean>} - Whether a job was found, false when the queue has no due job
+ */
+export const processNextJob = async (now = new Date()): Promise<boolean> => {
+  const job = await AppDataSource.manager
+    .createQueryBuilder(Job, "job")
+    .where(
+      "((job.status = :pending AND job.runAt <= :now) OR (job.status = :running AND job.lockedAt < :staleBefore))",
+      {
+        pending: JobStatus.Pending,
+        running: JobStatus.Running,
+        now,
+        staleBefore: new Date(now.getTime() - LOCK_TIMEOUT),
+      },
+    )
+    .orderBy("job.runAt", "ASC")
+    .addOrderBy("job.id", "ASC")
+    .getOne();
+
+  if (!job) {
+    return false;
+  }
+
+  // Claim the job, unless another worker claimed it first
+  const claim = await AppDataSource.manager.update(
+    Job,
+    { id: job.id, status: job.status, attempts: job.attempts },
+    { status: JobStatus.Running, lockedAt: now, attempts: job.attempts + 1 },
+  );
+
+  if (claim.affected === 0) {
+    return true;
+  }
+
+  job.attempts += 1;
+
+  const registered = registry[job.name];
+  let isFinished = true;
+
+  try {
+    if (!registered) {
+      throw new Error(`Unknown job ${job.name}`);
+    }
+
+    await registered.handler(job.payload);
+
+    await AppDataSource.manager.update(Job, job.id, {
+      status: JobStatus.Completed,
+      lockedAt: null,
+      lastError: null,
+      finishedAt: new Date(),
+    });
+  } catch (error) {
+    const isDead = !registered || job.attempts >= job.maxAttempts;
+    isFinished = isDead;
+
+    // The failure is kept on the job, with the number of attempts
+    await AppDataSource.manager.update(Job, job.id, {
+      status: isDead ? JobStatus.Dead : JobStatus.Pending,
+      lockedAt: null,
+      lastError: error instanceof Error ? error.message : String(error),
+      runAt: isDead
+        ? job.runAt
+        : new Date(now.getTime() + getRetryDelay(job.attempts)),
+      finishedAt: isDead ? new Date() : null,
+    });
+  }
+
+  // Run a recurring job again after its interval, whether it completed or died
+  if (isFinished && registered?.options.every) {
+    await enqueueJob(job.name, job.payload, {
+      runAt: new Date(now.getTime() + registered.options.every),
+    });
+  }
+
+  return true;
+};
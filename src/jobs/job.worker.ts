@@ -0,0 +1,49 @@
+/**
+ * The worker running the jobs of the queue in the background of the server.
+ *
+ * @module jobs/worker
+ */
+import { processNextJob, scheduleRecurringJobs } from "./job.queue";
+
+/**
+ * Starts the worker loop
+ *
+ * @description
+ * The worker enqueues the recurring jobs that are not scheduled yet, then
+ * runs the due jobs one at a time. When the queue has no due job, it polls
+ * again after the poll interval, WORKER_POLL_INTERVAL milliseconds or one
+ * second by default. Errors of the loop itself, for example a lost database
+ * connection, are logged and the loop goes on.
+ *
+ * @param {Object} options - The poll interval in milliseconds
+ * @returns {Function} - Stops the worker after its current job
+ */
+export const startWorker = (options: { pollInterval?: number } = {}) => {
+  const pollInterval =
+    options.pollInterval || parseInt(process.env.WORKER_POLL_INTERVAL) || 1000;
+  let isStopped = false;
+  let timer: NodeJS.Timeout;
+
+  const poll = async () => {
+    try {
+      while (!isStopped && (await processNextJob())) {
+        // Run the due jobs until the queue is drained
+      }
+    } catch (error) {
+      console.error("Job worker error:", error);
+    }
+
+    if (!isStopped) {
+      timer = setTimeout(poll, pollInterval);
+    }
+  };
+
+  scheduleRecurringJobs()
+    .catch((error) => console.error("Job worker error:", error))
+    .then(poll);
+
+  return () => {
+    isStopped = true;
+    clearTimeout(timer);
+  };
+};
@@ -0,0 +1,102 @@
+/**
+ * The helpers shared by the jobs notifying the users of their tasks.
+ *
+ * @module jobs/notifications
+ */
+import { In } from "typeorm";
+import { AppDataSource } from "../data-source";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  Notification,
+  NotificationPreference,
+  NotificationType,
+  Task,
+  User,
+} from "../models";
+
+/**
+ * The notification preferences of a user
+ */
+export type NotificationPreferences = typeof DEFAULT_NOTIFICATION_PREFERENCES;
+
+/**
+ * Gets the notification preferences of users
+ *
+ * @param {number[]} userIds - The ids of the users
+ * @returns {Promise<Record<number, NotificationPreferences>>} - The preferences by user id,
+ * the default ones for the users who have not changed them
+ */
+export const getNotificationPreferences = async (
+  userIds: number[],
+): Promise<Record<number, NotificationPreferences>> => {
+  const preferences: Record<number, NotificationPreferences> = {};
+
+  for (const userId of userIds) {
+    preferences[userId] = DEFAULT_NOTIFICATION_PREFERENCES;
+  }
+
+  if (userIds.length === 0) {
+    return preferences;
+  }
+
+  const saved = await AppDataSource.manager.find(NotificationPreference, {
+    where: { user: { id: In(userIds) } },
+    relations: { user: true },
+  });
+
+  for (const preference of saved) {
+    preferences[preference.user.id] = preference;
+  }
+
+  return preferences;
+};
+
+/**
+ * Records a notification unless it was already sent
+ *
+ * @description
+ * The notification is recorded before its mail is queued, so that a failure
+ * can lose a notification but never send it twice. The unique index of the
+ * notifications table guards against two workers recording it at once.
+ *
+ * @param {User} user - The user to notify
+ * @param {NotificationType} type - The kind of the notification
+ * @param {string} windowKey - The window the notification covers
+ * @param {Task} task - The task the notification is about, if any
+ * @returns {Promise<boolean>} - Whether the notification should be sent, false when it already was
+ */
+export const recordNotification = async (
+  user: User,
+  type: NotificationType,
+  windowKey: string,
+  task: Task = null,
+): Promise<boolean> => {
+  const isSent = await AppDataSource.manager.existsBy(Notification, {
+    user: { id: user.id },
+    type,
+    windowKey,
+  });
+
+  if (isSent) {
+    return false;
+  }
+
+  await AppDataSource.manager.insert(Notification, {
+    user,
+    task,
+    type,
+    windowKey,
+    sentAt: new Date(),
+  });
+
+  return true;
+};
+
+/**
+ * Gets the URL of a task in the application
+ *
+ * @param {Task} task - The task
+ * @returns {string} - The URL of the task
+ */
+export const getTaskUrl = (task: Task): string =>
+  `${process.env.APP_URL}/tasks/${task.id}`;
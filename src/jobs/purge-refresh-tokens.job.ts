@@ -0,0 +1,25 @@
+/**
+ * The recurring job deleting the expired refresh tokens, which can no
+ * longer be used nor listed as sessions.
+ *
+ * @module jobs/purge-refresh-tokens
+ */
+import { LessThan } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { RefreshToken } from "../models/refresh-token.model";
+import { registerJob } from "./job.queue";
+
+/**
+ * The name of the job
+ */
+export const PURGE_REFRESH_TOKENS_JOB = "purge-refresh-tokens";
+
+registerJob(
+  PURGE_REFRESH_TOKENS_JOB,
+  async () => {
+    await AppDataSource.manager.delete(RefreshToken, {
+      expiredAt: LessThan(new Date()),
+    });
+  },
+  { every: 60 * 60 * 1000 },
+);
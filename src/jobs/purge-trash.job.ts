@@ -0,0 +1,50 @@
+/**
+ * The recurring job deleting for good the tasks that have been in the
+ * trash for longer than its retention period.
+ *
+ * @module jobs/purge-trash
+ */
+import { LessThan } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { Task } from "../models";
+import { registerJob } from "./job.queue";
+
+/**
+ * The name of the job
+ */
+export const PURGE_TRASH_JOB = "purge-trash";
+
+/**
+ * The number of days the tasks stay in the trash when TRASH_RETENTION_DAYS is not set
+ */
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Gets the number of days the tasks stay in the trash before they are deleted
+ *
+ * @returns {number} - The TRASH_RETENTION_DAYS environment variable, or 30 days
+ */
+export const getTrashRetentionDays = (): number =>
+  parseInt(process.env.TRASH_RETENTION_DAYS) || DEFAULT_TRASH_RETENTION_DAYS;
+
+/**
+ * Deletes the tasks that have been in the trash for longer than its retention period
+ *
+ * @description
+ * The tasks are removed through the entity manager, so that their deletion
+ * is recorded in the activity log. Their subtasks are deleted with them by
+ * the database.
+ *
+ * @param {Date} now - The date the retention period is counted back from
+ */
+export const purgeTrash = async (now: Date = new Date()) => {
+  const retention = getTrashRetentionDays() * 24 * 60 * 60 * 1000;
+  const expiredTasks = await AppDataSource.manager.find(Task, {
+    where: { deletedAt: LessThan(new Date(now.getTime() - retention)) },
+    withDeleted: true,
+  });
+
+  await AppDataSource.manager.remove(expiredTasks);
+};
+
+registerJob(PURGE_TRASH_JOB, () => purgeTrash(), { every: 60 * 60 * 1000 });
@@ -0,0 +1,51 @@
+/**
+ * The job sending a mail, so that requests do not wait for the mail server
+ * and a failed delivery is retried.
+ *
+ * @module jobs/send-mail
+ */
+import { z } from "zod";
+import { Mail, sendMail } from "../mail";
+import { enqueueJob, registerJob } from "./job.queue";
+
+/**
+ * The name of the job
+ */
+export const SEND_MAIL_JOB = "send-mail";
+
+/**
+ * The payload of the job: the recipient, the rendered mail and the timestamp
+ * after which the link of the mail no longer works
+ */
+const sendMailPayload = z.object({
+  to: z.string(),
+  mail: z.object({ subject: z.string(), text: z.string(), html: z.string() }),
+  expiresAt: z.number().optional(),
+});
+
+registerJob(SEND_MAIL_JOB, async (payload) => {
+  const { to, mail, expiresAt } = sendMailPayload.parse(payload);
+
+  // Do not send a mail retried past the expiration of its link
+  if (expiresAt && expiresAt <= Date.now()) {
+    return;
+  }
+
+  await sendMail(to, mail as Mail);
+});
+
+/**
+ * Queues a mail to be sent by the worker
+ *
+ * @param {string} to - The email address of the recipient
+ * @param {Mail} mail - The mail rendered by a template
+ * @param {Date} expiresAt - The date after which the link of the mail no
+ * longer works, and the mail is not sent anymore
+ */
+export const queueMail = async (to: string, mail: Mail, expiresAt?: Date) => {
+  await enqueueJob(SEND_MAIL_JOB, {
+    to,
+    mail,
+    expiresAt: expiresAt && expiresAt.getTime(),
+  });
+};
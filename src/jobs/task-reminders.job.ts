@@ -0,0 +1,120 @@
+/**
+ * The recurring job reminding the users of the tasks that are due soon,
+ * and telling them when a task becomes overdue.
+ *
+ * @description
+ * The reminder of a task goes to its assignee, or to its owner when it is
+ * not assigned, according to the preferences of that user. Nothing is sent
+ * to a disabled user, nor to an owner who left the project of the task.
+ * A task is reminded once per due date: changing the due date arms the
+ * reminders again. A task that is overdue by more than a day when it is
+ * first seen, for example because the worker was stopped, is not reminded
+ * anymore.
+ *
+ * @module jobs/task-reminders
+ */
+import { Between, Not } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { taskReminderMail } from "../mail";
+import {
+  MAX_REMINDER_HOURS,
+  NotificationType,
+  Task,
+  TaskStatus,
+} from "../models";
+import { getProjectRole } from "../policies/task.policy";
+import { registerJob } from "./job.queue";
+import { queueMail } from "./send-mail.job";
+import {
+  getNotificationPreferences,
+  getTaskUrl,
+  recordNotification,
+} from "./notifications";
+
+/**
+ * The name of the job
+ */
+export const TASK_REMINDERS_JOB = "task-reminders";
+
+/**
+ * One hour in milliseconds
+ */
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * How long after its due date a task is still told to be overdue
+ */
+const OVERDUE_WINDOW = 24 * HOUR;
+
+/**
+ * Queues the reminders of the tasks that are due soon or became overdue
+ *
+ * @param {Date} now - The current date, given by tests
+ */
+export const sendTaskReminders = async (now = new Date()) => {
+  const tasks = await AppDataSource.manager.find(Task, {
+    where: {
+      status: Not(TaskStatus.Done),
+      dueAt: Between(
+        new Date(now.getTime() - OVERDUE_WINDOW),
+        new Date(now.getTime() + MAX_REMINDER_HOURS * HOUR),
+      ),
+    },
+    relations: { user: true, assignee: true },
+  });
+
+  const preferences = await getNotificationPreferences(
+    tasks.map((task) => (task.assignee || task.user).id),
+  );
+
+  for (const task of tasks) {
+    const recipient = task.assignee || task.user;
+    const preference = preferences[recipient.id];
+    const isOverdue = task.dueAt.getTime() <= now.getTime();
+
+    if (recipient.disabledAt) {
+      continue;
+    }
+
+    // The owner of a project task may have left the project since
+    if (task.projectId && !(await getProjectRole(recipient, task.projectId))) {
+      continue;
+    }
+
+    if (isOverdue && !preference.overdueReminders) {
+      continue;
+    }
+
+    if (
+      !isOverdue &&
+      (!preference.dueReminders ||
+        task.dueAt.getTime() > now.getTime() + preference.reminderHours * HOUR)
+    ) {
+      continue;
+    }
+
+    const isNew = await recordNotification(
+      recipient,
+      isOverdue ? NotificationType.Overdue : NotificationType.DueSoon,
+      `${task.id}:${task.dueAt.getTime()}`,
+      task,
+    );
+
+    if (isNew) {
+      await queueMail(
+        recipient.email,
+        taskReminderMail({
+          firstName: recipient.firstName,
+          title: task.title,
+          dueAt: task.dueAt,
+          isOverdue,
+          url: getTaskUrl(task),
+        }),
+      );
+    }
+  }
+};
+
+registerJob(TASK_REMINDERS_JOB, () => sendTaskReminders(), {
+  every: 15 * 60 * 1000,
+});
@@ -0,0 +1,26 @@
+/**
+ * The transport that prints the text of the mails to the console,
+ * for local development without a mail server.
+ *
+ * @module mail/console-transport
+ */
+import { MailTransport } from "./mail.transport";
+
+/**
+ * Creates the console mail transport
+ *
+ * @returns {MailTransport} - The transport logging every mail
+ */
+export const consoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.log(
+      [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+      ].join("\n"),
+    );
+  },
+});
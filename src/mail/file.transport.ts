@@ -0,0 +1,41 @@
+/**
+ * The transport that writes the mails as .eml files to an outbox directory,
+ * where they can be opened with a mail client.
+ * The directory is MAIL_OUTBOX_DIR, "outbox" by default.
+ *
+ * @module mail/file-transport
+ */
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import { join } from "path";
+import { createTransport } from "nodemailer";
+import { MailTransport } from "./mail.transport";
+
+/**
+ * Creates the file mail transport
+ *
+ * @param {string} directory - The outbox directory, created when missing
+ * @returns {MailTransport} - The transport writing every mail to the directory
+ */
+export const fileTransport = (
+  directory = process.env.MAIL_OUTBOX_DIR || "outbox",
+): MailTransport => {
+  // Build the raw message without sending it anywhere
+  const transporter = createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    send: async (message) => {
+      const { message: raw } = await transporter.sendMail(message);
+
+      await fs.mkdir(directory, { recursive: true });
+      await fs.writeFile(
+        join(directory, `${Date.now()}-${randomUUID()}.eml`),
+        raw as Buffer,
+      );
+    },
+  };
+};
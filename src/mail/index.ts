@@ -0,0 +1,30 @@
+import { Mail, MailMessage, MailTransport } from "./mail.transport";
+import { getMailTransport, sendMail, setMailTransport } from "./mail.service";
+import { smtpTransport } from "./smtp.transport";
+import { consoleTransport } from "./console.transport";
+import { fileTransport } from "./file.transport";
+import { verificationMail } from "./templates/verification.template";
+import { passwordResetMail } from "./templates/password-reset.template";
+import { projectInvitationMail } from "./templates/project-invitation.template";
+import { accountLockedMail } from "./templates/account-locked.template";
+import { taskReminderMail } from "./templates/task-reminder.template";
+import { dailyDigestMail, DigestTask } from "./templates/daily-digest.template";
+
+export {
+  Mail,
+  MailMessage,
+  MailTransport,
+  getMailTransport,
+  sendMail,
+  setMailTransport,
+  smtpTransport,
+  consoleTransport,
+  fileTransport,
+  verificationMail,
+  passwordResetMail,
+  projectInvitationMail,
+  accountLockedMail,
+  taskReminderMail,
+  dailyDigestMail,
+  DigestTask,
+};
@@ -0,0 +1,83 @@
+/**
+ * The service sending the mails of the application.
+ *
+ * @description
+ * The mails are delivered by the transport named by MAIL_TRANSPORT:
+ * "smtp", "console" or "file", "console" by default. The transport is
+ * created on the first mail, and can be replaced, for example by tests.
+ * The sender is MAIL_FROM_ADDRESS.
+ *
+ * @module mail/service
+ */
+import { ServiceUnavailableError } from "../errors";
+import { consoleTransport } from "./console.transport";
+import { fileTransport } from "./file.transport";
+import { Mail, MailTransport } from "./mail.transport";
+import { smtpTransport } from "./smtp.transport";
+
+/**
+ * The transports that can be selected with MAIL_TRANSPORT
+ */
+const TRANSPORTS: Record<string, () => MailTransport> = {
+  smtp: smtpTransport,
+  console: consoleTransport,
+  file: () => fileTransport(),
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Gets the transport delivering the mails
+ *
+ * @returns {MailTransport} - The configured transport
+ * @throws {Error} - If MAIL_TRANSPORT names an unknown transport
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || "console";
+
+    if (!TRANSPORTS[name]) {
+      throw new Error(
+        `Unknown mail transport ${name}, expected one of ${Object.keys(TRANSPORTS).join(", ")}`,
+      );
+    }
+
+    transport = TRANSPORTS[name]();
+  }
+
+  return transport;
+};
+
+/**
+ * Replaces the transport delivering the mails
+ *
+ * @param {MailTransport} nextTransport - The new transport
+ */
+export const setMailTransport = (nextTransport: MailTransport) => {
+  transport = nextTransport;
+};
+
+/**
+ * Sends a mail
+ *
+ * @param {string} to - The email address of the recipient
+ * @param {Mail} mail - The mail rendered by a template
+ * @throws {ServiceUnavailableError} - If the transport fails to deliver the mail
+ */
+export const sendMail = async (to: string, mail: Mail) => {
+  const mailTransport = getMailTransport();
+
+  try {
+    await mailTransport.send({
+      from: process.env.MAIL_FROM_ADDRESS || "info@app.com",
+      to,
+      ...mail,
+    });
+  } catch (error) {
+    console.error("Error sending email:", error);
+    throw new ServiceUnavailableError(
+      "The email could not be sent",
+      "MAIL_DELIVERY_FAILED",
+    );
+  }
+};
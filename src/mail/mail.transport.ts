@@ -0,0 +1,32 @@
+/**
+ * The types shared by the mail service, its transports and its templates.
+ *
+ * @module mail/transport
+ */
+
+/**
+ * The content of a mail, as rendered by a template
+ */
+export interface Mail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * A mail ready to be delivered by a transport
+ */
+export interface MailMessage extends Mail {
+  from: string;
+  to: string;
+}
+
+/**
+ * Delivers mails, for example to an SMTP server
+ *
+ * @description
+ * The promise returned by send rejects when the mail cannot be delivered.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,36 @@
+/**
+ * The transport that delivers the mails to an SMTP server.
+ * The server is configured with SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and SMTP_PASS.
+ *
+ * @module mail/smtp-transport
+ */
+import { createTransport } from "nodemailer";
+import { MailTransport } from "./mail.transport";
+
+/**
+ * Creates the SMTP mail transport
+ *
+ * @returns {MailTransport} - The transport sending to the configured SMTP server
+ * @throws {Error} - If SMTP_HOST is not set
+ */
+export const smtpTransport = (): MailTransport => {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is required by the smtp mail transport");
+  }
+
+  const transporter = createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT) || 587,
+    // Use TLS from the start of the connection, usually on port 465
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    send: async (message) => {
+      await transporter.sendMail(message);
+    },
+  };
+};
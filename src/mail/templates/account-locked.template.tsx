@@ -0,0 +1,50 @@
+/**
+ * The mail telling a user that the account was locked after repeated failed
+ * logins, with a link unlocking it.
+ *
+ * @module mail/templates/account-locked
+ */
+import { Mail } from "../mail.transport";
+import { Button, FallbackLink, Layout, renderMail } from "./layout";
+
+/**
+ * Renders the account locked mail
+ *
+ * @param {Object} params - The first name of the user, the end of the lock and the signed unlock URL
+ * @returns {Mail} - The rendered mail
+ */
+export const accountLockedMail = (params: {
+  firstName: string;
+  lockedUntil: Date;
+  url: string;
+}): Mail => {
+  const subject = "Your account was locked";
+  const lockedUntil = params.lockedUntil.toUTCString();
+
+  return renderMail(
+    subject,
+    <Layout title={subject}>
+      <p>Hi {params.firstName},</p>
+      <p>
+        We locked your account until {lockedUntil} after several failed login
+        attempts. If they were yours, you can unlock it now.
+      </p>
+      <Button href={params.url}>Unlock account</Button>
+      <FallbackLink href={params.url} />
+      <p>
+        If they were not yours, someone may be guessing your password: reset it
+        to keep your account safe.
+      </p>
+    </Layout>,
+    [
+      `Hi ${params.firstName},`,
+      "",
+      `We locked your account until ${lockedUntil} after several failed login attempts.`,
+      "If they were yours, open the link below to unlock it now.",
+      "",
+      params.url,
+      "",
+      "If they were not yours, someone may be guessing your password: reset it to keep your account safe.",
+    ],
+  );
+};
@@ -0,0 +1,81 @@
+/**
+ * The daily digest of the open tasks of a user.
+ *
+ * @module mail/templates/daily-digest
+ */
+import { Mail } from "../mail.transport";
+import { Layout, renderMail } from "./layout";
+
+/**
+ * An open task listed in the digest
+ */
+export interface DigestTask {
+  title: string;
+  dueAt: Date | null;
+  isOverdue: boolean;
+  url: string;
+}
+
+/**
+ * Describes the due date of a task of the digest
+ *
+ * @param {DigestTask} task - The task
+ * @returns {string} - The due date, or that the task has none
+ */
+const describeDueDate = (task: DigestTask): string => {
+  if (!task.dueAt) {
+    return "no due date";
+  }
+
+  return `${task.isOverdue ? "overdue since" : "due"} ${task.dueAt.toUTCString()}`;
+};
+
+/**
+ * Renders the daily digest mail
+ *
+ * @param {Object} params - The first name of the user, the listed tasks and the number of open tasks left out
+ * @returns {Mail} - The rendered mail
+ */
+export const dailyDigestMail = (params: {
+  firstName: string;
+  tasks: DigestTask[];
+  remaining: number;
+}): Mail => {
+  const count = params.tasks.length + params.remaining;
+  const subject = `Your daily digest: ${count} open ${count === 1 ? "task" : "tasks"}`;
+  const more = `And ${params.remaining} more.`;
+
+  return renderMail(
+    subject,
+    <Layout title={subject}>
+      <p>Hi {params.firstName},</p>
+      <p>Here are your open tasks, the soonest due first.</p>
+      <ul>
+        {params.tasks.map((task) => (
+          <li style="margin-bottom: 8px;">
+            <a href={task.url} style="color: #2563eb;">
+              {task.title}
+            </a>{" "}
+            <span style="color: #71717a;">({describeDueDate(task)})</span>
+          </li>
+        ))}
+      </ul>
+      {params.remaining > 0 && <p>{more}</p>}
+      <p style="font-size: 12px; color: #71717a;">
+        You can turn off the digest in your notification preferences.
+      </p>
+    </Layout>,
+    [
+      `Hi ${params.firstName},`,
+      "",
+      "Here are your open tasks, the soonest due first.",
+      "",
+      ...params.tasks.map(
+        (task) => `- ${task.title} (${describeDueDate(task)}): ${task.url}`,
+      ),
+      ...(params.remaining > 0 ? ["", more] : []),
+      "",
+      "You can turn off the digest in your notification preferences.",
+    ],
+  );
+};
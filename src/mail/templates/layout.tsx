@@ -0,0 +1,65 @@
+/**
+ * The layout shared by the HTML mails, with inline styles since most mail
+ * clients ignore style sheets.
+ *
+ * @module mail/templates/layout
+ */
+import { Mail } from "../mail.transport";
+
+/**
+ * Wraps the content of a mail in an HTML document
+ */
+export const Layout = (props: { title: string; children?: unknown }) => (
+  <html>
+    <head>
+      <meta charset="utf-8" />
+      <title>{props.title}</title>
+    </head>
+    <body style="margin: 0; padding: 24px; background: #f4f4f5; font-family: Arial, sans-serif; color: #18181b;">
+      <div style="max-width: 560px; margin: 0 auto; padding: 24px; background: #ffffff; border-radius: 8px;">
+        {props.children}
+      </div>
+    </body>
+  </html>
+);
+
+/**
+ * A link styled as a button
+ */
+export const Button = (props: { href: string; children?: unknown }) => (
+  <p style="margin: 24px 0;">
+    <a
+      href={props.href}
+      style="display: inline-block; padding: 12px 20px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 6px;"
+    >
+      {props.children}
+    </a>
+  </p>
+);
+
+/**
+ * A paragraph for the link of the button, for clients that do not show buttons
+ */
+export const FallbackLink = (props: { href: string }) => (
+  <p style="font-size: 12px; color: #71717a;">
+    If the button does not work, open this link: {props.href}
+  </p>
+);
+
+/**
+ * Renders a mail
+ *
+ * @param {string} subject - The subject of the mail
+ * @param {JSX.Element} body - The HTML body, wrapped in the layout
+ * @param {string[]} lines - The lines of the plain text version
+ * @returns {Mail} - The mail with its HTML and text versions
+ */
+export const renderMail = (
+  subject: string,
+  body: JSX.Element,
+  lines: string[],
+): Mail => ({
+  subject,
+  html: `<!DOCTYPE html>${body}`,
+  text: `${lines.join("\n")}\n`,
+});
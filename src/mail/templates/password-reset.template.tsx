@@ -0,0 +1,44 @@
+/**
+ * The mail with the link resetting the password of a user.
+ *
+ * @module mail/templates/password-reset
+ */
+import { Mail } from "../mail.transport";
+import { Button, FallbackLink, Layout, renderMail } from "./layout";
+
+/**
+ * Renders the password reset mail
+ *
+ * @param {Object} params - The first name of the user and the signed reset URL
+ * @returns {Mail} - The rendered mail
+ */
+export const passwordResetMail = (params: {
+  firstName: string;
+  url: string;
+}): Mail => {
+  const subject = "Reset your password";
+
+  return renderMail(
+    subject,
+    <Layout title={subject}>
+      <p>Hi {params.firstName},</p>
+      <p>
+        We received a request to reset your password. The link expires one hour
+        after your request and can only be used once.
+      </p>
+      <Button href={params.url}>Reset password</Button>
+      <FallbackLink href={params.url} />
+      <p>If you did not request it, you can ignore this email.</p>
+    </Layout>,
+    [
+      `Hi ${params.firstName},`,
+      "",
+      "We received a request to reset your password. Open the link below to choose a new one.",
+      "It expires one hour after your request and can only be used once.",
+      "",
+      params.url,
+      "",
+      "If you did not request it, you can ignore this email.",
+    ],
+  );
+};
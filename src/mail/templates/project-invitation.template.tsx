@@ -0,0 +1,40 @@
+/**
+ * The mail inviting someone to join a project.
+ *
+ * @module mail/templates/project-invitation
+ */
+import { Mail } from "../mail.transport";
+import { Button, FallbackLink, Layout, renderMail } from "./layout";
+
+/**
+ * Renders the project invitation mail
+ *
+ * @param {Object} params - The name of the inviter, the project, the role and the signed invitation URL
+ * @returns {Mail} - The rendered mail
+ */
+export const projectInvitationMail = (params: {
+  inviterName: string;
+  projectName: string;
+  role: string;
+  url: string;
+}): Mail => {
+  const subject = `Invitation to ${params.projectName}`;
+
+  return renderMail(
+    subject,
+    <Layout title={subject}>
+      <p>
+        {params.inviterName} invited you to join <b>{params.projectName}</b> as{" "}
+        {params.role}. The invitation expires in 7 days.
+      </p>
+      <Button href={params.url}>Accept invitation</Button>
+      <FallbackLink href={params.url} />
+    </Layout>,
+    [
+      `${params.inviterName} invited you to join ${params.projectName} as ${params.role}.`,
+      "Open the link below to accept the invitation. It expires in 7 days.",
+      "",
+      params.url,
+    ],
+  );
+};
@@ -0,0 +1,51 @@
+/**
+ * The mail reminding a user of a task that is due soon or overdue.
+ *
+ * @module mail/templates/task-reminder
+ */
+import { Mail } from "../mail.transport";
+import { Button, FallbackLink, Layout, renderMail } from "./layout";
+
+/**
+ * Renders the task reminder mail
+ *
+ * @param {Object} params - The first name of the user, the title and due date of the task, whether it is overdue and the URL of the task
+ * @returns {Mail} - The rendered mail
+ */
+export const taskReminderMail = (params: {
+  firstName: string;
+  title: string;
+  dueAt: Date;
+  isOverdue: boolean;
+  url: string;
+}): Mail => {
+  const subject = params.isOverdue
+    ? `Overdue: ${params.title}`
+    : `Due soon: ${params.title}`;
+  const dueAt = params.dueAt.toUTCString();
+  const sentence = params.isOverdue
+    ? `was due on ${dueAt} and is not done yet.`
+    : `is due on ${dueAt}.`;
+
+  return renderMail(
+    subject,
+    <Layout title={subject}>
+      <p>Hi {params.firstName},</p>
+      <p>
+        Your task <b>{params.title}</b> {sentence}
+      </p>
+      <Button href={params.url}>Open task</Button>
+      <FallbackLink href={params.url} />
+      <p>You can change your reminders in your notification preferences.</p>
+    </Layout>,
+    [
+      `Hi ${params.firstName},`,
+      "",
+      `Your task "${params.title}" ${sentence}`,
+      "",
+      params.url,
+      "",
+      "You can change your reminders in your notification preferences.",
+    ],
+  );
+};
@@ -0,0 +1,40 @@
+/**
+ * The mail with the link verifying the email address of a user.
+ *
+ * @module mail/templates/verification
+ */
+import { Mail } from "../mail.transport";
+import { Button, FallbackLink, Layout, renderMail } from "./layout";
+
+/**
+ * Renders the email verification mail
+ *
+ * @param {Object} params - The first name of the user and the signed verification URL
+ * @returns {Mail} - The rendered mail
+ */
+export const verificationMail = (params: {
+  firstName: string;
+  url: string;
+}): Mail => {
+  const subject = "Verify your email address";
+
+  return renderMail(
+    subject,
+    <Layout title={subject}>
+      <p>Hi {params.firstName},</p>
+      <p>
+        Please confirm your email address. The link expires 10 minutes after
+        your request.
+      </p>
+      <Button href={params.url}>Verify email</Button>
+      <FallbackLink href={params.url} />
+    </Layout>,
+    [
+      `Hi ${params.firstName},`,
+      "",
+      "Please confirm your email address by opening the link below. It expires 10 minutes after your request.",
+      "",
+      params.url,
+    ],
+  );
+};
@@ -1,19 +1,89 @@
 import { MiddlewareHandler } from "hono";
 import { verify } from "hono/jwt";
+import { JwtTokenExpired } from "hono/utils/jwt/types";
+import { IsNull } from "typeorm";
 import { AppDataSource } from "../data-source";
 import { User } from "../models";
-import { setUser } from "../contexts/user.context";
+import { RefreshToken } from "../models/refresh-token.model";
+import { setSessionId, setUser, UserEnv } from "../contexts/user.context";
+import { UnauthorizedError } from "../errors";
+import { documentHandler } from "../openapi/route-doc";
 
-export const authentication = (): MiddlewareHandler => {
-  return async (ctx, next) => {
+/**
+ * Finds the user of an active session
+ *
+ * @param {string} sessionId - The session of the token, its refresh token family
+ * @param {number} userId - The id of the user of the token
+ * @returns {Promise<User>} - The user of the session
+ *
+ * @throws {UnauthorizedError} - If the session has been logged out or
+ * revoked, or the user no longer exists or has been disabled
+ */
+export const findSessionUser = async (
+  sessionId: string,
+  userId: number,
+): Promise<User> => {
+  // Reject the token if its session has been logged out or revoked
+  const hasActiveSession = await AppDataSource.manager.existsBy(RefreshToken, {
+    family: sessionId,
+    revokedAt: IsNull(),
+  });
+
+  if (!hasActiveSession) {
+    throw new UnauthorizedError("Session revoked", "SESSION_REVOKED");
+  }
+
+  // Reject the token if its user no longer exists
+  const user = await AppDataSource.manager.findOneBy(User, { id: userId });
+
+  if (!user) {
+    throw new UnauthorizedError("User not found");
+  }
+
+  // Reject the token if its user has been disabled in the meantime
+  if (user.disabledAt) {
+    throw new UnauthorizedError("Account disabled", "ACCOUNT_DISABLED");
+  }
+
+  return user;
+};
+
+export const authentication = (): MiddlewareHandler<UserEnv> => {
+  const middleware: MiddlewareHandler<UserEnv> = async (ctx, next) => {
     const token: string = ctx.req.header().authorization?.split(" ")[1];
-    const decodedPayload = await verify(token, process.env.JWT_SECRET);
-    const user = await AppDataSource.manager.findOneBy(User, {
-      email: String(decodedPayload.email), // decodedPayload.email
-    });
 
-    setUser(user);
+    if (!token) {
+      throw new UnauthorizedError("Missing token");
+    }
+
+    let decodedPayload: Record<string, unknown>;
+
+    try {
+      decodedPayload = await verify(token, process.env.JWT_SECRET);
+    } catch (error) {
+      if (error instanceof JwtTokenExpired) {
+        throw new UnauthorizedError("Token expired", "TOKEN_EXPIRED");
+      }
+
+      throw new UnauthorizedError("Invalid token");
+    }
+
+    const sessionId = String(decodedPayload.sessionId);
+    const user = await findSessionUser(
+      sessionId,
+      Number(decodedPayload.userId),
+    );
+
+    setUser(ctx, user);
+    setSessionId(ctx, sessionId);
 
     await next();
   };
+
+  return documentHandler(middleware, {
+    security: true,
+    responses: {
+      401: { description: "The token is missing, invalid, expired or revoked" },
+    },
+  });
 };
@@ -0,0 +1,108 @@
+import { Context, MiddlewareHandler } from "hono";
+import { getRateLimitStore } from "../rate-limit";
+import { getClientIp } from "../utils";
+import { TooManyRequestsError } from "../errors";
+import { documentHandler } from "../openapi/route-doc";
+
+/**
+ * The options of a rate limit
+ */
+export interface RateLimitOptions {
+  /**
+   * The name of the limit, which prefixes its keys so limits never share a counter
+   */
+  name: string;
+  /**
+   * The number of requests allowed in a window
+   */
+  limit: number;
+  /**
+   * The length of a window in milliseconds
+   */
+  window: number;
+  /**
+   * Gets the key the request is counted by, or null to not count it
+   */
+  key: (context: Context) => string | null | Promise<string | null>;
+}
+
+/**
+ * Counts the requests by IP address of the client
+ *
+ * @param {Context} context - The Hono context object
+ * @returns {string} - The IP address, shared by the clients whose address is unknown
+ */
+export const ipKey = (context: Context): string =>
+  getClientIp(context) || "unknown";
+
+/**
+ * Counts the requests by the email of their JSON body
+ *
+ * @param {Context} context - The Hono context object
+ * @returns {Promise<string | null>} - The lowercased email, or null when the
+ * body has none and is left to the validation
+ */
+export const emailKey = async (context: Context): Promise<string | null> => {
+  try {
+    const { email } = await context.req.json();
+    return typeof email === "string" ? email.toLowerCase() : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Rate limit middleware for Hono framework
+ *
+ * @description
+ * Counts the requests by key in fixed windows, with the store of the
+ * rate-limit module. Every counted response tells the client about the limit
+ * with the RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset headers,
+ * the reset being in seconds. When a route has several limits, the headers
+ * are those of the last one.
+ *
+ * @param {RateLimitOptions} options - The name, limit, window and key of the limit
+ * @return {MiddlewareHandler} The middleware function
+ *
+ * @throws {TooManyRequestsError} - If the key made more requests than the limit in the window
+ */
+export const rateLimit = (options: RateLimitOptions): MiddlewareHandler => {
+  const middleware: MiddlewareHandler = async (context, next) => {
+    const key = await options.key(context);
+
+    if (key === null) {
+      return next();
+    }
+
+    const { count, resetAt } = await getRateLimitStore().hit(
+      `${options.name}:${key}`,
+      options.window,
+    );
+    const reset = Math.max(
+      Math.ceil((resetAt.getTime() - Date.now()) / 1000),
+      0,
+    );
+
+    context.header("RateLimit-Limit", String(options.limit));
+    context.header(
+      "RateLimit-Remaining",
+      String(Math.max(options.limit - count, 0)),
+    );
+    context.header("RateLimit-Reset", String(reset));
+
+    if (count > options.limit) {
+      throw new TooManyRequestsError(
+        reset,
+        `Too many requests, retry in ${reset} seconds`,
+      );
+    }
+
+    await next();
+  };
+
+  return documentHandler(middleware, {
+    responses: {
+      429: { description: "Too many requests, see the Retry-After header" },
+    },
+  });
+};
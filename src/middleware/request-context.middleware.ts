@@ -0,0 +1,21 @@
+import { MiddlewareHandler } from "hono";
+import { runWithRequestContext } from "../contexts/request.context";
+import { getClientIp } from "../utils";
+
+/**
+ * Request context middleware for Hono framework
+ *
+ * @description
+ * Runs the rest of the request within a request context holding the IP
+ * address of the client, to which the authentication middleware adds the
+ * authenticated user.
+ *
+ * @return {MiddlewareHandler} The middleware function
+ */
+export const requestContext = (): MiddlewareHandler => {
+  return (context, next) =>
+    runWithRequestContext(
+      { ipAddress: getClientIp(context), user: null },
+      next,
+    );
+};
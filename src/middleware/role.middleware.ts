@@ -0,0 +1,41 @@
+import { MiddlewareHandler } from "hono";
+import { UserRole } from "../models";
+import { getUser, UserEnv } from "../contexts/user.context";
+import { ForbiddenError } from "../errors";
+import { documentHandler } from "../openapi/route-doc";
+
+/**
+ * Role middleware for Hono framework
+ *
+ * @description
+ * Lets only the users with one of the given roles through. It reads the
+ * user set by the authentication middleware, so it must come after it:
+ *
+ * @example
+ * admin.use(authentication(), requireRole(UserRole.Admin));
+ *
+ * @param {UserRole[]} roles - The roles allowed through
+ * @return {MiddlewareHandler} The middleware function
+ *
+ * @throws {ForbiddenError} - If the authenticated user has none of the roles
+ */
+export const requireRole = (
+  ...roles: UserRole[]
+): MiddlewareHandler<UserEnv> => {
+  const middleware: MiddlewareHandler<UserEnv> = async (ctx, next) => {
+    if (roles.indexOf(getUser(ctx).role) === -1) {
+      throw new ForbiddenError(
+        "The user does not have the required role",
+        "INSUFFICIENT_ROLE",
+      );
+    }
+
+    await next();
+  };
+
+  return documentHandler(middleware, {
+    responses: {
+      403: { description: "The user does not have the required role" },
+    },
+  });
+};
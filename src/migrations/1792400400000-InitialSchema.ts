@@ -0,0 +1,275 @@
+/**
+ * This migration creates the initial database schema.
+ * It covers every entity that existed before the schema was versioned:
+ * users, refresh tokens, projects and their members, tasks, tags and the task tags join table.
+ * The databases created by schema synchronization before then already have
+ * these tables, so the migration is only recorded as run on them.
+ *
+ * @module migrations/initial-schema
+ */
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class InitialSchema1792400400000 implements MigrationInterface {
+  name = "InitialSchema1792400400000";
+
+  /**
+   * Creates the tables together with their indices and foreign keys.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // A database created by schema synchronization has the schema already
+    if (await queryRunner.hasTable("users")) {
+      return;
+    }
+
+    // The date columns use the type each database maps dates to
+    const datetime = queryRunner.connection.driver.normalizeType({
+      type: Date,
+    });
+
+    await queryRunner.createTable(
+      new Table({
+        name: "users",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "first_name", type: "varchar" },
+          { name: "last_name", type: "varchar" },
+          { name: "email", type: "varchar" },
+          { name: "password", type: "varchar" },
+          { name: "email_verified_at", type: datetime, isNullable: true },
+        ],
+        indices: [{ columnNames: ["email"], isUnique: true }],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "refresh_token",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "token", type: "varchar" },
+          { name: "family", type: "varchar" },
+          { name: "expired_at", type: datetime },
+          { name: "revoked_at", type: datetime, isNullable: true },
+          {
+            name: "user_agent",
+            type: "varchar",
+            length: "512",
+            isNullable: true,
+          },
+          {
+            name: "ip_address",
+            type: "varchar",
+            isNullable: true,
+          },
+          { name: "created_at", type: datetime },
+          { name: "userId", type: "integer", isNullable: true },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["userId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "projects",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "name", type: "varchar" },
+          {
+            name: "description",
+            type: "varchar",
+            isNullable: true,
+          },
+          { name: "created_at", type: datetime },
+          { name: "updated_at", type: datetime, isNullable: true },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "project_members",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "role", type: "varchar", length: "20" },
+          { name: "created_at", type: datetime },
+          { name: "projectId", type: "integer", isNullable: true },
+          { name: "userId", type: "integer", isNullable: true },
+        ],
+        indices: [{ columnNames: ["projectId", "userId"], isUnique: true }],
+        foreignKeys: [
+          {
+            columnNames: ["projectId"],
+            referencedTableName: "projects",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+          {
+            columnNames: ["userId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "tasks",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "title", type: "varchar" },
+          { name: "description", type: "varchar" },
+          { name: "completed", type: "boolean" },
+          { name: "status", type: "varchar", length: "20", default: "'todo'" },
+          {
+            name: "priority",
+            type: "varchar",
+            length: "20",
+            default: "'medium'",
+          },
+          { name: "due_at", type: datetime, isNullable: true },
+          { name: "completed_at", type: datetime, isNullable: true },
+          { name: "position", type: "integer", default: 0 },
+          { name: "created_at", type: datetime },
+          { name: "updated_at", type: datetime, isNullable: true },
+          { name: "userId", type: "integer", isNullable: true },
+          { name: "projectId", type: "integer", isNullable: true },
+          { name: "assigneeId", type: "integer", isNullable: true },
+          { name: "parentId", type: "integer", isNullable: true },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["userId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+          },
+          {
+            columnNames: ["projectId"],
+            referencedTableName: "projects",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+          {
+            columnNames: ["assigneeId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "SET NULL",
+          },
+          {
+            columnNames: ["parentId"],
+            referencedTableName: "tasks",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "tags",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "name", type: "varchar", length: "50" },
+          { name: "color", type: "varchar", length: "7", isNullable: true },
+          { name: "created_at", type: datetime },
+          { name: "userId", type: "integer", isNullable: true },
+        ],
+        indices: [{ columnNames: ["userId", "name"], isUnique: true }],
+        foreignKeys: [
+          {
+            columnNames: ["userId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "task_tags",
+        columns: [
+          { name: "task_id", type: "integer", isPrimary: true },
+          { name: "tag_id", type: "integer", isPrimary: true },
+        ],
+        indices: [{ columnNames: ["task_id"] }, { columnNames: ["tag_id"] }],
+        foreignKeys: [
+          {
+            columnNames: ["task_id"],
+            referencedTableName: "tasks",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+            onUpdate: "CASCADE",
+          },
+          {
+            columnNames: ["tag_id"],
+            referencedTableName: "tags",
+            referencedColumnNames: ["id"],
+          },
+        ],
+      }),
+    );
+  }
+
+  /**
+   * Drops the tables in the reverse order of their creation.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("task_tags");
+    await queryRunner.dropTable("tags");
+    await queryRunner.dropTable("tasks");
+    await queryRunner.dropTable("project_members");
+    await queryRunner.dropTable("projects");
+    await queryRunner.dropTable("refresh_token");
+    await queryRunner.dropTable("users");
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * This migration creates the table of the background job queue.
+ *
+ * @module migrations/create-jobs
+ */
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateJobs1792486800000 implements MigrationInterface {
+  name = "CreateJobs1792486800000";
+
+  /**
+   * Creates the jobs table with the index used to find the due jobs.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The date columns use the type each database maps dates to
+    const datetime = queryRunner.connection.driver.normalizeType({
+      type: Date,
+    });
+
+    await queryRunner.createTable(
+      new Table({
+        name: "jobs",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "name", type: "varchar", length: "100" },
+          { name: "payload", type: "text" },
+          {
+            name: "status",
+            type: "varchar",
+            length: "20",
+            default: "'pending'",
+          },
+          { name: "attempts", type: "integer", default: 0 },
+          { name: "max_attempts", type: "integer", default: 5 },
+          { name: "run_at", type: datetime },
+          { name: "locked_at", type: datetime, isNullable: true },
+          { name: "last_error", type: "text", isNullable: true },
+          { name: "finished_at", type: datetime, isNullable: true },
+          { name: "created_at", type: datetime },
+        ],
+        indices: [{ columnNames: ["status", "run_at"] }],
+      }),
+    );
+  }
+
+  /**
+   * Drops the jobs table.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("jobs");
+  }
+}
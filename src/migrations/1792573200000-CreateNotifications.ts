@@ -0,0 +1,101 @@
+/**
+ * This migration creates the tables of the notification preferences of the
+ * users and of the notifications sent to them.
+ *
+ * @module migrations/create-notifications
+ */
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateNotifications1792573200000 implements MigrationInterface {
+  name = "CreateNotifications1792573200000";
+
+  /**
+   * Creates the tables with their unique indices and foreign keys.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The date columns use the type each database maps dates to
+    const datetime = queryRunner.connection.driver.normalizeType({
+      type: Date,
+    });
+
+    await queryRunner.createTable(
+      new Table({
+        name: "notification_preferences",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "due_reminders", type: "boolean" },
+          { name: "reminder_hours", type: "integer" },
+          { name: "overdue_reminders", type: "boolean" },
+          { name: "daily_digest", type: "boolean" },
+          { name: "digest_hour", type: "integer" },
+          { name: "updated_at", type: datetime, isNullable: true },
+          { name: "userId", type: "integer", isNullable: true },
+        ],
+        indices: [{ columnNames: ["userId"], isUnique: true }],
+        foreignKeys: [
+          {
+            columnNames: ["userId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "notifications",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "type", type: "varchar", length: "20" },
+          { name: "window_key", type: "varchar", length: "100" },
+          { name: "sent_at", type: datetime },
+          { name: "userId", type: "integer", isNullable: true },
+          { name: "taskId", type: "integer", isNullable: true },
+        ],
+        indices: [
+          { columnNames: ["userId", "type", "window_key"], isUnique: true },
+        ],
+        foreignKeys: [
+          {
+            columnNames: ["userId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+          {
+            columnNames: ["taskId"],
+            referencedTableName: "tasks",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+    );
+  }
+
+  /**
+   * Drops the tables in the reverse order of their creation.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("notifications");
+    await queryRunner.dropTable("notification_preferences");
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * This migration adds the columns locking a user out after repeated
+ * failed logins.
+ *
+ * @module migrations/add-user-lockout
+ */
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+export class AddUserLockout1792659600000 implements MigrationInterface {
+  name = "AddUserLockout1792659600000";
+
+  /**
+   * Adds the failed login counter and the lock date to the users table.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The date columns use the type each database maps dates to
+    const datetime = queryRunner.connection.driver.normalizeType({
+      type: Date,
+    });
+
+    await queryRunner.addColumns("users", [
+      new TableColumn({
+        name: "failed_login_attempts",
+        type: "integer",
+        default: 0,
+      }),
+      new TableColumn({
+        name: "locked_until",
+        type: datetime,
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  /**
+   * Drops the lockout columns from the users table.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("users", "locked_until");
+    await queryRunner.dropColumn("users", "failed_login_attempts");
+  }
+}
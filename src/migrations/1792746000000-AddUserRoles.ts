@@ -0,0 +1,48 @@
+/**
+ * This migration adds the role of the users, and the date they were
+ * disabled by an admin.
+ *
+ * @module migrations/add-user-roles
+ */
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+export class AddUserRoles1792746000000 implements MigrationInterface {
+  name = "AddUserRoles1792746000000";
+
+  /**
+   * Adds the role and the disable date to the users table.
+   * Every existing user gets the user role.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The date columns use the type each database maps dates to
+    const datetime = queryRunner.connection.driver.normalizeType({
+      type: Date,
+    });
+
+    await queryRunner.addColumns("users", [
+      new TableColumn({
+        name: "role",
+        type: "varchar",
+        length: "20",
+        default: "'user'",
+      }),
+      new TableColumn({
+        name: "disabled_at",
+        type: datetime,
+        isNullable: true,
+      }),
+    ]);
+  }
+
+  /**
+   * Drops the role and disable date columns from the users table.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("users", "disabled_at");
+    await queryRunner.dropColumn("users", "role");
+  }
+}
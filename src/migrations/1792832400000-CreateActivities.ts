@@ -0,0 +1,62 @@
+/**
+ * This migration creates the table of the activity log.
+ *
+ * @module migrations/create-activities
+ */
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateActivities1792832400000 implements MigrationInterface {
+  name = "CreateActivities1792832400000";
+
+  /**
+   * Creates the activities table with its indices and foreign key.
+   * The task id is not a foreign key, so that the history of a task outlives it.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The date columns use the type each database maps dates to
+    const datetime = queryRunner.connection.driver.normalizeType({
+      type: Date,
+    });
+
+    await queryRunner.createTable(
+      new Table({
+        name: "activities",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "action", type: "varchar", length: "50" },
+          { name: "task_id", type: "integer", isNullable: true },
+          { name: "changes", type: "text", isNullable: true },
+          { name: "ip_address", type: "varchar", isNullable: true },
+          { name: "created_at", type: datetime },
+          { name: "actorId", type: "integer", isNullable: true },
+        ],
+        indices: [{ columnNames: ["task_id"] }, { columnNames: ["actorId"] }],
+        foreignKeys: [
+          {
+            columnNames: ["actorId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+    );
+  }
+
+  /**
+   * Drops the activities table.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("activities");
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * This migration adds the date the tasks were moved to the trash.
+ *
+ * @module migrations/add-task-trash
+ */
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+export class AddTaskTrash1792918800000 implements MigrationInterface {
+  name = "AddTaskTrash1792918800000";
+
+  /**
+   * Adds the delete date to the tasks table.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The date columns use the type each database maps dates to
+    const datetime = queryRunner.connection.driver.normalizeType({
+      type: Date,
+    });
+
+    await queryRunner.addColumn(
+      "tasks",
+      new TableColumn({ name: "deleted_at", type: datetime, isNullable: true }),
+    );
+  }
+
+  /**
+   * Drops the delete date from the tasks table.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn("tasks", "deleted_at");
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * This migration creates the tables of the webhooks and of their deliveries.
+ *
+ * @module migrations/create-webhooks
+ */
+import { MigrationInterface, QueryRunner, Table } from "typeorm";
+
+export class CreateWebhooks1793005200000 implements MigrationInterface {
+  name = "CreateWebhooks1793005200000";
+
+  /**
+   * Creates the webhooks and webhook_deliveries tables with their indices and foreign keys.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // The date columns use the type each database maps dates to
+    const datetime = queryRunner.connection.driver.normalizeType({
+      type: Date,
+    });
+
+    await queryRunner.createTable(
+      new Table({
+        name: "webhooks",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "url", type: "varchar", length: "2048" },
+          { name: "events", type: "text" },
+          { name: "secret", type: "varchar", length: "100" },
+          { name: "active", type: "boolean" },
+          { name: "created_at", type: datetime },
+          { name: "updated_at", type: datetime, isNullable: true },
+          { name: "userId", type: "integer", isNullable: true },
+        ],
+        indices: [{ columnNames: ["userId"] }],
+        foreignKeys: [
+          {
+            columnNames: ["userId"],
+            referencedTableName: "users",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+    );
+
+    await queryRunner.createTable(
+      new Table({
+        name: "webhook_deliveries",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            isPrimary: true,
+            isGenerated: true,
+            generationStrategy: "increment",
+          },
+          { name: "event", type: "varchar", length: "50" },
+          { name: "payload", type: "text" },
+          {
+            name: "status",
+            type: "varchar",
+            length: "20",
+            default: "'pending'",
+          },
+          { name: "attempts", type: "integer", default: 0 },
+          { name: "response_status", type: "integer", isNullable: true },
+          { name: "error", type: "text", isNullable: true },
+          { name: "duration_ms", type: "integer", isNullable: true },
+          { name: "created_at", type: datetime },
+          { name: "last_attempt_at", type: datetime, isNullable: true },
+          { name: "delivered_at", type: datetime, isNullable: true },
+          { name: "webhookId", type: "integer", isNullable: true },
+        ],
+        indices: [{ columnNames: ["webhookId", "created_at"] }],
+        foreignKeys: [
+          {
+            columnNames: ["webhookId"],
+            referencedTableName: "webhooks",
+            referencedColumnNames: ["id"],
+            onDelete: "CASCADE",
+          },
+        ],
+      }),
+    );
+  }
+
+  /**
+   * Drops the webhook_deliveries and webhooks tables.
+   *
+   * @param {QueryRunner} queryRunner - The query runner of the migration.
+   */
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable("webhook_deliveries");
+    await queryRunner.dropTable("webhooks");
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { User } from "./user.model";
+
+/**
+ * The kind of an activity
+ * - task.created, task.updated: A task was created or changed
+ * - task.trashed, task.restored: A task was moved to or out of the trash
+ * - task.deleted: A task was deleted for good, when the trash was purged
+ * - auth.login, auth.login_failed, auth.logout: A user logged in or out
+ * - auth.email_verified: A user verified its email
+ * - auth.password_reset: A user changed its password with a reset link
+ */
+export enum ActivityAction {
+  TaskCreated = "task.created",
+  TaskUpdated = "task.updated",
+  TaskTrashed = "task.trashed",
+  TaskRestored = "task.restored",
+  TaskDeleted = "task.deleted",
+  Login = "auth.login",
+  LoginFailed = "auth.login_failed",
+  Logout = "auth.logout",
+  EmailVerified = "auth.email_verified",
+  PasswordReset = "auth.password_reset",
+}
+
+/**
+ * A changed field of an activity, with its value before and after the change
+ */
+export type ActivityChange = { from: unknown; to: unknown };
+
+/**
+ * This class represents an entry of the activity log.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "activities".
+ * The log is append-only: activities are never updated, and are kept when
+ * their task is deleted.
+ */
+@Entity({ name: "activities" })
+export class Activity {
+  /**
+   * The primary generated column for the activity entity.
+   * It is of type number and is the primary key.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The user who did the action.
+   * It is of type User and is null for the actions of the background jobs.
+   */
+  @Index()
+  @ManyToOne(() => User, { nullable: true, onDelete: "CASCADE" })
+  actor: User;
+
+  /**
+   * The kind of the activity.
+   * It is of type ActivityAction.
+   */
+  @Column({ type: "varchar", length: 50 })
+  action: ActivityAction;
+
+  /**
+   * The id of the task the activity is about.
+   * It is not a foreign key, so that the history of a task outlives it.
+   * It is null for the activities that are not about a task.
+   */
+  @Index()
+  @Column({ name: "task_id", nullable: true })
+  taskId: number;
+
+  /**
+   * The changed fields by name, with their values before and after the
+   * change, stored as JSON. A created task changes from null, and a deleted
+   * one to null. It is null for the activities that change no field.
+   */
+  @Column({ type: "simple-json", nullable: true })
+  changes: Record<string, ActivityChange> | null;
+
+  /**
+   * The IP address of the request of the action.
+   * It is null for the actions of the background jobs.
+   */
+  @Column({ name: "ip_address", nullable: true })
+  ipAddress: string;
+
+  /**
+   * The date and time of the action.
+   * It is of type Date and is named "created_at".
+   */
+  @Column({ name: "created_at" })
+  createdAt: Date;
+
+  /**
+   * Leaves everything but the id and name of the actor out of the JSON
+   * representation of the activity.
+   */
+  toJSON() {
+    const { actor, ...activity } = this;
+
+    return {
+      ...activity,
+      actor: actor
+        ? { id: actor.id, firstName: actor.firstName, lastName: actor.lastName }
+        : null,
+    };
+  }
+}
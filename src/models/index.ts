@@ -1,4 +1,45 @@
-import { User } from "./user.model";
-import { Task } from "./task.model";
+import { User, UserRole } from "./user.model";
+import { Task, TaskStatus, TaskPriority } from "./task.model";
+import { Tag } from "./tag.model";
+import { Project } from "./project.model";
+import { ProjectMember, ProjectRole } from "./project-member.model";
+import { Job, JobStatus } from "./job.model";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  MAX_REMINDER_HOURS,
+  NotificationPreference,
+} from "./notification-preference.model";
+import { Notification, NotificationType } from "./notification.model";
+import { Activity, ActivityAction, ActivityChange } from "./activity.model";
+import { Webhook, WebhookEvent, WEBHOOK_TEST_EVENT } from "./webhook.model";
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from "./webhook-delivery.model";
 
-export { User, Task };
+export {
+  User,
+  UserRole,
+  Task,
+  TaskStatus,
+  TaskPriority,
+  Tag,
+  Project,
+  ProjectMember,
+  ProjectRole,
+  Job,
+  JobStatus,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  MAX_REMINDER_HOURS,
+  NotificationPreference,
+  Notification,
+  NotificationType,
+  Activity,
+  ActivityAction,
+  ActivityChange,
+  Webhook,
+  WebhookEvent,
+  WEBHOOK_TEST_EVENT,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+};
@@ -0,0 +1,89 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from "typeorm";
+
+/**
+ * The lifecycle status of a background job
+ */
+export enum JobStatus {
+  Pending = "pending",
+  Running = "running",
+  Completed = "completed",
+  Dead = "dead",
+}
+
+/**
+ * This class represents a background job in the database.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "jobs".
+ */
+@Entity({ name: "jobs" })
+@Index(["status", "runAt"])
+export class Job {
+  /**
+   * The unique identifier of the job.
+   * It is generated automatically by the database.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The name of the job, used to find the handler that runs it
+   */
+  @Column({ length: 100 })
+  name: string;
+
+  /**
+   * The payload given to the handler, stored as JSON
+   */
+  @Column({ type: "simple-json" })
+  payload: unknown;
+
+  /**
+   * The status of the job.
+   * A job that failed too many times is dead, and is not retried anymore.
+   */
+  @Column({ type: "varchar", length: 20, default: JobStatus.Pending })
+  status: JobStatus;
+
+  /**
+   * The number of times the job has been started
+   */
+  @Column({ default: 0 })
+  attempts: number;
+
+  /**
+   * The number of attempts after which the failed job is dead
+   */
+  @Column({ name: "max_attempts", default: 5 })
+  maxAttempts: number;
+
+  /**
+   * The date and time from which the job can run.
+   * It is pushed back after every failed attempt.
+   */
+  @Column({ name: "run_at" })
+  runAt: Date;
+
+  /**
+   * The date and time when a worker started the current attempt
+   */
+  @Column({ name: "locked_at", nullable: true })
+  lockedAt: Date;
+
+  /**
+   * The message of the error of the last failed attempt
+   */
+  @Column({ name: "last_error", type: "text", nullable: true })
+  lastError: string;
+
+  /**
+   * The date and time when the job completed or died
+   */
+  @Column({ name: "finished_at", nullable: true })
+  finishedAt: Date;
+
+  /**
+   * The date and time when the job was created
+   */
+  @Column({ name: "created_at" })
+  createdAt: Date;
+}
@@ -0,0 +1,100 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { User } from "./user.model";
+
+/**
+ * The longest time before the due date of a task a reminder can be sent, in hours
+ */
+export const MAX_REMINDER_HOURS = 7 * 24;
+
+/**
+ * The preferences of a user who has not changed them yet
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES = {
+  dueReminders: true,
+  reminderHours: 24,
+  overdueReminders: true,
+  dailyDigest: false,
+  digestHour: 8,
+};
+
+/**
+ * This class represents the notification preferences of a user.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "notification_preferences".
+ * A user without preferences gets the default ones.
+ */
+@Entity({ name: "notification_preferences" })
+@Index(["user"], { unique: true })
+export class NotificationPreference {
+  /**
+   * The primary generated column for the notification preference entity.
+   * It is of type number and is the primary key.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The user the preferences belong to.
+   * It is of type User.
+   */
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  user: User;
+
+  /**
+   * Whether the user is reminded of a task before it is due.
+   * It is of type boolean and is named "due_reminders".
+   */
+  @Column({ name: "due_reminders" })
+  dueReminders: boolean;
+
+  /**
+   * The number of hours before the due date the reminder is sent.
+   * It is of type number and is named "reminder_hours".
+   */
+  @Column({ name: "reminder_hours" })
+  reminderHours: number;
+
+  /**
+   * Whether the user is told when a task becomes overdue.
+   * It is of type boolean and is named "overdue_reminders".
+   */
+  @Column({ name: "overdue_reminders" })
+  overdueReminders: boolean;
+
+  /**
+   * Whether the user receives a daily digest of the open tasks.
+   * It is of type boolean and is named "daily_digest".
+   */
+  @Column({ name: "daily_digest" })
+  dailyDigest: boolean;
+
+  /**
+   * The hour of the day, in UTC, from which the daily digest is sent.
+   * It is of type number and is named "digest_hour".
+   */
+  @Column({ name: "digest_hour" })
+  digestHour: number;
+
+  /**
+   * The date and time when the preferences were last updated.
+   * It is of type Date and is named "updated_at".
+   * It is nullable.
+   */
+  @Column({ name: "updated_at", nullable: true })
+  updatedAt: Date;
+
+  /**
+   * Leaves the id and the user out of the JSON representation of the
+   * preferences, which are always those of the authenticated user.
+   */
+  toJSON() {
+    const { id, user, ...preferences } = this;
+    return preferences;
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { User } from "./user.model";
+import { Task } from "./task.model";
+
+/**
+ * The kind of a notification sent to a user
+ * - due_soon: A task is due within the reminder hours of the user
+ * - overdue: A task is past its due date
+ * - digest: The daily digest of the open tasks
+ */
+export enum NotificationType {
+  DueSoon = "due_soon",
+  Overdue = "overdue",
+  Digest = "digest",
+}
+
+/**
+ * This class represents a notification sent to a user.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "notifications".
+ * A notification is recorded once per user, type and window, so that it is
+ * never sent twice.
+ */
+@Entity({ name: "notifications" })
+@Index(["user", "type", "windowKey"], { unique: true })
+export class Notification {
+  /**
+   * The primary generated column for the notification entity.
+   * It is of type number and is the primary key.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The user the notification was sent to.
+   * It is of type User.
+   */
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  user: User;
+
+  /**
+   * The task the notification is about.
+   * It is of type Task and is null for the daily digest.
+   */
+  @ManyToOne(() => Task, { nullable: true, onDelete: "CASCADE" })
+  task: Task;
+
+  /**
+   * The kind of the notification.
+   * It is of type NotificationType.
+   */
+  @Column({ type: "varchar", length: 20 })
+  type: NotificationType;
+
+  /**
+   * The window the notification covers: the task and its due date for a
+   * reminder, so that a new due date is reminded again, or the day of a digest.
+   * It is of type string and is named "window_key".
+   */
+  @Column({ name: "window_key", length: 100 })
+  windowKey: string;
+
+  /**
+   * The date and time when the notification was sent.
+   * It is of type Date and is named "sent_at".
+   */
+  @Column({ name: "sent_at" })
+  sentAt: Date;
+}
@@ -0,0 +1,69 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { User } from "./user.model";
+import { Project } from "./project.model";
+
+/**
+ * The role of a member in a project
+ * - owner: Manages the project and its members, and edits its tasks
+ * - editor: Creates, edits and deletes the tasks of the project
+ * - viewer: Only reads the tasks of the project
+ */
+export enum ProjectRole {
+  Owner = "owner",
+  Editor = "editor",
+  Viewer = "viewer",
+}
+
+/**
+ * This class represents the membership of a user in a project.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "project_members".
+ */
+@Entity({ name: "project_members" })
+@Index(["project", "user"], { unique: true })
+export class ProjectMember {
+  /**
+   * The primary generated column for the project member entity.
+   * It is of type number and is the primary key.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The project of the membership.
+   * It is of type Project.
+   */
+  @ManyToOne(() => Project, (project) => project.members, {
+    onDelete: "CASCADE",
+  })
+  project: Project;
+
+  /**
+   * The member of the project.
+   * It is of type User.
+   */
+  @ManyToOne(() => User, (user) => user.projectMemberships, {
+    onDelete: "CASCADE",
+  })
+  user: User;
+
+  /**
+   * The role of the member in the project.
+   * It is of type ProjectRole.
+   */
+  @Column({ type: "varchar", length: 20 })
+  role: ProjectRole;
+
+  /**
+   * The date and time when the user joined the project.
+   * It is of type Date and is named "created_at".
+   */
+  @Column({ name: "created_at" })
+  createdAt: Date;
+}
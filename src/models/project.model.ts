@@ -0,0 +1,61 @@
+import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from "typeorm";
+import { Task } from "./task.model";
+import { ProjectMember } from "./project-member.model";
+
+/**
+ * This class represents the project entity in the database.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "projects".
+ */
+@Entity({ name: "projects" })
+export class Project {
+  /**
+   * The primary generated column for the project entity.
+   * It is of type number and is the primary key.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The name of the project.
+   * It is of type string.
+   */
+  @Column()
+  name: string;
+
+  /**
+   * The description of the project.
+   * It is of type string and is nullable.
+   */
+  @Column({ nullable: true })
+  description: string;
+
+  /**
+   * The members of the project and their roles.
+   * It is of type ProjectMember[].
+   */
+  @OneToMany(() => ProjectMember, (member) => member.project)
+  members: ProjectMember[];
+
+  /**
+   * The tasks of the project.
+   * It is of type Task[].
+   */
+  @OneToMany(() => Task, (task) => task.project)
+  tasks: Task[];
+
+  /**
+   * The date and time when the project was created.
+   * It is of type Date and is named "created_at".
+   */
+  @Column({ name: "created_at" })
+  createdAt: Date;
+
+  /**
+   * The date and time when the project was last updated.
+   * It is of type Date and is named "updated_at".
+   * It is nullable.
+   */
+  @Column({ name: "updated_at", nullable: true })
+  updatedAt: Date;
+}
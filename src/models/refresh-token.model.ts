@@ -21,6 +21,14 @@ export class RefreshToken {
   @Column()
   token: string;
 
+  /**
+   * The family of the refresh token.
+   * Every token rotated from the same login shares the same family,
+   * so a reused token can revoke the whole chain at once.
+   */
+  @Column()
+  family: string;
+
   /**
    * The user who owns the refresh token.
    */
@@ -33,10 +41,28 @@ export class RefreshToken {
   @Column({ name: "expired_at" })
   expiredAt: Date;
 
+  /**
+   * The date and time when the refresh token was revoked.
+   * It is null while the refresh token can still be used.
+   */
+  @Column({ name: "revoked_at", nullable: true })
+  revokedAt: Date;
+
+  /**
+   * The user agent of the client that logged in with the refresh token.
+   */
+  @Column({ name: "user_agent", nullable: true, length: 512 })
+  userAgent: string;
+
+  /**
+   * The IP address of the client that logged in with the refresh token.
+   */
+  @Column({ name: "ip_address", nullable: true })
+  ipAddress: string;
+
   /**
    * The date and time when the refresh token was created.
    */
   @Column({ name: "created_at" })
   createdAt: Date;
 }
-
@@ -0,0 +1,61 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToMany,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { User } from "./user.model";
+import { Task } from "./task.model";
+
+/**
+ * This class represents the tag entity in the database.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "tags".
+ */
+@Entity({ name: "tags" })
+@Index(["user", "name"], { unique: true })
+export class Tag {
+  /**
+   * The primary generated column for the tag entity.
+   * It is of type number and is the primary key.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The name of the tag.
+   * It is of type string and is unique per user.
+   */
+  @Column({ length: 50 })
+  name: string;
+
+  /**
+   * The color of the tag, as a hexadecimal color like "#ff0000".
+   * It is of type string and is nullable.
+   */
+  @Column({ length: 7, nullable: true })
+  color: string;
+
+  /**
+   * The user who owns the tag.
+   * It is of type User.
+   */
+  @ManyToOne(() => User, (user) => user.tags, { onDelete: "CASCADE" })
+  user: User;
+
+  /**
+   * The tasks labelled with the tag.
+   * It is of type Task[].
+   */
+  @ManyToMany(() => Task, (task) => task.tags)
+  tasks: Task[];
+
+  /**
+   * The date and time when the tag was created.
+   * It is of type Date and is named "created_at".
+   */
+  @Column({ name: "created_at" })
+  createdAt: Date;
+}
@@ -1,5 +1,57 @@
-import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import {
+  Column,
+  DeleteDateColumn,
+  Entity,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  RelationId,
+} from "typeorm";
 import { User } from "./user.model";
+import { Tag } from "./tag.model";
+import { Project } from "./project.model";
+
+/**
+ * The workflow status of a task
+ */
+export enum TaskStatus {
+  Todo = "todo",
+  InProgress = "in_progress",
+  Blocked = "blocked",
+  Done = "done",
+}
+
+/**
+ * The priority of a task, from the lowest to the highest
+ */
+export enum TaskPriority {
+  Low = "low",
+  Medium = "medium",
+  High = "high",
+  Urgent = "urgent",
+}
+
+/**
+ * The statuses a task can move to from each status.
+ * A done task can only be reopened, and a blocked task must be unblocked
+ * before it can be completed.
+ */
+export const TASK_STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  [TaskStatus.Todo]: [
+    TaskStatus.InProgress,
+    TaskStatus.Blocked,
+    TaskStatus.Done,
+  ],
+  [TaskStatus.InProgress]: [
+    TaskStatus.Todo,
+    TaskStatus.Blocked,
+    TaskStatus.Done,
+  ],
+  [TaskStatus.Blocked]: [TaskStatus.Todo, TaskStatus.InProgress],
+  [TaskStatus.Done]: [TaskStatus.Todo, TaskStatus.InProgress],
+};
 
 /**
  * This class represents the task entity in the database.
@@ -32,10 +84,41 @@ export class Task {
   /**
    * The completion status of the task.
    * It is of type boolean.
+   * It is kept in sync with the status, and is true when the status is done.
    */
   @Column()
   completed: boolean;
 
+  /**
+   * The workflow status of the task.
+   * It is of type TaskStatus and defaults to todo.
+   */
+  @Column({ type: "varchar", length: 20, default: TaskStatus.Todo })
+  status: TaskStatus;
+
+  /**
+   * The priority of the task.
+   * It is of type TaskPriority and defaults to medium.
+   */
+  @Column({ type: "varchar", length: 20, default: TaskPriority.Medium })
+  priority: TaskPriority;
+
+  /**
+   * The date and time when the task is due.
+   * It is of type Date and is named "due_at".
+   * It is nullable.
+   */
+  @Column({ name: "due_at", nullable: true })
+  dueAt: Date;
+
+  /**
+   * The date and time when the task was completed.
+   * It is of type Date and is named "completed_at".
+   * It is null while the task is not done.
+   */
+  @Column({ name: "completed_at", nullable: true })
+  completedAt: Date;
+
   /**
    * The user associated with the task.
    * It is of type User.
@@ -43,6 +126,82 @@ export class Task {
   @ManyToOne(() => User, (user) => user.tasks)
   user: User;
 
+  /**
+   * The project the task belongs to.
+   * It is of type Project and is null for personal tasks.
+   * The tasks of a project are deleted with it.
+   */
+  @ManyToOne(() => Project, (project) => project.tasks, {
+    nullable: true,
+    onDelete: "CASCADE",
+  })
+  project: Project;
+
+  /**
+   * The id of the project the task belongs to.
+   */
+  @RelationId((task: Task) => task.project)
+  projectId: number;
+
+  /**
+   * The user the task is assigned to.
+   * It is of type User and is nullable.
+   */
+  @ManyToOne(() => User, (user) => user.assignedTasks, {
+    nullable: true,
+    onDelete: "SET NULL",
+  })
+  assignee: User;
+
+  /**
+   * The id of the user the task is assigned to.
+   */
+  @RelationId((task: Task) => task.assignee)
+  assigneeId: number;
+
+  /**
+   * The tags the task is labelled with.
+   * It is of type Tag[] and is stored in the "task_tags" table.
+   */
+  @ManyToMany(() => Tag, (tag) => tag.tasks)
+  @JoinTable({
+    name: "task_tags",
+    joinColumn: { name: "task_id" },
+    inverseJoinColumn: { name: "tag_id" },
+  })
+  tags: Tag[];
+
+  /**
+   * The task the task is a subtask of.
+   * It is of type Task and is null for top level tasks.
+   * Subtasks are deleted with their parent task.
+   */
+  @ManyToOne(() => Task, (task) => task.subtasks, {
+    nullable: true,
+    onDelete: "CASCADE",
+  })
+  parent: Task;
+
+  /**
+   * The subtasks of the task.
+   * It is of type Task[].
+   */
+  @OneToMany(() => Task, (task) => task.parent)
+  subtasks: Task[];
+
+  /**
+   * The position of a subtask among the subtasks of its parent.
+   * It is of type number and defaults to 0.
+   */
+  @Column({ default: 0 })
+  position: number;
+
+  /**
+   * The number of done subtasks out of all subtasks of the task.
+   * It is not stored in the database, and is set by the tasks handler.
+   */
+  progress?: { done: number; total: number };
+
   /**
    * The date and time when the task was created.
    * It is of type Date and is named "created_at".
@@ -57,4 +216,47 @@ export class Task {
    */
   @Column({ name: "updated_at", nullable: true })
   updatedAt: Date;
+
+  /**
+   * The date and time when the task was moved to the trash.
+   * It is of type Date and is named "deleted_at".
+   * It is null while the task is not in the trash. The queries of the
+   * entity manager leave the tasks in the trash out unless asked otherwise.
+   */
+  @DeleteDateColumn({ name: "deleted_at", nullable: true })
+  deletedAt: Date;
+
+  /**
+   * Checks if the task can move to the given status.
+   * Keeping the current status is always allowed.
+   *
+   * @param {TaskStatus} status - The status to move to
+   * @returns {boolean} - Whether the transition is allowed
+   */
+  canTransitionTo(status: TaskStatus): boolean {
+    return (
+      this.status === status ||
+      TASK_STATUS_TRANSITIONS[this.status].indexOf(status) !== -1
+    );
+  }
+
+  /**
+   * Moves the task to the given status.
+   * The completed flag follows the status, and completedAt is stamped when
+   * the task becomes done and cleared when it is reopened.
+   *
+   * @param {TaskStatus} status - The status to move to
+   */
+  setStatus(status: TaskStatus) {
+    if (status === TaskStatus.Done && this.status !== TaskStatus.Done) {
+      this.completedAt = new Date();
+    }
+
+    if (status !== TaskStatus.Done) {
+      this.completedAt = null;
+    }
+
+    this.status = status;
+    this.completed = status === TaskStatus.Done;
+  }
 }
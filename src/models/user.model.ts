@@ -3,9 +3,26 @@
  * It contains the fields and decorators for defining the table structure.
  * The table name is "users".
  */
-import { Column, Entity, OneToMany, PrimaryGeneratedColumn } from "typeorm";
+import {
+  Column,
+  Entity,
+  Index,
+  OneToMany,
+  PrimaryGeneratedColumn,
+} from "typeorm";
 import { Task } from "./task.model";
 import { RefreshToken } from "./refresh-token.model";
+import { Tag } from "./tag.model";
+import { ProjectMember } from "./project-member.model";
+
+/**
+ * The roles of a user, which decide what the user can do besides its own
+ * tasks and projects
+ */
+export enum UserRole {
+  User = "user",
+  Admin = "admin",
+}
 
 @Entity({ name: "users" })
 export class User {
@@ -32,7 +49,8 @@ export class User {
    * The email of the user.
    * It must be unique to avoid duplicate emails.
    */
-  @Column({ name: "email", unique: true })
+  @Index({ unique: true })
+  @Column({ name: "email" })
   email: string;
 
   /**
@@ -47,10 +65,56 @@ export class User {
   @OneToMany(() => RefreshToken, (refreshToken) => refreshToken.user)
   refreshTokens: RefreshToken[];
 
+  @OneToMany(() => Tag, (tag) => tag.user)
+  tags: Tag[];
+
+  @OneToMany(() => Task, (task) => task.assignee)
+  assignedTasks: Task[];
+
+  @OneToMany(() => ProjectMember, (member) => member.user)
+  projectMemberships: ProjectMember[];
+
   /**
    * The date and time when the user's email is verified.
    * It can be null if the email is not verified yet.
    */
   @Column({ name: "email_verified_at", nullable: true })
   emailVerifiedAt: Date;
+
+  /**
+   * The number of failed logins since the last successful one.
+   * Every few failed logins lock the user for longer.
+   */
+  @Column({ name: "failed_login_attempts", default: 0 })
+  failedLoginAttempts: number;
+
+  /**
+   * The date and time until which the user cannot log in.
+   * It is null while the user is not locked.
+   */
+  @Column({ name: "locked_until", nullable: true })
+  lockedUntil: Date;
+
+  /**
+   * The role of the user.
+   * Admins can manage the other users with the admin routes.
+   */
+  @Column({ type: "varchar", length: 20, default: UserRole.User })
+  role: UserRole;
+
+  /**
+   * The date and time when the user was disabled by an admin.
+   * A disabled user cannot log in. It is null while the user is enabled.
+   */
+  @Column({ name: "disabled_at", nullable: true })
+  disabledAt: Date;
+
+  /**
+   * Leaves the hashed password out of the JSON representation of the user,
+   * so that users can be sent in responses.
+   */
+  toJSON() {
+    const { password, ...user } = this;
+    return user;
+  }
 }
@@ -0,0 +1,126 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { Webhook } from "./webhook.model";
+
+/**
+ * The status of a delivery
+ * - pending: The delivery is queued, or failed and will be retried
+ * - succeeded: The endpoint answered with a 2xx status
+ * - failed: Every attempt failed, and the delivery is not retried anymore
+ */
+export enum WebhookDeliveryStatus {
+  Pending = "pending",
+  Succeeded = "succeeded",
+  Failed = "failed",
+}
+
+/**
+ * This class represents the delivery of an event to a webhook.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "webhook_deliveries".
+ * The deliveries are the log of a webhook, with the outcome of their last attempt.
+ */
+@Entity({ name: "webhook_deliveries" })
+@Index(["webhook", "createdAt"])
+export class WebhookDelivery {
+  /**
+   * The primary generated column for the delivery entity.
+   * It is of type number and is the primary key.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The webhook the event is delivered to.
+   * It is of type Webhook and is deleted with its deliveries.
+   */
+  @ManyToOne(() => Webhook, { onDelete: "CASCADE" })
+  webhook: Webhook;
+
+  /**
+   * The event delivered, a WebhookEvent or the test event.
+   * It is of type string.
+   */
+  @Column({ length: 50 })
+  event: string;
+
+  /**
+   * The JSON body posted to the webhook.
+   * It is stored as JSON.
+   */
+  @Column({ type: "simple-json" })
+  payload: Record<string, unknown>;
+
+  /**
+   * The status of the delivery.
+   * It is of type WebhookDeliveryStatus and is pending by default.
+   */
+  @Column({
+    type: "varchar",
+    length: 20,
+    default: WebhookDeliveryStatus.Pending,
+  })
+  status: WebhookDeliveryStatus;
+
+  /**
+   * The number of times the event was posted.
+   * It is of type number.
+   */
+  @Column({ default: 0 })
+  attempts: number;
+
+  /**
+   * The HTTP status of the response to the last attempt.
+   * It is null when the endpoint could not be reached.
+   */
+  @Column({ name: "response_status", nullable: true })
+  responseStatus: number;
+
+  /**
+   * Why the last attempt failed, null when it succeeded.
+   * It is of type string and is nullable.
+   */
+  @Column({ type: "text", nullable: true })
+  error: string;
+
+  /**
+   * The time the last attempt took, in milliseconds.
+   * It is of type number and is nullable.
+   */
+  @Column({ name: "duration_ms", nullable: true })
+  durationMs: number;
+
+  /**
+   * The date and time when the delivery was created.
+   * It is of type Date and is named "created_at".
+   */
+  @Column({ name: "created_at" })
+  createdAt: Date;
+
+  /**
+   * The date and time of the last attempt.
+   * It is of type Date, is named "last_attempt_at" and is nullable.
+   */
+  @Column({ name: "last_attempt_at", nullable: true })
+  lastAttemptAt: Date;
+
+  /**
+   * The date and time when the delivery succeeded.
+   * It is of type Date, is named "delivered_at" and is nullable.
+   */
+  @Column({ name: "delivered_at", nullable: true })
+  deliveredAt: Date;
+
+  /**
+   * Leaves the webhook out of the JSON representation of the delivery.
+   */
+  toJSON() {
+    const { webhook, ...delivery } = this;
+    return delivery;
+  }
+}
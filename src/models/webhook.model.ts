@@ -0,0 +1,101 @@
+import {
+  Column,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from "typeorm";
+import { User } from "./user.model";
+
+/**
+ * The events a webhook can subscribe to
+ * - task.created: A task was created
+ * - task.updated: A task was changed, or restored from the trash
+ * - task.completed: A task moved to the done status
+ * - task.deleted: A task was moved to the trash
+ */
+export enum WebhookEvent {
+  TaskCreated = "task.created",
+  TaskUpdated = "task.updated",
+  TaskCompleted = "task.completed",
+  TaskDeleted = "task.deleted",
+}
+
+/**
+ * The event of the test deliveries, sent on request to any webhook
+ */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+/**
+ * This class represents an endpoint of a user notified of task events.
+ * It contains the fields and decorators for defining the table structure.
+ * The table name is "webhooks".
+ * A webhook is notified of the events of the tasks its user can see.
+ */
+@Entity({ name: "webhooks" })
+export class Webhook {
+  /**
+   * The primary generated column for the webhook entity.
+   * It is of type number and is the primary key.
+   */
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  /**
+   * The user who registered the webhook.
+   * It is of type User and is deleted with its webhooks.
+   */
+  @Index()
+  @ManyToOne(() => User, { onDelete: "CASCADE" })
+  user: User;
+
+  /**
+   * The URL the events are posted to.
+   * It is of type string and starts with http or https.
+   */
+  @Column({ length: 2048 })
+  url: string;
+
+  /**
+   * The events the webhook is subscribed to.
+   * It is an array of WebhookEvent, stored as comma separated values.
+   */
+  @Column({ type: "simple-array" })
+  events: WebhookEvent[];
+
+  /**
+   * The secret signing the deliveries of the webhook.
+   * It is only sent to the user when the webhook is created.
+   */
+  @Column({ length: 100 })
+  secret: string;
+
+  /**
+   * Whether the webhook is notified of events.
+   * It is of type boolean and is set when the webhook is created.
+   */
+  @Column()
+  active: boolean;
+
+  /**
+   * The date and time when the webhook was created.
+   * It is of type Date and is named "created_at".
+   */
+  @Column({ name: "created_at" })
+  createdAt: Date;
+
+  /**
+   * The date and time when the webhook was last updated.
+   * It is of type Date, is named "updated_at" and is nullable.
+   */
+  @Column({ name: "updated_at", nullable: true })
+  updatedAt: Date;
+
+  /**
+   * Leaves the user and the secret out of the JSON representation of the webhook.
+   */
+  toJSON() {
+    const { user, secret, ...webhook } = this;
+    return webhook;
+  }
+}
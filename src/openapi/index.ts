@@ -0,0 +1,21 @@
+import {
+  describeRoute,
+  documentHandler,
+  getRouteDoc,
+  ResponseDoc,
+  RouteDoc,
+} from "./route-doc";
+import {
+  generateOpenApiDocument,
+  serveOpenApiDocument,
+} from "./openapi.document";
+
+export {
+  describeRoute,
+  documentHandler,
+  getRouteDoc,
+  ResponseDoc,
+  RouteDoc,
+  generateOpenApiDocument,
+  serveOpenApiDocument,
+};
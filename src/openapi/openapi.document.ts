@@ -0,0 +1,355 @@
+/**
+ * The OpenAPI 3 document of the application, generated from its routes.
+ *
+ * @description
+ * The document lists every route documented with describeRoute, with the
+ * zod schemas of its request and responses converted to JSON schemas. The
+ * schemas of the schemas module that have a component name are listed once
+ * in the components of the document and referenced where they are used, so
+ * that clients generated from the document get a named type for each.
+ *
+ * @module openapi/document
+ */
+import { Env, Handler, Hono } from "hono";
+import { ZodSchema, ZodTypeDef } from "zod";
+import { ignoreOverride, zodToJsonSchema } from "zod-to-json-schema";
+import { componentSchemas } from "../schemas";
+import { getRouteDoc, RouteDoc } from "./route-doc";
+
+/**
+ * A JSON schema of the document, or a reference to a component schema
+ */
+interface JsonSchema {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  [keyword: string]: unknown;
+}
+
+/**
+ * The content of a request or response with a media type
+ */
+interface MediaTypeObject {
+  schema: JsonSchema;
+}
+
+/**
+ * A path or query parameter of an operation
+ */
+interface ParameterObject {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  schema: JsonSchema;
+}
+
+/**
+ * A response of an operation
+ */
+interface ResponseObject {
+  description: string;
+  content?: Record<string, MediaTypeObject>;
+}
+
+/**
+ * The body of the request of an operation
+ */
+interface RequestBodyObject {
+  required: boolean;
+  content: Record<string, MediaTypeObject>;
+}
+
+/**
+ * The names of the component schemas by their zod definition
+ */
+const componentNames = new Map<ZodTypeDef, string>();
+
+Object.keys(componentSchemas).forEach((name) => {
+  componentNames.set(componentSchemas[name]._def, name);
+});
+
+/**
+ * Converts a zod schema to the JSON schema of an OpenAPI document
+ *
+ * @param {ZodSchema} schema - The zod schema
+ * @returns {Object} - The JSON schema, referencing the component schemas it uses
+ */
+const toJsonSchema = (schema: ZodSchema): JsonSchema =>
+  zodToJsonSchema(schema, {
+    target: "openApi3",
+    $refStrategy: "none",
+    // Only strict objects reject unknown keys, the others strip them
+    removeAdditionalStrategy: "strict",
+    override: (def) => {
+      const name = componentNames.get(def);
+
+      // Reference the components, except the one being converted itself
+      if (name && def !== schema._def) {
+        return { $ref: `#/components/schemas/${name}` };
+      }
+
+      return ignoreOverride;
+    },
+  }) as JsonSchema;
+
+/**
+ * Converts a zod schema to the JSON schema of an operation of an OpenAPI document
+ *
+ * @param {ZodSchema} schema - The zod schema
+ * @returns {Object} - A reference to the component of the schema, or its JSON schema
+ */
+const toOperationSchema = (schema: ZodSchema): JsonSchema => {
+  const name = componentNames.get(schema._def);
+
+  return name ? { $ref: `#/components/schemas/${name}` } : toJsonSchema(schema);
+};
+
+/**
+ * Merges the documentation of a route with the one of a later middleware or handler
+ *
+ * @description
+ * The earlier documentation wins on conflicts, so that describeRoute, given
+ * before the other middlewares of a route, can describe a response more
+ * precisely than the middleware that sends it.
+ *
+ * @param {RouteDoc} doc - The documentation so far
+ * @param {RouteDoc} next - The documentation to add
+ * @returns {RouteDoc} - The merged documentation
+ */
+const mergeRouteDocs = (doc: RouteDoc, next: RouteDoc): RouteDoc => ({
+  ...next,
+  ...doc,
+  request: { ...next.request, ...doc.request },
+  responses: { ...next.responses, ...doc.responses },
+});
+
+/**
+ * Checks whether a middleware registered for every method applies to a path
+ *
+ * @param {string} pattern - The path of the middleware, like "/tasks/*"
+ * @param {string} path - The path of the route
+ * @returns {boolean} - Whether the middleware runs for the route
+ */
+const matchesPath = (pattern: string, path: string): boolean => {
+  if (pattern === "*" || pattern === "/*") {
+    return true;
+  }
+
+  if (pattern.slice(-2) === "/*") {
+    const prefix = pattern.slice(0, -2);
+    return path === prefix || path.indexOf(`${prefix}/`) === 0;
+  }
+
+  return pattern === path;
+};
+
+/**
+ * Creates the OpenAPI operation of a route
+ *
+ * @param {string} method - The lowercased HTTP method of the route
+ * @param {string} path - The Hono path of the route, like "/tasks/:id"
+ * @param {RouteDoc} doc - The merged documentation of the route
+ * @returns {Object} - The operation object
+ */
+const createOperation = (method: string, path: string, doc: RouteDoc) => {
+  const parameters: ParameterObject[] = [];
+
+  // The path parameters are the ids of the resources
+  (path.match(/:\w+/g) || []).forEach((param) => {
+    parameters.push({
+      name: param.slice(1),
+      in: "path",
+      required: true,
+      schema: { type: "integer" },
+    });
+  });
+
+  if (doc.request?.query) {
+    const query = toJsonSchema(doc.request.query);
+    const required: string[] = query.required || [];
+
+    Object.keys(query.properties || {}).forEach((name) => {
+      parameters.push({
+        name,
+        in: "query",
+        required: required.indexOf(name) !== -1,
+        schema: query.properties[name],
+      });
+    });
+  }
+
+  const responses: Record<string, ResponseObject> = {};
+
+  Object.keys(doc.responses || {}).forEach((status) => {
+    const response = doc.responses[status];
+    const schema =
+      response.schema ||
+      (Number(status) >= 400 ? componentSchemas.Error : null);
+
+    const content: Record<string, MediaTypeObject> = {};
+
+    if (response.mediaTypes) {
+      response.mediaTypes.forEach((mediaType) => {
+        content[mediaType] = { schema: { type: "string", format: "binary" } };
+      });
+    } else if (schema) {
+      content["application/json"] = { schema: toOperationSchema(schema) };
+    }
+
+    responses[status] = {
+      description: response.description,
+      ...(Object.keys(content).length > 0 && { content }),
+    };
+  });
+
+  let requestBody: RequestBodyObject | undefined;
+
+  if (doc.request?.json) {
+    requestBody = {
+      required: true,
+      content: {
+        "application/json": { schema: toOperationSchema(doc.request.json) },
+      },
+    };
+  } else if (doc.request?.form) {
+    const form = toJsonSchema(doc.request.form);
+
+    // The file fields have no JSON schema of their own
+    Object.keys(form.properties || {}).forEach((name) => {
+      if (!form.properties[name].type) {
+        form.properties[name] = {
+          ...form.properties[name],
+          type: "string",
+          format: "binary",
+        };
+      }
+    });
+
+    requestBody = {
+      required: true,
+      content: { "multipart/form-data": { schema: form } },
+    };
+  }
+
+  // Name the operation after its method and path, like getTasksByIdSubtasks
+  const operationId = path
+    .split("/")
+    .filter((segment) => segment)
+    .map((segment) => (segment[0] === ":" ? `By-${segment.slice(1)}` : segment))
+    .join("-")
+    .split("-")
+    .reduce(
+      (id, word) => id + word.charAt(0).toUpperCase() + word.slice(1),
+      method,
+    );
+
+  return {
+    operationId,
+    tags: doc.tags || [path.split("/")[1]],
+    summary: doc.summary,
+    description: doc.description,
+    ...(doc.security && { security: [{ bearerAuth: [] as string[] }] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses,
+  };
+};
+
+/**
+ * Generates the OpenAPI document of an application
+ *
+ * @param {Hono} app - The application with its routes
+ * @returns {Object} - The OpenAPI 3 document
+ */
+export const generateOpenApiDocument = (app: Hono<Env>) => {
+  // The middlewares registered with use() for every method, like authentication
+  const middlewares = app.routes.filter(
+    (route) => route.method === "ALL" && getRouteDoc(route.handler),
+  );
+
+  // The documentation of every route, merged from its middlewares and handlers
+  const docs: Record<string, Record<string, RouteDoc>> = {};
+
+  app.routes.forEach((route) => {
+    const doc = getRouteDoc(route.handler);
+
+    if (route.method === "ALL" || !doc) {
+      return;
+    }
+
+    const method = route.method.toLowerCase();
+    docs[route.path] = docs[route.path] || {};
+
+    if (!docs[route.path][method]) {
+      docs[route.path][method] = middlewares
+        .filter((middleware) => matchesPath(middleware.path, route.path))
+        .reduce<RouteDoc>(
+          (merged, middleware) =>
+            mergeRouteDocs(merged, getRouteDoc(middleware.handler)),
+          {},
+        );
+    }
+
+    docs[route.path][method] = mergeRouteDocs(docs[route.path][method], doc);
+  });
+
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  Object.keys(docs).forEach((path) => {
+    const openApiPath = path.replace(/:(\w+)/g, "{$1}");
+    paths[openApiPath] = {};
+
+    Object.keys(docs[path]).forEach((method) => {
+      paths[openApiPath][method] = createOperation(
+        method,
+        path,
+        docs[path][method],
+      );
+    });
+  });
+
+  const schemas: Record<string, unknown> = {};
+
+  Object.keys(componentSchemas).forEach((name) => {
+    schemas[name] = toJsonSchema(componentSchemas[name]);
+  });
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Tasks API",
+      version: "1.0.0",
+      description:
+        "Every response is JSON, except the exported files and the task stream. Failed requests return the error envelope, with a machine readable code.",
+    },
+    ...(process.env.APP_URL && { servers: [{ url: process.env.APP_URL }] }),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+      },
+    },
+  };
+};
+
+/**
+ * Serves the OpenAPI document of an application
+ *
+ * @description
+ * The document is generated on the first request, once every route of the
+ * application has been registered, and reused afterwards.
+ *
+ * @param {Hono} app - The application with its routes
+ * @returns {Handler} - The handler responding with the document
+ */
+export const serveOpenApiDocument = (app: Hono<Env>): Handler => {
+  let document: ReturnType<typeof generateOpenApiDocument> | null = null;
+
+  return (context) => {
+    document = document || generateOpenApiDocument(app);
+    return context.json(document);
+  };
+};
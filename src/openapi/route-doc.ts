@@ -0,0 +1,116 @@
+/**
+ * The documentation attached to the routes of the application.
+ *
+ * @description
+ * A route is documented by its middlewares and handlers: describeRoute adds
+ * the summary and responses of a route, while the validate, authentication
+ * and rateLimit middlewares document the request, security and errors they
+ * handle. The documents of every middleware and handler of a route are
+ * merged into its OpenAPI operation, the earlier ones winning on conflicts.
+ *
+ * @module openapi/route-doc
+ */
+import { MiddlewareHandler } from "hono";
+import { ZodSchema } from "zod";
+
+/**
+ * A documented response of a route
+ */
+export interface ResponseDoc {
+  /**
+   * What the response means
+   */
+  description: string;
+  /**
+   * The schema of the JSON body, the error envelope by default for errors
+   */
+  schema?: ZodSchema;
+  /**
+   * The media types of a file or stream sent instead of a JSON body
+   */
+  mediaTypes?: string[];
+}
+
+/**
+ * The documentation of a route, or of the part of it handled by a middleware
+ */
+export interface RouteDoc {
+  /**
+   * A short summary of what the route does
+   */
+  summary?: string;
+  /**
+   * A longer description of the route
+   */
+  description?: string;
+  /**
+   * The tags grouping the route, the first segment of its path by default
+   */
+  tags?: string[];
+  /**
+   * Whether the route requires a bearer token
+   */
+  security?: boolean;
+  /**
+   * The schemas of the JSON body, of the multipart form body and of the
+   * query string
+   */
+  request?: { json?: ZodSchema; form?: ZodSchema; query?: ZodSchema };
+  /**
+   * The responses by HTTP status
+   */
+  responses?: Record<number, ResponseDoc>;
+}
+
+/**
+ * The documents of the middlewares and handlers
+ */
+const routeDocs = new WeakMap<Function, RouteDoc>();
+
+/**
+ * Attaches documentation to a middleware or handler
+ *
+ * @param {Function} handler - The middleware or handler
+ * @param {RouteDoc} doc - The documentation of what it handles
+ * @returns {Function} - The same middleware or handler
+ */
+export const documentHandler = <T extends Function>(
+  handler: T,
+  doc: RouteDoc,
+): T => {
+  routeDocs.set(handler, doc);
+  return handler;
+};
+
+/**
+ * Gets the documentation attached to a middleware or handler
+ *
+ * @param {Function} handler - The middleware or handler
+ * @returns {RouteDoc | undefined} - Its documentation, if any
+ */
+export const getRouteDoc = (handler: Function): RouteDoc | undefined =>
+  routeDocs.get(handler);
+
+/**
+ * Documents a route
+ *
+ * @description
+ * Only the documented routes are listed in the OpenAPI document.
+ *
+ * @example
+ * tasks.get(
+ *   "/:id/subtasks",
+ *   describeRoute({
+ *     summary: "List the subtasks of a task",
+ *     responses: { 200: { description: "The subtasks", schema: subtasksSchema } },
+ *   }),
+ *   async (context) => { ... },
+ * );
+ *
+ * @param {RouteDoc} doc - The documentation of the route
+ * @returns {MiddlewareHandler} - A middleware that only carries the documentation
+ */
+export const describeRoute = (doc: RouteDoc): MiddlewareHandler =>
+  documentHandler<MiddlewareHandler>(async (context, next) => {
+    await next();
+  }, doc);
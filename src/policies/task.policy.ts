@@ -0,0 +1,122 @@
+/**
+ * Task policy module
+ *
+ * This module decides which tasks a user can see and change.
+ * A personal task is only visible to the user who created it, and a project
+ * task is visible to every member of its project. Project tasks can be
+ * changed by the owners and editors of the project, and viewers can only
+ * read them.
+ *
+ * @module task.policy
+ */
+import { EntityManager, SelectQueryBuilder } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { ProjectMember, ProjectRole, Task, User } from "../models";
+
+/**
+ * Gets the role of a user in a project
+ *
+ * @param {User} user - The user
+ * @param {number} projectId - The id of the project
+ * @param {EntityManager} manager - The entity manager to read with, the one
+ * of a transaction to see its changes
+ * @returns {Promise<ProjectRole | null>} - The role of the user, or null if
+ * the user is not a member of the project
+ */
+export const getProjectRole = async (
+  user: User,
+  projectId: number,
+  manager: EntityManager = AppDataSource.manager,
+): Promise<ProjectRole | null> => {
+  const member = await manager.findOneBy(ProjectMember, {
+    project: { id: projectId },
+    user: { id: user.id },
+  });
+
+  return member ? member.role : null;
+};
+
+/**
+ * Checks if a project role allows changing the tasks of the project
+ *
+ * @param {ProjectRole | null} role - The role of a user in a project
+ * @returns {boolean} - Whether the role is owner or editor
+ */
+export const canEditProjectTasks = (role: ProjectRole | null): boolean => {
+  return role === ProjectRole.Owner || role === ProjectRole.Editor;
+};
+
+/**
+ * Restricts a task query to the tasks visible to a user
+ *
+ * @param {SelectQueryBuilder<Task>} query - The query selecting tasks
+ * @param {string} alias - The alias of the tasks in the query
+ * @param {User} user - The user who must be able to see the tasks
+ * @returns {SelectQueryBuilder<Task>} - The restricted query
+ */
+export const whereTaskVisible = (
+  query: SelectQueryBuilder<Task>,
+  alias: string,
+  user: User,
+): SelectQueryBuilder<Task> => {
+  const memberProjects = query
+    .subQuery()
+    .select("member.project")
+    .from(ProjectMember, "member")
+    .where("member.user = :visibleToUserId")
+    .getQuery();
+
+  // The creator of a project task only sees it as a member of the project
+  return query.andWhere(
+    `((${alias}.user = :visibleToUserId AND ${alias}.project IS NULL) OR ${alias}.project IN ${memberProjects})`,
+    { visibleToUserId: user.id },
+  );
+};
+
+/**
+ * Checks if a user can change a task visible to the user
+ *
+ * @param {User} user - The user
+ * @param {Task} task - A task found with whereTaskVisible
+ * @param {EntityManager} manager - The entity manager to read with
+ * @returns {Promise<boolean>} - Whether the user can change the task
+ */
+export const canEditTask = async (
+  user: User,
+  task: Task,
+  manager: EntityManager = AppDataSource.manager,
+): Promise<boolean> => {
+  // A visible personal task is a task of the user
+  if (!task.projectId) {
+    return true;
+  }
+
+  return canEditProjectTasks(
+    await getProjectRole(user, task.projectId, manager),
+  );
+};
+
+/**
+ * Finds the users who can see a task
+ *
+ * @param {Task} task - The task, with its user
+ * @param {EntityManager} manager - The entity manager to read with, the one
+ * of a transaction to see its changes
+ * @returns {Promise<number[]>} - The ids of the owner of a personal task, or
+ * of the members of the project of a project task
+ */
+export const findTaskAudience = async (
+  task: Task,
+  manager: EntityManager = AppDataSource.manager,
+): Promise<number[]> => {
+  if (!task.projectId) {
+    return [task.user.id];
+  }
+
+  const members = await manager.find(ProjectMember, {
+    where: { project: { id: task.projectId } },
+    relations: { user: true },
+  });
+
+  return members.map((member) => member.user.id);
+};
@@ -0,0 +1,11 @@
+import { RateLimitCounter, RateLimitStore } from "./rate-limit.store";
+import { memoryStore } from "./memory.store";
+import { getRateLimitStore, setRateLimitStore } from "./rate-limit.service";
+
+export {
+  RateLimitCounter,
+  RateLimitStore,
+  memoryStore,
+  getRateLimitStore,
+  setRateLimitStore,
+};
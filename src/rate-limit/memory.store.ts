@@ -0,0 +1,49 @@
+/**
+ * The store that counts the requests in the memory of the process,
+ * which is enough for a single server.
+ *
+ * @module rate-limit/memory-store
+ */
+import { RateLimitCounter, RateLimitStore } from "./rate-limit.store";
+
+/**
+ * The interval in milliseconds at which the ended windows are forgotten
+ */
+const SWEEP_INTERVAL = 60 * 1000;
+
+/**
+ * Creates the memory rate limit store
+ *
+ * @returns {RateLimitStore} - The store keeping the counters in a map
+ */
+export const memoryStore = (): RateLimitStore => {
+  const counters = new Map<string, RateLimitCounter>();
+  let nextSweepAt = 0;
+
+  return {
+    hit: async (key, window) => {
+      const now = Date.now();
+
+      // Forget the ended windows from time to time, so the map does not grow forever
+      if (now >= nextSweepAt) {
+        counters.forEach((counter, counterKey) => {
+          if (counter.resetAt.getTime() <= now) {
+            counters.delete(counterKey);
+          }
+        });
+        nextSweepAt = now + SWEEP_INTERVAL;
+      }
+
+      let counter = counters.get(key);
+
+      if (!counter || counter.resetAt.getTime() <= now) {
+        counter = { count: 0, resetAt: new Date(now + window) };
+        counters.set(key, counter);
+      }
+
+      counter.count += 1;
+
+      return { count: counter.count, resetAt: counter.resetAt };
+    },
+  };
+};
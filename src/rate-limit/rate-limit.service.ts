@@ -0,0 +1,35 @@
+/**
+ * The service holding the store of the rate limiter.
+ *
+ * @description
+ * The requests are counted in memory by default. The store can be replaced,
+ * for example by one shared by several servers, or by tests.
+ *
+ * @module rate-limit/service
+ */
+import { memoryStore } from "./memory.store";
+import { RateLimitStore } from "./rate-limit.store";
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Gets the store counting the requests
+ *
+ * @returns {RateLimitStore} - The configured store
+ */
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    store = memoryStore();
+  }
+
+  return store;
+};
+
+/**
+ * Replaces the store counting the requests
+ *
+ * @param {RateLimitStore} nextStore - The new store
+ */
+export const setRateLimitStore = (nextStore: RateLimitStore) => {
+  store = nextStore;
+};
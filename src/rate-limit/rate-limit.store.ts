@@ -0,0 +1,31 @@
+/**
+ * The types shared by the rate limiter and its stores.
+ *
+ * @module rate-limit/store
+ */
+
+/**
+ * The counter of the requests of a key in its current window
+ */
+export interface RateLimitCounter {
+  /**
+   * The number of requests in the window, the current one included
+   */
+  count: number;
+  /**
+   * The date when the window ends and the counter starts again from zero
+   */
+  resetAt: Date;
+}
+
+/**
+ * Counts the requests by key, for example in memory or in Redis
+ *
+ * @description
+ * A window starts with the first request of a key, and lasts for the given
+ * length. The store must count the requests of several servers together
+ * for the limits to hold when the application is scaled out.
+ */
+export interface RateLimitStore {
+  hit(key: string, window: number): Promise<RateLimitCounter>;
+}
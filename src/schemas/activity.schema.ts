@@ -0,0 +1,35 @@
+/**
+ * The schemas of the activities in responses.
+ *
+ * @module schemas/activity
+ */
+import { z } from "zod";
+import { ActivityAction } from "../models";
+import { dateTimeSchema } from "./common.schema";
+
+/**
+ * An entry of the activity log
+ */
+export const activitySchema = z.object({
+  id: z.number().int(),
+  action: z.nativeEnum(ActivityAction),
+  actor: z
+    .object({
+      id: z.number().int(),
+      firstName: z.string(),
+      lastName: z.string(),
+    })
+    .nullable()
+    .describe("The user who did the action, null for the background jobs"),
+  taskId: z.number().int().nullable(),
+  changes: z
+    .record(z.object({ from: z.unknown(), to: z.unknown() }))
+    .nullable()
+    .describe("The changed fields with their values before and after"),
+  ipAddress: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("The IP address of the request, left out of the task history"),
+  createdAt: dateTimeSchema,
+});
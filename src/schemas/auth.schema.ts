@@ -0,0 +1,49 @@
+/**
+ * The schemas of the responses of the authentication routes.
+ *
+ * @module schemas/auth
+ */
+import { z } from "zod";
+import { dateTimeSchema } from "./common.schema";
+
+/**
+ * The tokens of a session
+ */
+export const tokensSchema = z.object({
+  token: z.string().describe("The JWT token, valid for one hour"),
+  refreshToken: z
+    .string()
+    .describe("The refresh token, valid for one day and usable once"),
+});
+
+/**
+ * The response of the routes opening or refreshing a session
+ */
+export const tokensResponseSchema = z.object({
+  message: z.string(),
+  data: tokensSchema,
+});
+
+/**
+ * An active session of a user
+ */
+export const sessionSchema = z.object({
+  id: z.number().int(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: dateTimeSchema,
+  expiredAt: dateTimeSchema,
+  current: z.boolean().describe("Whether it is the session of the request"),
+});
+
+/**
+ * The notification preferences of a user
+ */
+export const notificationPreferencesSchema = z.object({
+  dueReminders: z.boolean(),
+  reminderHours: z.number().int(),
+  overdueReminders: z.boolean(),
+  dailyDigest: z.boolean(),
+  digestHour: z.number().int().describe("The hour in UTC"),
+  updatedAt: dateTimeSchema.nullable(),
+});
@@ -0,0 +1,60 @@
+/**
+ * The schemas of the envelopes shared by every JSON response.
+ *
+ * @module schemas/common
+ */
+import { z, ZodRawShape } from "zod";
+
+/**
+ * A date and time, sent as an ISO 8601 string
+ */
+export const dateTimeSchema = z.string().datetime();
+
+/**
+ * The response of a request that succeeded without returning data
+ */
+export const statusSchema = z.object({ status: z.literal("success") });
+
+/**
+ * Creates the schema of a response that succeeded with data
+ *
+ * @param {ZodRawShape} data - The shape of the data of the response
+ * @returns {ZodObject} - The schema of the response envelope
+ */
+export const successSchema = <T extends ZodRawShape>(data: T) =>
+  z.object({ status: z.literal("success"), data: z.object(data) });
+
+/**
+ * The offset pagination of a list
+ */
+export const pageMetaSchema = z.object({
+  total: z.number().int().describe("The number of items matching the filters"),
+  page: z.number().int(),
+  perPage: z.number().int(),
+  pageCount: z.number().int(),
+});
+
+/**
+ * The error envelope of every failed request
+ */
+export const errorSchema = z.object({
+  status: z.literal("error"),
+  error: z.object({
+    code: z.string().describe("The machine readable error code"),
+    message: z.string().describe("The human readable error message"),
+    details: z
+      .array(
+        z.object({
+          field: z.string(),
+          message: z.string(),
+          row: z
+            .number()
+            .int()
+            .optional()
+            .describe("The row of the field in an imported file"),
+        }),
+      )
+      .optional()
+      .describe("The fields that failed validation"),
+  }),
+});
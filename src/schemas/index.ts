@@ -0,0 +1,80 @@
+import {
+  dateTimeSchema,
+  errorSchema,
+  pageMetaSchema,
+  statusSchema,
+  successSchema,
+} from "./common.schema";
+import {
+  notificationPreferencesSchema,
+  sessionSchema,
+  tokensResponseSchema,
+  tokensSchema,
+} from "./auth.schema";
+import { tagSchema } from "./tag.schema";
+import {
+  bulkTaskResultSchema,
+  exportedTaskSchema,
+  taskFieldsSchema,
+  taskListMetaSchema,
+  taskSchema,
+} from "./task.schema";
+import { userSchema } from "./user.schema";
+import { activitySchema } from "./activity.schema";
+import {
+  memberSchema,
+  projectDetailsSchema,
+  projectSchema,
+} from "./project.schema";
+import { webhookDeliverySchema, webhookSchema } from "./webhook.schema";
+
+/**
+ * The schemas listed by name in the components of the OpenAPI document,
+ * and referenced wherever they are used
+ */
+const componentSchemas = {
+  Error: errorSchema,
+  Tokens: tokensSchema,
+  Session: sessionSchema,
+  NotificationPreferences: notificationPreferencesSchema,
+  Tag: tagSchema,
+  TaskFields: taskFieldsSchema,
+  Task: taskSchema,
+  TaskListMeta: taskListMetaSchema,
+  BulkTaskResult: bulkTaskResultSchema,
+  ExportedTask: exportedTaskSchema,
+  Member: memberSchema,
+  Project: projectSchema,
+  ProjectDetails: projectDetailsSchema,
+  User: userSchema,
+  Activity: activitySchema,
+  Webhook: webhookSchema,
+  WebhookDelivery: webhookDeliverySchema,
+  PageMeta: pageMetaSchema,
+};
+
+export {
+  componentSchemas,
+  dateTimeSchema,
+  errorSchema,
+  pageMetaSchema,
+  statusSchema,
+  successSchema,
+  notificationPreferencesSchema,
+  sessionSchema,
+  tokensResponseSchema,
+  tokensSchema,
+  tagSchema,
+  bulkTaskResultSchema,
+  exportedTaskSchema,
+  taskFieldsSchema,
+  taskListMetaSchema,
+  taskSchema,
+  memberSchema,
+  projectDetailsSchema,
+  projectSchema,
+  userSchema,
+  activitySchema,
+  webhookSchema,
+  webhookDeliverySchema,
+};
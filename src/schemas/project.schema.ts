@@ -0,0 +1,41 @@
+/**
+ * The schemas of the projects in responses.
+ *
+ * @module schemas/project
+ */
+import { z } from "zod";
+import { ProjectRole } from "../models";
+import { dateTimeSchema } from "./common.schema";
+
+/**
+ * A member of a project
+ */
+export const memberSchema = z.object({
+  userId: z.number().int(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string().email(),
+  role: z.nativeEnum(ProjectRole),
+  joinedAt: dateTimeSchema,
+});
+
+/**
+ * A project with the role of the authenticated user
+ */
+export const projectSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  description: z.string().nullable(),
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema.nullable(),
+  role: z
+    .nativeEnum(ProjectRole)
+    .describe("The role of the authenticated user in the project"),
+});
+
+/**
+ * A project with its members
+ */
+export const projectDetailsSchema = projectSchema.extend({
+  members: z.array(memberSchema),
+});
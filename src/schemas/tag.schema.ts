@@ -0,0 +1,17 @@
+/**
+ * The schemas of the tags in responses.
+ *
+ * @module schemas/tag
+ */
+import { z } from "zod";
+import { dateTimeSchema } from "./common.schema";
+
+/**
+ * A tag of a user
+ */
+export const tagSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  color: z.string().nullable(),
+  createdAt: dateTimeSchema,
+});
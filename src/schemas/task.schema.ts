@@ -0,0 +1,105 @@
+/**
+ * The schemas of the tasks in responses.
+ *
+ * @module schemas/task
+ */
+import { z } from "zod";
+import { TaskPriority, TaskStatus } from "../models";
+import { dateTimeSchema, errorSchema } from "./common.schema";
+import { tagSchema } from "./tag.schema";
+
+/**
+ * The fields of a task, without its relations
+ */
+export const taskFieldsSchema = z.object({
+  id: z.number().int(),
+  title: z.string(),
+  description: z.string(),
+  completed: z.boolean(),
+  status: z.nativeEnum(TaskStatus),
+  priority: z.nativeEnum(TaskPriority),
+  dueAt: dateTimeSchema.nullable(),
+  completedAt: dateTimeSchema.nullable(),
+  position: z.number().int(),
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema.nullable(),
+  deletedAt: dateTimeSchema
+    .nullable()
+    .describe("When the task was moved to the trash, null otherwise"),
+  projectId: z.number().int().nullable(),
+  assigneeId: z.number().int().nullable(),
+});
+
+/**
+ * A task with its tags, and its parent and progress where they are loaded
+ */
+export const taskSchema = taskFieldsSchema.extend({
+  tags: z.array(tagSchema),
+  parent: taskFieldsSchema
+    .nullable()
+    .optional()
+    .describe("The parent task of a subtask"),
+  progress: z
+    .object({ done: z.number().int(), total: z.number().int() })
+    .optional()
+    .describe("The number of done subtasks out of all subtasks"),
+});
+
+/**
+ * A task as it is exported to a file, with the names of its tags
+ */
+export const exportedTaskSchema = taskFieldsSchema
+  .pick({
+    id: true,
+    title: true,
+    description: true,
+    status: true,
+    priority: true,
+    dueAt: true,
+    completedAt: true,
+    projectId: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    tags: z.array(z.string()).describe("The names of the tags of the task"),
+    parentId: z
+      .number()
+      .int()
+      .nullable()
+      .describe("The id of the parent task of a subtask"),
+  });
+
+/**
+ * The pagination of a list of tasks
+ */
+export const taskListMetaSchema = z.object({
+  total: z.number().int().describe("The number of tasks matching the filters"),
+  page: z
+    .number()
+    .int()
+    .nullable()
+    .describe("The page number, null with cursor pagination"),
+  perPage: z.number().int(),
+  pageCount: z.number().int(),
+  nextCursor: z
+    .string()
+    .nullable()
+    .describe("The cursor of the next page, null on the last page"),
+});
+
+/**
+ * The result of an operation of a bulk request, with the task it created,
+ * changed or deleted, or the error it failed with
+ */
+export const bulkTaskResultSchema = z.object({
+  index: z.number().int().describe("The position of the operation"),
+  action: z.enum(["create", "update", "complete", "delete"]),
+  status: z.enum(["success", "error"]),
+  task: taskSchema
+    .optional()
+    .describe("The task, when the operation succeeded"),
+  error: errorSchema.shape.error
+    .optional()
+    .describe("The error, when the operation failed"),
+});
@@ -0,0 +1,27 @@
+/**
+ * The schemas of the users in the responses of the admin routes.
+ *
+ * @module schemas/user
+ */
+import { z } from "zod";
+import { UserRole } from "../models";
+import { dateTimeSchema } from "./common.schema";
+
+/**
+ * A user, as seen by an admin
+ */
+export const userSchema = z.object({
+  id: z.number().int(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string().email(),
+  role: z.nativeEnum(UserRole),
+  emailVerifiedAt: dateTimeSchema.nullable(),
+  failedLoginAttempts: z.number().int(),
+  lockedUntil: dateTimeSchema
+    .nullable()
+    .describe("The end of the lock after too many failed logins"),
+  disabledAt: dateTimeSchema
+    .nullable()
+    .describe("When an admin disabled the user, null while enabled"),
+});
@@ -0,0 +1,50 @@
+/**
+ * The schemas of the webhooks and of their deliveries in responses.
+ *
+ * @module schemas/webhook
+ */
+import { z } from "zod";
+import { WebhookDeliveryStatus, WebhookEvent } from "../models";
+import { dateTimeSchema } from "./common.schema";
+
+/**
+ * A webhook of a user
+ */
+export const webhookSchema = z.object({
+  id: z.number().int(),
+  url: z.string(),
+  events: z.array(z.nativeEnum(WebhookEvent)),
+  active: z.boolean(),
+  secret: z
+    .string()
+    .optional()
+    .describe(
+      "The secret signing the deliveries, only returned when the webhook is created",
+    ),
+  createdAt: dateTimeSchema,
+  updatedAt: dateTimeSchema.nullable(),
+});
+
+/**
+ * A delivery of an event to a webhook, with the outcome of its last attempt
+ */
+export const webhookDeliverySchema = z.object({
+  id: z.number().int(),
+  event: z.string().describe("The event, or webhook.test for a test event"),
+  payload: z
+    .object({
+      id: z.string().describe("The id of the event, sent as X-Webhook-Id"),
+      event: z.string(),
+      createdAt: dateTimeSchema,
+      data: z.record(z.unknown()),
+    })
+    .describe("The JSON body posted to the webhook"),
+  status: z.nativeEnum(WebhookDeliveryStatus),
+  attempts: z.number().int(),
+  responseStatus: z.number().int().nullable(),
+  error: z.string().nullable().describe("Why the last attempt failed"),
+  durationMs: z.number().int().nullable(),
+  createdAt: dateTimeSchema,
+  lastAttemptAt: dateTimeSchema.nullable(),
+  deliveredAt: dateTimeSchema.nullable(),
+});
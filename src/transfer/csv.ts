@@ -0,0 +1,96 @@
+/**
+ * Reading and writing CSV files, as described by RFC 4180.
+ *
+ * @module transfer/csv
+ */
+
+/**
+ * Formats the values of a row of a CSV file
+ *
+ * @description
+ * The values containing a comma, a quote or a line break are quoted, with
+ * their quotes doubled.
+ *
+ * @param {string[]} values - The values of the row
+ * @returns {string} - The row, ending with a line break
+ */
+export const formatCsvRow = (values: string[]): string => {
+  const cells = values.map((value) =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+  );
+
+  return `${cells.join(",")}\r\n`;
+};
+
+/**
+ * Parses the rows of a CSV file
+ *
+ * @description
+ * Quoted values can contain commas, doubled quotes and line breaks. The
+ * empty lines are skipped.
+ *
+ * @param {string} content - The content of the file
+ * @returns {string[][]} - The values of each row
+ *
+ * @throws {Error} - If a quoted value is not closed
+ */
+export const parseCsv = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+  let index = 0;
+
+  /**
+   * Ends the current row, unless it is an empty line
+   */
+  const endRow = () => {
+    row.push(value);
+
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row);
+    }
+
+    row = [];
+    value = "";
+  };
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        value += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      // A CRLF line break ends a single row
+      if (char === "\r" && content[index + 1] === "\n") {
+        index += 1;
+      }
+
+      endRow();
+    } else {
+      value += char;
+    }
+
+    index += 1;
+  }
+
+  if (quoted) {
+    throw new Error("A quoted value is not closed");
+  }
+
+  endRow();
+
+  return rows;
+};
@@ -0,0 +1,161 @@
+/**
+ * Reading and writing iCalendar files, as described by RFC 5545.
+ *
+ * @module transfer/ical
+ */
+
+/**
+ * A component of an iCalendar file, like a VTODO
+ */
+export interface CalendarComponent {
+  /**
+   * The name of the component, like "VTODO"
+   */
+  name: string;
+  /**
+   * The escaped values of the properties of the component by their name
+   */
+  properties: Record<string, string>;
+}
+
+/**
+ * Escapes a text value of an iCalendar property
+ *
+ * @param {string} text - The text
+ * @returns {string} - The escaped text
+ */
+export const escapeCalendarText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Unescapes a text value of an iCalendar property
+ *
+ * @param {string} text - The escaped text
+ * @returns {string} - The text
+ */
+export const unescapeCalendarText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (match, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+
+/**
+ * Parses a list of text values of an iCalendar property, like CATEGORIES
+ *
+ * @param {string} value - The escaped values, separated by commas
+ * @returns {string[]} - The unescaped values
+ */
+export const parseCalendarList = (value: string): string[] =>
+  (value.match(/(?:\\.|[^,\\])+/g) || []).map(unescapeCalendarText);
+
+/**
+ * Formats a date as an iCalendar date and time in UTC, like 20300101T120000Z
+ *
+ * @param {Date} date - The date
+ * @returns {string} - The formatted date
+ */
+export const formatCalendarDate = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+/**
+ * Parses an iCalendar date, or date and time
+ *
+ * @description
+ * The dates without a time are at midnight, and the floating times without
+ * a time zone are read as UTC.
+ *
+ * @param {string} value - The date, like 20300101 or 20300101T120000Z
+ * @returns {string | null} - The date as an ISO 8601 string, or null if it is invalid
+ */
+export const parseCalendarDate = (value: string): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+    value,
+  );
+
+  if (!match) {
+    return null;
+  }
+
+  return `${match[1]}-${match[2]}-${match[3]}T${match[4] || "00"}:${match[5] || "00"}:${match[6] || "00"}Z`;
+};
+
+/**
+ * Formats a property of an iCalendar file
+ *
+ * @description
+ * The lines longer than 75 characters are folded, each continuation line
+ * starting with a space.
+ *
+ * @param {string} name - The name of the property
+ * @param {string} value - The value of the property, already escaped
+ * @returns {string} - The property, ending with a line break
+ */
+export const formatCalendarProperty = (name: string, value: string): string => {
+  const line = `${name}:${value}`;
+  const lines = [line.slice(0, 75)];
+
+  for (let index = 75; index < line.length; index += 74) {
+    lines.push(` ${line.slice(index, index + 74)}`);
+  }
+
+  return `${lines.join("\r\n")}\r\n`;
+};
+
+/**
+ * Parses the components of an iCalendar file
+ *
+ * @description
+ * The folded lines are unfolded, and the parameters of the properties, like
+ * the time zone of a date, are ignored. Only the components nested in the
+ * VCALENDAR are returned, without the components nested in them.
+ *
+ * @param {string} content - The content of the file
+ * @returns {CalendarComponent[]} - The components of the calendar
+ *
+ * @throws {Error} - If the file is not an iCalendar file
+ */
+export const parseCalendar = (content: string): CalendarComponent[] => {
+  const lines = content
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "");
+
+  if (lines.length === 0 || lines[0].trim() !== "BEGIN:VCALENDAR") {
+    throw new Error("The file must start with BEGIN:VCALENDAR");
+  }
+
+  const components: CalendarComponent[] = [];
+  const nesting: string[] = [];
+  let component: CalendarComponent | null = null;
+
+  lines.forEach((line) => {
+    const separator = line.indexOf(":");
+    const name = line.slice(0, separator).split(";")[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "BEGIN") {
+      nesting.push(value);
+
+      if (nesting.length === 2) {
+        component = { name: value, properties: {} };
+        components.push(component);
+      }
+    } else if (name === "END") {
+      nesting.pop();
+    } else if (component && nesting.length === 2 && separator > 0) {
+      component.properties[name] = value;
+    }
+  });
+
+  if (nesting.length > 0) {
+    throw new Error(`The ${nesting[nesting.length - 1]} is not ended`);
+  }
+
+  return components;
+};
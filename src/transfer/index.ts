@@ -0,0 +1,31 @@
+import {
+  ExportedTask,
+  TASK_FILE_FORMATS,
+  TaskFileFormat,
+  TaskFileFormatName,
+  taskFileFormats,
+  toExportedTask,
+} from "./task-formats";
+import {
+  createImportedTasks,
+  ImportedTask,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_TASKS,
+  saveImportedTasks,
+  validateImportedTasks,
+} from "./task-import";
+
+export {
+  ExportedTask,
+  TASK_FILE_FORMATS,
+  TaskFileFormat,
+  TaskFileFormatName,
+  taskFileFormats,
+  toExportedTask,
+  createImportedTasks,
+  ImportedTask,
+  MAX_IMPORT_FILE_SIZE,
+  MAX_IMPORT_TASKS,
+  saveImportedTasks,
+  validateImportedTasks,
+};
@@ -0,0 +1,327 @@
+/**
+ * The file formats the tasks are exported to and imported from.
+ *
+ * @description
+ * Every format writes a file in three parts, its beginning, one entry per
+ * task and its end, so that the tasks can be streamed as they are read. The
+ * imported files are read into one record per task, validated by the import.
+ *
+ * @module transfer/task-formats
+ */
+import { Task, TaskPriority, TaskStatus } from "../models";
+import { formatCsvRow, parseCsv } from "./csv";
+import {
+  escapeCalendarText,
+  formatCalendarDate,
+  formatCalendarProperty,
+  parseCalendar,
+  parseCalendarDate,
+  parseCalendarList,
+  unescapeCalendarText,
+} from "./ical";
+
+/**
+ * The names of the file formats
+ */
+export const TASK_FILE_FORMATS = ["json", "csv", "ics"] as const;
+
+/**
+ * The name of a file format
+ */
+export type TaskFileFormatName = (typeof TASK_FILE_FORMATS)[number];
+
+/**
+ * A task as it is written to an exported file
+ */
+export interface ExportedTask {
+  id: number;
+  title: string;
+  description: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  dueAt: Date | null;
+  completedAt: Date | null;
+  tags: string[];
+  projectId: number | null;
+  parentId: number | null;
+  createdAt: Date;
+  updatedAt: Date | null;
+}
+
+/**
+ * A file format of the tasks
+ */
+export interface TaskFileFormat {
+  /**
+   * The media type of the files
+   */
+  contentType: string;
+  /**
+   * Writes the beginning of a file
+   */
+  begin: () => string;
+  /**
+   * Writes the entry of a task, given its position in the file
+   */
+  formatTask: (task: ExportedTask, index: number) => string;
+  /**
+   * Writes the end of a file
+   */
+  end: () => string;
+  /**
+   * Reads the records of the tasks of a file, throwing if it is malformed
+   */
+  parse: (content: string) => Record<string, unknown>[];
+}
+
+/**
+ * Converts a task to the entry of an exported file
+ *
+ * @param {Task} task - The task, with its tags and the id of its parent
+ * @returns {ExportedTask} - The exported task
+ */
+export const toExportedTask = (task: Task): ExportedTask => ({
+  id: task.id,
+  title: task.title,
+  description: task.description,
+  status: task.status,
+  priority: task.priority,
+  dueAt: task.dueAt,
+  completedAt: task.completedAt,
+  tags: (task.tags || []).map((tag) => tag.name),
+  projectId: task.projectId || null,
+  parentId: task.parent ? task.parent.id : null,
+  createdAt: task.createdAt,
+  updatedAt: task.updatedAt,
+});
+
+/**
+ * The columns of a CSV file, named like the fields of a JSON file
+ */
+const CSV_COLUMNS: (keyof ExportedTask)[] = [
+  "id",
+  "title",
+  "description",
+  "status",
+  "priority",
+  "dueAt",
+  "completedAt",
+  "tags",
+  "projectId",
+  "parentId",
+  "createdAt",
+  "updatedAt",
+];
+
+/**
+ * The iCalendar statuses of the statuses of the tasks, blocked tasks
+ * being tasks that still need action
+ */
+const CALENDAR_STATUSES: Record<TaskStatus, string> = {
+  [TaskStatus.Todo]: "NEEDS-ACTION",
+  [TaskStatus.InProgress]: "IN-PROCESS",
+  [TaskStatus.Blocked]: "NEEDS-ACTION",
+  [TaskStatus.Done]: "COMPLETED",
+};
+
+/**
+ * The iCalendar priorities of the priorities of the tasks, from 1 the
+ * highest to 9 the lowest
+ */
+const CALENDAR_PRIORITIES: Record<TaskPriority, number> = {
+  [TaskPriority.Urgent]: 1,
+  [TaskPriority.High]: 3,
+  [TaskPriority.Medium]: 5,
+  [TaskPriority.Low]: 9,
+};
+
+/**
+ * Reads the status of a task from its iCalendar status
+ *
+ * @param {string} status - The iCalendar status
+ * @returns {string | undefined} - The status, the unknown ones left as they
+ * are to fail validation
+ */
+const parseCalendarStatus = (status: string | undefined) => {
+  switch (status) {
+    case undefined:
+      return undefined;
+    case "NEEDS-ACTION":
+      return TaskStatus.Todo;
+    case "IN-PROCESS":
+      return TaskStatus.InProgress;
+    // There is no cancelled status, so cancelled tasks are closed as done
+    case "COMPLETED":
+    case "CANCELLED":
+      return TaskStatus.Done;
+    default:
+      return status.toLowerCase();
+  }
+};
+
+/**
+ * Reads the priority of a task from its iCalendar priority
+ *
+ * @param {string} priority - The iCalendar priority, from 0 for none to 9
+ * @returns {string | undefined} - The priority, the invalid ones left as they
+ * are to fail validation
+ */
+const parseCalendarPriority = (priority: string | undefined) => {
+  if (priority === undefined || priority === "0") {
+    return undefined;
+  }
+
+  if (!/^[1-9]$/.test(priority)) {
+    return priority;
+  }
+
+  const level = Number(priority);
+
+  return level === 1
+    ? TaskPriority.Urgent
+    : level < 5
+      ? TaskPriority.High
+      : level === 5
+        ? TaskPriority.Medium
+        : TaskPriority.Low;
+};
+
+/**
+ * A JSON array of the tasks
+ */
+const jsonFormat: TaskFileFormat = {
+  contentType: "application/json",
+  begin: () => "[\n",
+  formatTask: (task, index) =>
+    `${index > 0 ? ",\n" : ""}${JSON.stringify(task)}`,
+  end: () => "\n]\n",
+  parse: (content) => {
+    const records = JSON.parse(content);
+
+    if (
+      !Array.isArray(records) ||
+      records.some((record) => typeof record !== "object" || !record)
+    ) {
+      throw new Error("The file must contain an array of tasks");
+    }
+
+    return records;
+  },
+};
+
+/**
+ * A CSV file with a header row, and the tags separated by commas
+ */
+const csvFormat: TaskFileFormat = {
+  contentType: "text/csv; charset=utf-8",
+  begin: () => formatCsvRow(CSV_COLUMNS),
+  formatTask: (task) =>
+    formatCsvRow(
+      CSV_COLUMNS.map((column) => {
+        const value = task[column];
+
+        if (value === null) {
+          return "";
+        }
+
+        if (value instanceof Date) {
+          return value.toISOString();
+        }
+
+        return Array.isArray(value) ? value.join(",") : String(value);
+      }),
+    ),
+  end: () => "",
+  parse: (content) => {
+    const [header, ...rows] = parseCsv(content);
+
+    if (!header || header.indexOf("title") === -1) {
+      throw new Error("The file must start with a header row with a title");
+    }
+
+    return rows.map((row) => {
+      const record: Record<string, unknown> = {};
+
+      // The empty values are left out, like the missing fields of a JSON file
+      header.forEach((column, index) => {
+        if (row[index] !== undefined && row[index] !== "") {
+          record[column.trim()] =
+            column.trim() === "tags" ? row[index].split(",") : row[index];
+        }
+      });
+
+      return record;
+    });
+  },
+};
+
+/**
+ * An iCalendar file with one VTODO per task
+ */
+const icsFormat: TaskFileFormat = {
+  contentType: "text/calendar; charset=utf-8",
+  begin: () =>
+    formatCalendarProperty("BEGIN", "VCALENDAR") +
+    formatCalendarProperty("VERSION", "2.0") +
+    formatCalendarProperty("PRODID", "-//Tasks API//EN"),
+  formatTask: (task) =>
+    [
+      ["BEGIN", "VTODO"],
+      ["UID", `task-${task.id}`],
+      ["DTSTAMP", formatCalendarDate(new Date())],
+      ["CREATED", formatCalendarDate(task.createdAt)],
+      task.updatedAt && ["LAST-MODIFIED", formatCalendarDate(task.updatedAt)],
+      ["SUMMARY", escapeCalendarText(task.title)],
+      task.description && ["DESCRIPTION", escapeCalendarText(task.description)],
+      ["STATUS", CALENDAR_STATUSES[task.status]],
+      ["PRIORITY", String(CALENDAR_PRIORITIES[task.priority])],
+      task.dueAt && ["DUE", formatCalendarDate(task.dueAt)],
+      task.completedAt && ["COMPLETED", formatCalendarDate(task.completedAt)],
+      task.tags.length > 0 && [
+        "CATEGORIES",
+        task.tags.map(escapeCalendarText).join(","),
+      ],
+      task.parentId && ["RELATED-TO", `task-${task.parentId}`],
+      ["END", "VTODO"],
+    ]
+      .filter((property) => property)
+      .map(([name, value]: string[]) => formatCalendarProperty(name, value))
+      .join(""),
+  end: () => formatCalendarProperty("END", "VCALENDAR"),
+  parse: (content) =>
+    parseCalendar(content)
+      .filter((component) => component.name === "VTODO")
+      .map(({ properties }) => {
+        const date = (value: string | undefined) =>
+          value === undefined ? undefined : parseCalendarDate(value) || value;
+
+        return {
+          id: properties.UID,
+          title:
+            properties.SUMMARY === undefined
+              ? undefined
+              : unescapeCalendarText(properties.SUMMARY),
+          description:
+            properties.DESCRIPTION === undefined
+              ? undefined
+              : unescapeCalendarText(properties.DESCRIPTION),
+          status: parseCalendarStatus(properties.STATUS),
+          priority: parseCalendarPriority(properties.PRIORITY),
+          dueAt: date(properties.DUE),
+          completedAt: date(properties.COMPLETED),
+          tags: properties.CATEGORIES
+            ? parseCalendarList(properties.CATEGORIES)
+            : undefined,
+          parentId: properties["RELATED-TO"],
+        };
+      }),
+};
+
+/**
+ * The file formats by their name
+ */
+export const taskFileFormats: Record<TaskFileFormatName, TaskFileFormat> = {
+  json: jsonFormat,
+  csv: csvFormat,
+  ics: icsFormat,
+};
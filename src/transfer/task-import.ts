@@ -0,0 +1,273 @@
+/**
+ * The import of the tasks of a file.
+ *
+ * @description
+ * The records read from a file are validated one by one, and every invalid
+ * field is reported with the row of its task, so that a file is fixed in a
+ * single pass. The tasks are imported as personal tasks of the user, with
+ * the tags named in the file, which are created when the user has no tag
+ * with their name. The subtasks are linked to their parent by the ids of
+ * the file, which are not kept.
+ *
+ * @module transfer/task-import
+ */
+import { EntityManager } from "typeorm";
+import { z } from "zod";
+import { ValidationDetail } from "../errors";
+import { Tag, Task, TaskPriority, TaskStatus, User } from "../models";
+
+/**
+ * The largest file that can be imported, in bytes
+ */
+export const MAX_IMPORT_FILE_SIZE = 1024 * 1024;
+
+/**
+ * The largest number of tasks a file can contain
+ */
+export const MAX_IMPORT_TASKS = 1000;
+
+/**
+ * An id of a file, a number or a string depending on the format
+ */
+const importedId = z.union([z.number(), z.string().min(1)]).transform(String);
+
+/**
+ * A task of an imported file
+ */
+const importedTaskSchema = z.object({
+  /**
+   * The id of the task in the file, referenced by its subtasks
+   * @type {string}
+   */
+  id: importedId.optional(),
+  /**
+   * The title of the task
+   * @type {string}
+   */
+  title: z.string().trim().min(1),
+  /**
+   * The description of the task, empty by default
+   * @type {string}
+   */
+  description: z.string().default(""),
+  /**
+   * The status of the task, todo by default
+   * @type {TaskStatus}
+   */
+  status: z.nativeEnum(TaskStatus).default(TaskStatus.Todo),
+  /**
+   * The priority of the task, medium by default
+   * @type {TaskPriority}
+   */
+  priority: z.nativeEnum(TaskPriority).default(TaskPriority.Medium),
+  /**
+   * The date and time when the task is due
+   * @type {Date | null}
+   */
+  dueAt: z.coerce.date().nullable().optional(),
+  /**
+   * The date and time when a done task was completed, now by default
+   * @type {Date | null}
+   */
+  completedAt: z.coerce.date().nullable().optional(),
+  /**
+   * The names of the tags of the task
+   * @type {string[]}
+   */
+  tags: z.array(z.string().trim().min(1).max(50)).max(50).default([]),
+  /**
+   * The id in the file of the parent of a subtask
+   * @type {string | null}
+   */
+  parentId: importedId.nullable().optional(),
+});
+
+/**
+ * A validated task of an imported file
+ */
+export type ImportedTask = z.infer<typeof importedTaskSchema>;
+
+/**
+ * Validates the records of the tasks of a file
+ *
+ * @description
+ * The rows are numbered from 1 for the first task of the file. A subtask
+ * must reference the id of a task of the file that is not itself a subtask.
+ *
+ * @param {Object[]} records - The records read from the file
+ * @returns {Object} - The valid tasks, and the details of the invalid fields
+ * with their row
+ */
+export const validateImportedTasks = (records: Record<string, unknown>[]) => {
+  const tasks: ImportedTask[] = [];
+  const details: ValidationDetail[] = [];
+
+  records.forEach((record, index) => {
+    const result = importedTaskSchema.safeParse(record);
+
+    if (result.success) {
+      tasks.push(result.data);
+    } else {
+      result.error.issues.forEach((issue) => {
+        details.push({
+          row: index + 1,
+          field: issue.path.join("."),
+          message: issue.message,
+        });
+      });
+    }
+  });
+
+  // The references between the tasks are only checked once every task is valid
+  if (details.length > 0) {
+    return { tasks, details };
+  }
+
+  tasks.forEach((task, index) => {
+    const isDuplicate = tasks.some(
+      (other, otherIndex) =>
+        task.id !== undefined && other.id === task.id && otherIndex < index,
+    );
+
+    if (isDuplicate) {
+      details.push({
+        row: index + 1,
+        field: "id",
+        message: `Duplicate id ${task.id}`,
+      });
+    }
+
+    const parent = task.parentId
+      ? tasks.filter((other) => other.id === task.parentId)[0]
+      : null;
+
+    if (task.parentId && (!parent || parent.parentId)) {
+      details.push({
+        row: index + 1,
+        field: "parentId",
+        message: "The parent must be a task of the file that is not a subtask",
+      });
+    }
+  });
+
+  return { tasks, details };
+};
+
+/**
+ * Creates the tasks of a file for a user, without saving them
+ *
+ * @description
+ * The tags are matched by their name without regard to case, and the
+ * missing ones are created unsaved too.
+ *
+ * @param {EntityManager} manager - The entity manager to read the tags with
+ * @param {User} user - The user importing the tasks
+ * @param {ImportedTask[]} importedTasks - The validated tasks of the file
+ * @returns {Promise<Object>} - The tasks in the order of the file, and the new tags
+ */
+export const createImportedTasks = async (
+  manager: EntityManager,
+  user: User,
+  importedTasks: ImportedTask[],
+) => {
+  const names: string[] = [];
+
+  importedTasks.forEach((importedTask) => {
+    importedTask.tags.forEach((name) => {
+      if (names.indexOf(name.toLowerCase()) === -1) {
+        names.push(name.toLowerCase());
+      }
+    });
+  });
+
+  const tags =
+    names.length > 0
+      ? await manager
+          .createQueryBuilder(Tag, "tag")
+          .where("tag.user = :userId", { userId: user.id })
+          .andWhere("LOWER(tag.name) IN (:...names)", { names })
+          .getMany()
+      : [];
+  const newTags: Tag[] = [];
+
+  /**
+   * Finds the tag with a name, creating it if the user has none
+   *
+   * @param {string} name - The name of the tag
+   * @returns {Tag} - The tag
+   */
+  const findTag = (name: string) => {
+    const existing = tags
+      .concat(newTags)
+      .filter((tag) => tag.name.toLowerCase() === name.toLowerCase())[0];
+
+    if (existing) {
+      return existing;
+    }
+
+    const tag = new Tag();
+    tag.name = name;
+    tag.color = null;
+    tag.user = user;
+    tag.createdAt = new Date();
+    newTags.push(tag);
+
+    return tag;
+  };
+
+  const tasks = importedTasks.map((importedTask) => {
+    const task = new Task();
+    task.title = importedTask.title;
+    task.description = importedTask.description;
+    task.user = user;
+    task.priority = importedTask.priority;
+    task.dueAt = importedTask.dueAt || null;
+    task.status = TaskStatus.Todo;
+    task.setStatus(importedTask.status);
+    task.tags = importedTask.tags.map(findTag);
+    task.project = null;
+    task.assignee = null;
+    task.createdAt = new Date();
+
+    if (importedTask.status === TaskStatus.Done && importedTask.completedAt) {
+      task.completedAt = importedTask.completedAt;
+    }
+
+    return task;
+  });
+
+  // Link the subtasks to their parent, in the order of the file
+  importedTasks.forEach((importedTask, index) => {
+    if (!importedTask.parentId) {
+      return;
+    }
+
+    const parentIndex = importedTasks
+      .map((other) => other.id)
+      .indexOf(importedTask.parentId);
+
+    tasks[index].parent = tasks[parentIndex];
+    tasks[index].position =
+      tasks.filter((task) => task.parent === tasks[parentIndex]).length - 1;
+  });
+
+  return { tasks, newTags };
+};
+
+/**
+ * Saves the tasks and tags created by createImportedTasks
+ *
+ * @param {EntityManager} manager - The entity manager of a transaction
+ * @param {Task[]} tasks - The imported tasks
+ * @param {Tag[]} newTags - The new tags of the tasks
+ */
+export const saveImportedTasks = async (
+  manager: EntityManager,
+  tasks: Task[],
+  newTags: Tag[],
+) => {
+  await manager.save(newTags);
+  // The parents are saved first, for their subtasks to reference their id
+  await manager.save(tasks.filter((task) => !task.parent));
+  await manager.save(tasks.filter((task) => task.parent));
+};
@@ -0,0 +1,36 @@
+import { Context } from "hono";
+import { HttpBindings } from "@hono/node-server";
+
+/**
+ * Get the IP address of the client that sent the request
+ *
+ * @description
+ * The remote address of the Node.js socket is used by default, as the
+ * X-Forwarded-For header can be set by any client. Behind proxies, set
+ * TRUST_PROXY to their number: each proxy appends the address it received
+ * the request from to the header, so the client is the address that many
+ * hops before the socket, and the addresses before it are ignored.
+ *
+ * @param {Context} context - The Hono context object
+ * @returns {string | null} - The IP address of the client or null if unknown
+ */
+export const getClientIp = (context: Context): string | null => {
+  const env = context.env as HttpBindings | undefined;
+  const remoteAddress = env?.incoming?.socket?.remoteAddress || null;
+  const trustedProxies = parseInt(process.env.TRUST_PROXY) || 0;
+
+  if (trustedProxies <= 0) {
+    return remoteAddress;
+  }
+
+  // The addresses from the closest to the farthest: the socket, then the
+  // hops of the header from the last one
+  const forwardedFor = (context.req.header("x-forwarded-for") || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter((address) => address !== "")
+    .reverse();
+  const addresses = [remoteAddress].concat(forwardedFor);
+
+  return addresses[Math.min(trustedProxies, addresses.length - 1)] || null;
+};
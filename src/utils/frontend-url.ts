@@ -0,0 +1,15 @@
+/**
+ * Get the URL of a page of the frontend
+ *
+ * @description
+ * The links of the emails that are opened in a browser but need a form or
+ * the session of the user, like accepting an invitation, go to the frontend
+ * at FRONTEND_URL. The page reads the values of the link from its query
+ * string and posts them to the API. The API serves the frontend at APP_URL
+ * when FRONTEND_URL is not set.
+ *
+ * @param {string} path - The path of the page, with its query string
+ * @returns {string} - The URL of the page
+ */
+export const getFrontendUrl = (path: string): string =>
+  `${process.env.FRONTEND_URL || process.env.APP_URL}${path}`;
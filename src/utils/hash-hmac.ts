@@ -1,8 +1,8 @@
 const crypto = require("crypto");
 
-export const hashHmac = (data: string | any) => {
-  return crypto
-    .createHmac("sha256", process.env.JWT_SECRET)
-    .update(data)
-    .digest("hex");
+export const hashHmac = (
+  data: string | any,
+  key: string = process.env.JWT_SECRET,
+) => {
+  return crypto.createHmac("sha256", key).update(data).digest("hex");
 };
@@ -1,5 +1,6 @@
 import { validate } from "./validate";
-import { sendMail } from "./send-mail";
 import { hashHmac } from "./hash-hmac";
+import { getClientIp } from "./client-ip";
+import { getFrontendUrl } from "./frontend-url";
 
-export { validate, sendMail, hashHmac };
+export { validate, hashHmac, getClientIp, getFrontendUrl };
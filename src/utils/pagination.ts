@@ -0,0 +1,47 @@
+/**
+ * The position of an item in a sorted list, used for cursor pagination
+ */
+export type Cursor = {
+  value: string | number | null;
+  id: number;
+};
+
+/**
+ * Encodes a cursor as an opaque URL safe string
+ *
+ * @param {Cursor} cursor - The sort value and id of the last item of a page
+ * @returns {string} - The encoded cursor
+ */
+export const encodeCursor = (cursor: Cursor): string => {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+};
+
+/**
+ * Decodes a cursor created by encodeCursor
+ *
+ * @param {string} cursor - The encoded cursor
+ * @returns {Cursor | null} - The decoded cursor or null if it is malformed
+ */
+export const decodeCursor = (cursor: string): Cursor | null => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString());
+
+    if (typeof decoded?.id !== "number" || !("value" in decoded)) {
+      return null;
+    }
+
+    return decoded;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Escapes the wildcards of a LIKE pattern, using "!" as the escape character
+ *
+ * @param {string} value - The text to search for
+ * @returns {string} - The text with its "%", "_" and "!" characters escaped
+ */
+export const escapeLike = (value: string): string => {
+  return value.replace(/[!%_]/g, "!$&");
+};
@@ -1,23 +1,60 @@
 import { MiddlewareHandler } from "hono";
 import { ZodError, ZodSchema } from "zod";
+import { ValidationError } from "../errors";
+import { documentHandler } from "../openapi/route-doc";
 
 /**
  * Validate middleware for Hono framework
  *
- * @param {ZodSchema} schema - The Zod schema to validate the request body
+ * @description
+ * The schema also documents the request of the route in the OpenAPI document.
+ *
+ * @param {ZodSchema} schema - The Zod schema to validate the request with
+ * @param {"json" | "form" | "query"} target - The part of the request to
+ * validate, the JSON body by default, the multipart form body or the query string
  * @return {MiddlewareHandler} The middleware function
+ *
+ * @throws {ValidationError} - If the request body is not JSON or fails the schema
  */
-export const validate = (schema: ZodSchema): MiddlewareHandler => {
-  return async (ctx, next) => {
+export const validate = (
+  schema: ZodSchema,
+  target: "json" | "form" | "query" = "json",
+): MiddlewareHandler => {
+  const middleware: MiddlewareHandler = async (ctx, next) => {
+    let data: unknown;
+
+    try {
+      // Parse the request body as JSON or as a form, or read the query string
+      data =
+        target === "json"
+          ? await ctx.req.json()
+          : target === "form"
+            ? await ctx.req.parseBody()
+            : ctx.req.query();
+    } catch (error) {
+      throw new ValidationError(
+        target === "form"
+          ? "Request body must be a valid form"
+          : "Request body must be valid JSON",
+      );
+    }
+
     try {
-      // Parse the request body as JSON
-      const data = await ctx.req.json();
       // Validate the parsed data using the provided schema
       await schema.parseAsync(data);
-      // Call the next middleware
-      await next();
     } catch (error) {
-      return ctx.body(error, 400);
+      if (error instanceof ZodError) {
+        throw ValidationError.fromZodError(error);
+      }
+      throw error;
     }
+
+    // Call the next middleware
+    await next();
   };
+
+  return documentHandler(middleware, {
+    request: { [target]: schema },
+    responses: { 400: { description: "The request failed validation" } },
+  });
 };
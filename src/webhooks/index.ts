@@ -0,0 +1,33 @@
+import {
+  getWebhookClient,
+  httpWebhookClient,
+  setWebhookClient,
+  WebhookClient,
+  WebhookRequest,
+  WebhookResponse,
+} from "./webhook.client";
+import { isPrivateAddress, isPrivateUrl } from "./webhook.address";
+import { sendWebhookDelivery, signWebhookBody } from "./webhook.delivery";
+import {
+  createWebhookDelivery,
+  createWebhookPayload,
+  dispatchWebhookEvent,
+} from "./webhook.events";
+import { TaskWebhookSubscriber } from "./task-webhook.subscriber";
+
+export {
+  getWebhookClient,
+  httpWebhookClient,
+  setWebhookClient,
+  WebhookClient,
+  WebhookRequest,
+  WebhookResponse,
+  isPrivateAddress,
+  isPrivateUrl,
+  sendWebhookDelivery,
+  signWebhookBody,
+  createWebhookDelivery,
+  createWebhookPayload,
+  dispatchWebhookEvent,
+  TaskWebhookSubscriber,
+};
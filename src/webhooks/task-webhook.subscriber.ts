@@ -0,0 +1,68 @@
+import {
+  EntitySubscriberInterface,
+  EventSubscriber,
+  InsertEvent,
+  UpdateEvent,
+} from "typeorm";
+import { Task, TaskStatus, WebhookEvent } from "../models";
+import { dispatchWebhookEvent } from "./webhook.events";
+
+/**
+ * Notifies the webhooks of the changes of the tasks
+ *
+ * @description
+ * Every task saved through an entity manager is dispatched, in the
+ * transaction of the change. Moving a task to the trash is its deletion
+ * for the webhooks, and restoring it an update. The tasks deleted for good
+ * after their time in the trash are not dispatched again.
+ */
+@EventSubscriber()
+export class TaskWebhookSubscriber implements EntitySubscriberInterface<Task> {
+  listenTo() {
+    return Task;
+  }
+
+  /**
+   * Dispatches a created task
+   *
+   * @param {InsertEvent<Task>} event - The insert event
+   */
+  async afterInsert(event: InsertEvent<Task>) {
+    await dispatchWebhookEvent(
+      event.manager,
+      WebhookEvent.TaskCreated,
+      event.entity.id,
+    );
+  }
+
+  /**
+   * Dispatches an updated task as deleted when it moved to the trash, as
+   * completed when its status became done, and as updated otherwise
+   *
+   * @param {UpdateEvent<Task>} event - The update event
+   */
+  async afterUpdate(event: UpdateEvent<Task>) {
+    if (
+      !event.databaseEntity ||
+      (event.updatedColumns.length === 0 && event.updatedRelations.length === 0)
+    ) {
+      return;
+    }
+
+    const before = event.databaseEntity;
+    const after = event.entity as Task;
+    let webhookEvent = WebhookEvent.TaskUpdated;
+
+    if (!before.deletedAt && after.deletedAt) {
+      webhookEvent = WebhookEvent.TaskDeleted;
+    } else if (
+      !after.deletedAt &&
+      before.status !== TaskStatus.Done &&
+      after.status === TaskStatus.Done
+    ) {
+      webhookEvent = WebhookEvent.TaskCompleted;
+    }
+
+    await dispatchWebhookEvent(event.manager, webhookEvent, before.id);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * The checks keeping the webhooks away from the internal network.
+ *
+ * @description
+ * The webhooks are posted by the server, so an endpoint on a loopback,
+ * private, link-local or otherwise reserved address would let a user reach
+ * the services behind it, such as the metadata service of a cloud
+ * provider. These addresses are rejected when a webhook is registered,
+ * and again when its host is resolved for a delivery, as its DNS records
+ * can change in between.
+ *
+ * @module webhooks/address
+ */
+import { lookup, LookupAddress } from "dns";
+import { BlockList, isIP, LookupFunction } from "net";
+
+/**
+ * The addresses the webhooks cannot be posted to
+ */
+const blockedAddresses = new BlockList();
+
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+].forEach(([network, prefix]: [string, number]) =>
+  blockedAddresses.addSubnet(network, prefix, "ipv4"),
+);
+
+[
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]: [string, number]) =>
+  blockedAddresses.addSubnet(network, prefix, "ipv6"),
+);
+
+/**
+ * The host names of the local machine and of the internal networks
+ */
+const INTERNAL_HOST_NAMES = /(^|\.)(localhost|local|internal)$/;
+
+/**
+ * Gets the IPv4 address of an IPv4-mapped IPv6 address, like ::ffff:7f00:1
+ *
+ * @param {string} address - An IPv6 address
+ * @returns {string | null} - The IPv4 address, or null if the address is not mapped
+ */
+const toMappedIPv4 = (address: string): string | null => {
+  const match = /^(?:0{0,4}:){0,5}:?ffff:(.+)$/i.exec(address);
+
+  if (!match) {
+    return null;
+  }
+
+  if (isIP(match[1]) === 4) {
+    return match[1];
+  }
+
+  const groups = match[1].split(":");
+
+  if (groups.length !== 2) {
+    return null;
+  }
+
+  const high = parseInt(groups[0], 16);
+  const low = parseInt(groups[1], 16);
+
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+};
+
+/**
+ * Checks if an IP address is loopback, private, link-local or reserved
+ *
+ * @param {string} address - An IPv4 or IPv6 address
+ * @returns {boolean} - Whether the webhooks cannot be posted to the address
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const version = isIP(address);
+
+  if (version === 4) {
+    return blockedAddresses.check(address, "ipv4");
+  }
+
+  if (version === 6) {
+    const mappedAddress = toMappedIPv4(address);
+
+    return mappedAddress
+      ? blockedAddresses.check(mappedAddress, "ipv4")
+      : blockedAddresses.check(address, "ipv6");
+  }
+
+  return false;
+};
+
+/**
+ * Checks if the host of a URL is an internal host name or a private IP address
+ *
+ * @param {string} url - The URL of a webhook
+ * @returns {boolean} - Whether the webhooks cannot be posted to the URL,
+ * false when it is not a valid URL
+ */
+export const isPrivateUrl = (url: string): boolean => {
+  let hostname: string;
+
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    return false;
+  }
+
+  // The IPv6 addresses are in brackets, and a host name can end with a dot
+  hostname = hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "");
+
+  return INTERNAL_HOST_NAMES.test(hostname) || isPrivateAddress(hostname);
+};
+
+/**
+ * Resolves a host name like dns.lookup, failing when it resolves to a
+ * private address, so that a delivery connects to the address checked
+ */
+export const lookupPublicAddress: LookupFunction = (
+  hostname,
+  options,
+  callback,
+) => {
+  lookup(
+    hostname,
+    { ...options, all: true },
+    (error, addresses: LookupAddress[]) => {
+      if (error) {
+        callback(error, undefined);
+        return;
+      }
+
+      if (
+        addresses.length === 0 ||
+        addresses.some(({ address }) => isPrivateAddress(address))
+      ) {
+        callback(
+          new Error(`${hostname} resolves to a private address`),
+          undefined,
+        );
+        return;
+      }
+
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    },
+  );
+};
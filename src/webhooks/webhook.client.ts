@@ -0,0 +1,113 @@
+/**
+ * The HTTP client posting the deliveries of the webhooks.
+ *
+ * @description
+ * The deliveries are posted with the http and https modules, and time out
+ * after WEBHOOK_TIMEOUT_MS milliseconds, 10 seconds by default. The host of
+ * a webhook is checked when it is resolved, so that no delivery reaches a
+ * private address, and the redirects are not followed. Only the status of
+ * the response is read, as its body is not shown to anyone. The client can
+ * be replaced, for example by tests.
+ *
+ * @module webhooks/client
+ */
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { isIP } from "net";
+import { isPrivateAddress, lookupPublicAddress } from "./webhook.address";
+
+/**
+ * A request posting an event to a webhook
+ */
+export interface WebhookRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * The response of a webhook endpoint
+ */
+export interface WebhookResponse {
+  status: number;
+}
+
+/**
+ * Posts the deliveries of the webhooks
+ *
+ * @description
+ * The promise returned by post rejects when the endpoint cannot be reached,
+ * and resolves with the response whatever its status.
+ */
+export interface WebhookClient {
+  post(request: WebhookRequest): Promise<WebhookResponse>;
+}
+
+/**
+ * The timeout of a delivery when WEBHOOK_TIMEOUT_MS is not set
+ */
+const DEFAULT_TIMEOUT = 10 * 1000;
+
+/**
+ * The client posting the deliveries over HTTP
+ */
+export const httpWebhookClient: WebhookClient = {
+  post: ({ url, headers, body }) =>
+    new Promise<WebhookResponse>((resolve, reject) => {
+      const target = new URL(url);
+      const hostname = target.hostname.replace(/^\[|\]$/g, "");
+
+      // The IP addresses are connected to without being resolved
+      if (isIP(hostname) && isPrivateAddress(hostname)) {
+        reject(new Error(`${hostname} is a private address`));
+        return;
+      }
+
+      const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+      const outgoing = send(
+        target,
+        {
+          method: "POST",
+          headers: {
+            ...headers,
+            "Content-Length": String(Buffer.byteLength(body)),
+          },
+          lookup: lookupPublicAddress,
+        },
+        (response) => {
+          clearTimeout(timeout);
+          // Discard the body of the response
+          response.resume();
+          resolve({ status: response.statusCode });
+        },
+      );
+      const timeout = setTimeout(
+        () => outgoing.destroy(new Error("the request timed out")),
+        parseInt(process.env.WEBHOOK_TIMEOUT_MS) || DEFAULT_TIMEOUT,
+      );
+
+      outgoing.on("error", (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      });
+      outgoing.end(body);
+    }),
+};
+
+let client: WebhookClient = httpWebhookClient;
+
+/**
+ * Gets the client posting the deliveries
+ *
+ * @returns {WebhookClient} - The current client
+ */
+export const getWebhookClient = (): WebhookClient => client;
+
+/**
+ * Replaces the client posting the deliveries
+ *
+ * @param {WebhookClient} nextClient - The new client
+ */
+export const setWebhookClient = (nextClient: WebhookClient) => {
+  client = nextClient;
+};
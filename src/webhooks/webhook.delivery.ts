@@ -0,0 +1,93 @@
+/**
+ * The delivery of the events to the webhooks.
+ *
+ * @description
+ * An event is posted as JSON with the following headers:
+ * - X-Webhook-Id: The id of the event, the same for every attempt
+ * - X-Webhook-Event: The name of the event
+ * - X-Webhook-Timestamp: The time of the attempt, in seconds since the epoch
+ * - X-Webhook-Signature: "sha256=" followed by the HMAC-SHA256 of the
+ *   timestamp, a dot and the body, keyed with the secret of the webhook
+ *
+ * A delivery succeeds when the endpoint answers with a 2xx status. Each
+ * attempt is recorded on the delivery, which makes the delivery log.
+ *
+ * @module webhooks/delivery
+ */
+import { AppDataSource } from "../data-source";
+import { Webhook, WebhookDelivery, WebhookDeliveryStatus } from "../models";
+import { hashHmac } from "../utils";
+import { getWebhookClient } from "./webhook.client";
+
+/**
+ * Signs the body of a delivery
+ *
+ * @param {Webhook} webhook - The webhook the delivery is posted to
+ * @param {number} timestamp - The time of the attempt, in seconds since the epoch
+ * @param {string} body - The JSON body of the delivery
+ * @returns {string} - The value of the X-Webhook-Signature header
+ */
+export const signWebhookBody = (
+  webhook: Webhook,
+  timestamp: number,
+  body: string,
+) => `sha256=${hashHmac(`${timestamp}.${body}`, webhook.secret)}`;
+
+/**
+ * Posts a delivery to its webhook and records the attempt
+ *
+ * @param {WebhookDelivery} delivery - The delivery, with its webhook
+ * @param {boolean} isLastAttempt - Whether the delivery is marked as failed
+ * instead of staying pending when the attempt fails
+ * @returns {Promise<WebhookDelivery>} - The delivery, updated with the outcome of the attempt
+ */
+export const sendWebhookDelivery = async (
+  delivery: WebhookDelivery,
+  isLastAttempt: boolean,
+): Promise<WebhookDelivery> => {
+  const startedAt = new Date();
+  const timestamp = Math.floor(startedAt.getTime() / 1000);
+  const body = JSON.stringify(delivery.payload);
+
+  delivery.attempts += 1;
+  delivery.lastAttemptAt = startedAt;
+  delivery.responseStatus = null;
+  delivery.error = null;
+
+  try {
+    const response = await getWebhookClient().post({
+      url: delivery.webhook.url,
+      headers: {
+        "Content-Type": "application/json",
+        "X-Webhook-Id": String(delivery.payload.id),
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": signWebhookBody(
+          delivery.webhook,
+          timestamp,
+          body,
+        ),
+      },
+      body,
+    });
+
+    delivery.responseStatus = response.status;
+
+    if (response.status < 200 || response.status >= 300) {
+      delivery.error = `The endpoint answered with status ${response.status}`;
+    }
+  } catch (error) {
+    delivery.error = `The endpoint could not be reached: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  delivery.durationMs = Date.now() - startedAt.getTime();
+
+  if (!delivery.error) {
+    delivery.status = WebhookDeliveryStatus.Succeeded;
+    delivery.deliveredAt = new Date();
+  } else if (isLastAttempt) {
+    delivery.status = WebhookDeliveryStatus.Failed;
+  }
+
+  return AppDataSource.manager.save(delivery);
+};
@@ -0,0 +1,112 @@
+/**
+ * The dispatch of the task events to the webhooks.
+ *
+ * @description
+ * An event is delivered to the active webhooks subscribed to it whose user
+ * can see the task: its owner for a personal task, the members of its
+ * project for a project task. The deliveries and their jobs are created in
+ * the transaction of the change, so that a change rolled back notifies no one.
+ *
+ * @module webhooks/events
+ */
+import { randomUUID } from "crypto";
+import { EntityManager, In } from "typeorm";
+import { queueWebhookDelivery } from "../jobs/deliver-webhook.job";
+import { findTaskAudience } from "../policies/task.policy";
+import {
+  Task,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "../models";
+
+/**
+ * Creates the payload of a delivery
+ *
+ * @param {string} event - The name of the event
+ * @param {Object} data - The data of the event
+ * @returns {Record<string, unknown>} - The payload, with a unique id and the date of the event
+ */
+export const createWebhookPayload = (
+  event: string,
+  data: object,
+): Record<string, unknown> => ({
+  id: randomUUID(),
+  event,
+  createdAt: new Date().toISOString(),
+  data,
+});
+
+/**
+ * Creates a pending delivery of an event to a webhook
+ *
+ * @param {Webhook} webhook - The webhook the event is delivered to
+ * @param {string} event - The name of the event
+ * @param {Object} data - The data of the event
+ * @returns {WebhookDelivery} - The delivery, not saved yet
+ */
+export const createWebhookDelivery = (
+  webhook: Webhook,
+  event: string,
+  data: object,
+): WebhookDelivery => {
+  const delivery = new WebhookDelivery();
+  delivery.webhook = webhook;
+  delivery.event = event;
+  delivery.payload = createWebhookPayload(event, data);
+  delivery.status = WebhookDeliveryStatus.Pending;
+  delivery.attempts = 0;
+  delivery.createdAt = new Date();
+
+  return delivery;
+};
+
+/**
+ * Queues the delivery of a task event to the webhooks subscribed to it
+ *
+ * @param {EntityManager} manager - The entity manager of the change
+ * @param {WebhookEvent} event - The event
+ * @param {number} taskId - The id of the task, which can be in the trash
+ */
+export const dispatchWebhookEvent = async (
+  manager: EntityManager,
+  event: WebhookEvent,
+  taskId: number,
+) => {
+  const task = await manager.findOne(Task, {
+    where: { id: taskId },
+    relations: { user: true, tags: true },
+    withDeleted: true,
+  });
+
+  if (!task?.user) {
+    return;
+  }
+
+  const webhooks = await manager.find(Webhook, {
+    where: {
+      user: { id: In(await findTaskAudience(task, manager)) },
+      active: true,
+    },
+    order: { id: "ASC" },
+  });
+  const subscribedWebhooks = webhooks.filter(
+    (webhook) => webhook.events.indexOf(event) !== -1,
+  );
+
+  if (subscribedWebhooks.length === 0) {
+    return;
+  }
+
+  // The owner of the task is left out of the data, like in the responses of the API
+  const { user, ...data } = task;
+
+  for (let i = 0; i < subscribedWebhooks.length; i++) {
+    const delivery = await manager.save(
+      createWebhookDelivery(subscribedWebhooks[i], event, { task: data }),
+    );
+
+    await queueWebhookDelivery(manager, delivery.id);
+  }
+};
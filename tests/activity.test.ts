@@ -0,0 +1,128 @@
+import { AppDataSource } from "../src/data-source";
+import { User, UserRole } from "../src/models";
+import { api, registerUser } from "./helpers/client";
+
+describe("GET /tasks/:id/history", () => {
+  it("lists the changes of a task with their actor, newest first", async () => {
+    const user = await registerUser("Historian");
+    const created = await api("POST", "/tasks", {
+      token: user.token,
+      body: { title: "Draft", description: "A task" },
+    });
+    const taskId = created.body.data.task.id;
+
+    await api("PATCH", `/tasks/${taskId}`, {
+      token: user.token,
+      body: { title: "Final", status: "in_progress" },
+    });
+    // Saving the same values records nothing
+    await api("PATCH", `/tasks/${taskId}`, {
+      token: user.token,
+      body: { title: "Final" },
+    });
+
+    const response = await api("GET", `/tasks/${taskId}/history`, {
+      token: user.token,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.meta.total).toBe(2);
+
+    const [updated, creation] = response.body.data.activities;
+    expect(updated).toMatchObject({
+      action: "task.updated",
+      taskId,
+      actor: { firstName: "Historian", lastName: "User" },
+      changes: {
+        title: { from: "Draft", to: "Final" },
+        status: { from: "todo", to: "in_progress" },
+      },
+    });
+    expect(Object.keys(updated.changes).sort()).toEqual(["status", "title"]);
+    expect(updated.ipAddress).toBeUndefined();
+    expect(creation.action).toBe("task.created");
+    expect(creation.changes.title).toEqual({ from: null, to: "Draft" });
+  });
+
+  it("is not found for the tasks of other users", async () => {
+    const owner = await registerUser();
+    const other = await registerUser();
+    const created = await api("POST", "/tasks", {
+      token: owner.token,
+      body: { title: "Private", description: "A task" },
+    });
+
+    const response = await api(
+      "GET",
+      `/tasks/${created.body.data.task.id}/history`,
+      { token: other.token },
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("GET /auth/activity", () => {
+  // The login sends the address of the client like a proxy
+  beforeAll(() => {
+    process.env.TRUST_PROXY = "1";
+  });
+
+  afterAll(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  it("lists the authentication events and task changes of the user", async () => {
+    const user = await registerUser();
+
+    await api("POST", "/auth/login", {
+      body: { email: user.email, password: "wrong-password" },
+    });
+    const login = await api("POST", "/auth/login", {
+      body: { email: user.email, password: user.password },
+      headers: { "x-forwarded-for": "203.0.113.7" },
+    });
+    await api("POST", "/tasks", {
+      token: login.body.data.token,
+      body: { title: "Task", description: "A task" },
+    });
+    await api("POST", "/auth/logout", { token: user.token });
+
+    const response = await api("GET", "/auth/activity", {
+      token: login.body.data.token,
+    });
+
+    expect(response.status).toBe(200);
+    expect(
+      response.body.data.activities.map((activity: any) => activity.action),
+    ).toEqual([
+      "auth.logout",
+      "task.created",
+      "auth.login",
+      "auth.login_failed",
+    ]);
+    expect(response.body.data.activities[2].ipAddress).toBe("203.0.113.7");
+  });
+
+  it("is listed by admins for any user", async () => {
+    const admin = await registerUser("Admin");
+    await AppDataSource.manager.update(
+      User,
+      { email: admin.email },
+      { role: UserRole.Admin },
+    );
+    const user = await registerUser();
+    await api("POST", "/auth/logout", { token: user.token });
+    const { id } = await AppDataSource.manager.findOneBy(User, {
+      email: user.email,
+    });
+
+    const response = await api("GET", `/admin/users/${id}/activity`, {
+      token: admin.token,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.activities).toHaveLength(1);
+    expect(response.body.data.activities[0].action).toBe("auth.logout");
+  });
+});
@@ -0,0 +1,173 @@
+import { AppDataSource } from "../src/data-source";
+import { User, UserRole } from "../src/models";
+import { api, registerUser, TestUser } from "./helpers/client";
+
+/**
+ * Registers a new user and makes it an admin
+ *
+ * @returns {Promise<TestUser>} - The admin with the tokens of its session
+ */
+const registerAdmin = async (): Promise<TestUser> => {
+  const admin = await registerUser("Admin");
+  await AppDataSource.manager.update(
+    User,
+    { email: admin.email },
+    { role: UserRole.Admin },
+  );
+
+  return admin;
+};
+
+/**
+ * Gets the id of a registered user
+ *
+ * @param {TestUser} user - The user
+ * @returns {Promise<number>} - The id of the user
+ */
+const idOf = async (user: TestUser) =>
+  (await AppDataSource.manager.findOneBy(User, { email: user.email })).id;
+
+describe("admin routes", () => {
+  it("are only open to admins", async () => {
+    const user = await registerUser();
+
+    const anonymous = await api("GET", "/admin/users");
+    expect(anonymous.status).toBe(401);
+
+    const response = await api("GET", "/admin/users", { token: user.token });
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe("INSUFFICIENT_ROLE");
+  });
+
+  it("lists and searches the users", async () => {
+    const admin = await registerAdmin();
+    const user = await registerUser("Searchable");
+
+    const response = await api("GET", "/admin/users?search=searchABLE", {
+      token: admin.token,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.users).toHaveLength(1);
+    expect(response.body.data.users[0]).toMatchObject({
+      email: user.email,
+      role: "user",
+      disabledAt: null,
+    });
+    expect(response.body.data.users[0].password).toBeUndefined();
+    expect(response.body.meta).toEqual({
+      total: 1,
+      page: 1,
+      perPage: 20,
+      pageCount: 1,
+    });
+
+    const admins = await api("GET", "/admin/users?role=admin&per_page=100", {
+      token: admin.token,
+    });
+    expect(
+      admins.body.data.users.map((account: any) => account.role),
+    ).not.toContain("user");
+  });
+
+  it("disables and enables a user", async () => {
+    const admin = await registerAdmin();
+    const user = await registerUser();
+    const userId = await idOf(user);
+
+    const disabled = await api("POST", `/admin/users/${userId}/disable`, {
+      token: admin.token,
+    });
+    expect(disabled.status).toBe(200);
+    expect(disabled.body.data.user.disabledAt).toEqual(expect.any(String));
+
+    // The sessions of the user are logged out, and it cannot log in again
+    const tasks = await api("GET", "/tasks", { token: user.token });
+    expect(tasks.status).toBe(401);
+    const refresh = await api("POST", "/auth/refresh", {
+      body: { refreshToken: user.refreshToken },
+    });
+    expect(refresh.status).toBe(401);
+    const login = await api("POST", "/auth/login", {
+      body: { email: user.email, password: user.password },
+    });
+    expect(login.status).toBe(403);
+    expect(login.body.error.code).toBe("ACCOUNT_DISABLED");
+
+    const listed = await api("GET", "/admin/users?status=disabled", {
+      token: admin.token,
+    });
+    expect(listed.body.data.users.map((account: any) => account.id)).toEqual([
+      userId,
+    ]);
+
+    await api("POST", `/admin/users/${userId}/enable`, { token: admin.token });
+
+    const enabled = await api("POST", "/auth/login", {
+      body: { email: user.email, password: user.password },
+    });
+    expect(enabled.status).toBe(200);
+  });
+
+  it("verifies the email of a user", async () => {
+    const admin = await registerAdmin();
+    const user = await registerUser();
+
+    const response = await api(
+      "POST",
+      `/admin/users/${await idOf(user)}/verify-email`,
+      { token: admin.token },
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.user.emailVerifiedAt).toEqual(expect.any(String));
+  });
+
+  it("logs out every session of a user", async () => {
+    const admin = await registerAdmin();
+    const user = await registerUser();
+
+    const response = await api(
+      "DELETE",
+      `/admin/users/${await idOf(user)}/sessions`,
+      { token: admin.token },
+    );
+    expect(response.status).toBe(200);
+
+    const tasks = await api("GET", "/tasks", { token: user.token });
+    expect(tasks.status).toBe(401);
+    expect(tasks.body.error.code).toBe("SESSION_REVOKED");
+  });
+
+  it("changes the role of a user, but not of the admin itself", async () => {
+    const admin = await registerAdmin();
+    const user = await registerUser();
+
+    const promoted = await api("PUT", `/admin/users/${await idOf(user)}/role`, {
+      token: admin.token,
+      body: { role: "admin" },
+    });
+    expect(promoted.status).toBe(200);
+    expect(promoted.body.data.user.role).toBe("admin");
+
+    const users = await api("GET", "/admin/users", { token: user.token });
+    expect(users.status).toBe(200);
+
+    const demoted = await api("PUT", `/admin/users/${await idOf(admin)}/role`, {
+      token: admin.token,
+      body: { role: "user" },
+    });
+    expect(demoted.status).toBe(400);
+    expect(demoted.body.error.code).toBe("CANNOT_CHANGE_SELF");
+  });
+
+  it("returns 404 for an unknown user", async () => {
+    const admin = await registerAdmin();
+
+    const response = await api("POST", "/admin/users/999999/disable", {
+      token: admin.token,
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
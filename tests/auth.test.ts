@@ -0,0 +1,380 @@
+import { decode, sign } from "hono/jwt";
+import { AppDataSource } from "../src/data-source";
+import { User } from "../src/models";
+import { hashHmac } from "../src/utils";
+import { api, registerUser, TestUser } from "./helpers/client";
+import { runJobs } from "./helpers/jobs";
+import { findLink, lastMailTo } from "./helpers/mailer";
+
+describe("POST /auth/register", () => {
+  it("registers a user and returns its tokens", async () => {
+    const response = await api("POST", "/auth/register", {
+      body: {
+        firstName: "Jane",
+        lastName: "Doe",
+        email: "jane@example.com",
+        password: "password123",
+      },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.token).toEqual(expect.any(String));
+    expect(response.body.data.refreshToken).toEqual(expect.any(String));
+
+    const user = await AppDataSource.manager.findOneBy(User, {
+      email: "jane@example.com",
+    });
+    expect(user.password).not.toBe("password123");
+  });
+
+  it("rejects an email that is already taken", async () => {
+    const { email } = await registerUser();
+
+    const response = await api("POST", "/auth/register", {
+      body: { firstName: "A", lastName: "B", email, password: "password123" },
+    });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error.code).toBe("EMAIL_TAKEN");
+  });
+
+  it("rejects an invalid payload with the failing fields", async () => {
+    const response = await api("POST", "/auth/register", {
+      body: { firstName: "A", lastName: "B", email: "nope", password: "123" },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("VALIDATION_FAILED");
+    expect(
+      response.body.error.details.map((detail) => detail.field).sort(),
+    ).toEqual(["email", "password"]);
+  });
+});
+
+describe("POST /auth/login", () => {
+  it("logs in with the right password", async () => {
+    const { email, password } = await registerUser();
+
+    const response = await api("POST", "/auth/login", {
+      body: { email, password },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.token).toEqual(expect.any(String));
+  });
+
+  it("rejects a wrong password", async () => {
+    const { email } = await registerUser();
+
+    const response = await api("POST", "/auth/login", {
+      body: { email, password: "wrong-password" },
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe("INVALID_CREDENTIALS");
+  });
+
+  it("rejects an unknown email the same way", async () => {
+    const response = await api("POST", "/auth/login", {
+      body: { email: "nobody@example.com", password: "password123" },
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe("INVALID_CREDENTIALS");
+  });
+});
+
+describe("email verification", () => {
+  it("verifies the email with the link sent by mail", async () => {
+    const { email } = await registerUser();
+
+    const request = await api("POST", "/auth/request-verification", {
+      body: { email },
+    });
+    expect(request.status).toBe(200);
+
+    await runJobs();
+    const link = findLink(lastMailTo(email));
+    expect(link.pathname).toBe("/auth/verify");
+
+    const response = await api("GET", `${link.pathname}${link.search}`);
+    expect(response.status).toBe(200);
+
+    const user = await AppDataSource.manager.findOneBy(User, { email });
+    expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+
+    // A verified email cannot request another verification
+    const again = await api("POST", "/auth/request-verification", {
+      body: { email },
+    });
+    expect(again.status).toBe(404);
+  });
+
+  it("rejects a tampered signature", async () => {
+    const { email } = await registerUser();
+    const query = new URLSearchParams({
+      email,
+      request_at: String(Date.now()),
+      signature: "tampered",
+    });
+
+    const response = await api("GET", `/auth/verify?${query}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("INVALID_SIGNATURE");
+  });
+
+  it("rejects a link without its signed date", async () => {
+    const { email } = await registerUser();
+    const query = new URLSearchParams({ email, signature: "signature" });
+
+    const response = await api("GET", `/auth/verify?${query}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("VALIDATION_FAILED");
+    expect(response.body.error.details.map((detail) => detail.field)).toEqual([
+      "request_at",
+    ]);
+  });
+
+  it("rejects an expired link", async () => {
+    const { email } = await registerUser();
+    const requestAt = Date.now() - 1000 * 60 * 11;
+    const query = new URLSearchParams({
+      email,
+      request_at: String(requestAt),
+      signature: hashHmac(`${email}#${requestAt}`),
+    });
+
+    const response = await api("GET", `/auth/verify?${query}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("REQUEST_EXPIRED");
+  });
+});
+
+describe("GET /auth/unlock", () => {
+  /**
+   * Locks a user with failed logins and reads the unlock link of the mail
+   *
+   * @param {TestUser} user - The user to lock
+   * @returns {Promise<URL>} - The unlock link
+   */
+  const lock = async (user: TestUser) => {
+    for (let i = 0; i < 5; i++) {
+      await api("POST", "/auth/login", {
+        body: { email: user.email, password: "wrong-password" },
+      });
+    }
+    await runJobs();
+
+    return findLink(lastMailTo(user.email));
+  };
+
+  it("unlocks the user with the mailed link", async () => {
+    const user = await registerUser();
+    const link = await lock(user);
+
+    const response = await api("GET", `${link.pathname}${link.search}`);
+
+    expect(response.status).toBe(200);
+    const login = await api("POST", "/auth/login", {
+      body: { email: user.email, password: user.password },
+    });
+    expect(login.status).toBe(200);
+  });
+
+  it("rejects a tampered signature", async () => {
+    const user = await registerUser();
+    const link = await lock(user);
+    link.searchParams.set("signature", "tampered");
+
+    const response = await api("GET", `${link.pathname}${link.search}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("INVALID_SIGNATURE");
+  });
+
+  it("rejects a link without its signed date", async () => {
+    const { email } = await registerUser();
+    const query = new URLSearchParams({ email, signature: "signature" });
+
+    const response = await api("GET", `/auth/unlock?${query}`);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("VALIDATION_FAILED");
+    expect(response.body.error.details.map((detail) => detail.field)).toEqual([
+      "locked_until",
+    ]);
+  });
+});
+
+describe("authentication", () => {
+  it("rejects a request without a token", async () => {
+    const response = await api("GET", "/tasks");
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.message).toBe("Missing token");
+  });
+
+  it("rejects a token with an invalid signature", async () => {
+    const { token } = await registerUser();
+    const { payload } = decode(token);
+    const forged = await sign(payload, "another-secret");
+
+    const response = await api("GET", "/tasks", { token: forged });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.message).toBe("Invalid token");
+  });
+
+  it("rejects an expired token", async () => {
+    const { token } = await registerUser();
+    const { payload } = decode(token);
+    const expired = await sign(
+      { ...payload, exp: Math.floor(Date.now() / 1000) - 60 },
+      process.env.JWT_SECRET,
+    );
+
+    const response = await api("GET", "/tasks", { token: expired });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe("TOKEN_EXPIRED");
+  });
+
+  it("rejects the token of a session that logged out", async () => {
+    const { token } = await registerUser();
+
+    await api("POST", "/auth/logout", { token });
+    const response = await api("GET", "/tasks", { token });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe("SESSION_REVOKED");
+  });
+});
+
+describe("POST /auth/refresh", () => {
+  it("rotates the refresh token of the session", async () => {
+    const { refreshToken } = await registerUser();
+
+    const response = await api("POST", "/auth/refresh", {
+      body: { refreshToken },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.refreshToken).not.toBe(refreshToken);
+
+    const rotated = await api("GET", "/tasks", {
+      token: response.body.data.token,
+    });
+    expect(rotated.status).toBe(200);
+  });
+
+  it("revokes the whole family when a rotated token is reused", async () => {
+    const { refreshToken } = await registerUser();
+    const rotated = await api("POST", "/auth/refresh", {
+      body: { refreshToken },
+    });
+    const { token, refreshToken: latest } = rotated.body.data;
+
+    const reused = await api("POST", "/auth/refresh", {
+      body: { refreshToken },
+    });
+    expect(reused.status).toBe(401);
+    expect(reused.body.error.code).toBe("REFRESH_TOKEN_REUSED");
+
+    // The token issued after the stolen one no longer works either
+    const refreshed = await api("POST", "/auth/refresh", {
+      body: { refreshToken: latest },
+    });
+    expect(refreshed.status).toBe(401);
+    expect(refreshed.body.error.code).toBe("REFRESH_TOKEN_REUSED");
+
+    const response = await api("GET", "/tasks", { token });
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe("SESSION_REVOKED");
+  });
+});
+
+describe("/auth/sessions", () => {
+  it("rejects the token of a revoked session", async () => {
+    const user = await registerUser();
+    const login = await api("POST", "/auth/login", {
+      body: { email: user.email, password: user.password },
+    });
+    const { token } = login.body.data;
+
+    const list = await api("GET", "/auth/sessions", { token: user.token });
+    const sessions: { id: number; current: boolean }[] =
+      list.body.data.sessions;
+    expect(sessions).toHaveLength(2);
+
+    const other = sessions.filter(({ current }) => !current)[0];
+    const revoked = await api("DELETE", `/auth/sessions/${other.id}`, {
+      token: user.token,
+    });
+    expect(revoked.status).toBe(200);
+
+    const response = await api("GET", "/tasks", { token });
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe("SESSION_REVOKED");
+
+    // The session revoking the other one stays logged in
+    expect((await api("GET", "/tasks", { token: user.token })).status).toBe(
+      200,
+    );
+  });
+
+  it("does not revoke the session of another user", async () => {
+    const user = await registerUser();
+    const other = await registerUser();
+    const list = await api("GET", "/auth/sessions", { token: other.token });
+
+    const response = await api(
+      "DELETE",
+      `/auth/sessions/${list.body.data.sessions[0].id}`,
+      { token: user.token },
+    );
+
+    expect(response.status).toBe(404);
+    expect((await api("GET", "/tasks", { token: other.token })).status).toBe(
+      200,
+    );
+  });
+});
+
+describe("password reset", () => {
+  it("resets the password and logs out every session", async () => {
+    const { email, token, refreshToken } = await registerUser();
+
+    await api("POST", "/auth/forgot-password", { body: { email } });
+    await runJobs();
+    const url = findLink(lastMailTo(email));
+    expect(url.pathname).toBe("/reset-password");
+    const link = url.searchParams;
+
+    const reset = await api("POST", "/auth/reset-password", {
+      body: {
+        email: link.get("email"),
+        requestAt: link.get("request_at"),
+        signature: link.get("signature"),
+        password: "new-password",
+      },
+    });
+    expect(reset.status).toBe(200);
+
+    const refreshed = await api("POST", "/auth/refresh", {
+      body: { refreshToken },
+    });
+    expect(refreshed.status).toBe(401);
+
+    const response = await api("GET", "/tasks", { token });
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe("SESSION_REVOKED");
+
+    const login = await api("POST", "/auth/login", {
+      body: { email, password: "new-password" },
+    });
+    expect(login.status).toBe(200);
+  });
+});
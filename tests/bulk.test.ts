@@ -0,0 +1,162 @@
+import { api, registerUser, TestUser } from "./helpers/client";
+import { createTask } from "./helpers/tasks";
+
+/**
+ * Runs a bulk request for a user
+ *
+ * @param {TestUser} user - The user
+ * @param {Object} body - The payload of the bulk request
+ * @returns {Promise<any>} - The response
+ */
+const bulk = (user: TestUser, body: object) =>
+  api("POST", "/tasks/bulk", { token: user.token, body });
+
+/**
+ * Lists the titles and statuses of the tasks of a user
+ *
+ * @param {TestUser} user - The user
+ * @returns {Promise<string[]>} - The title and status of each task, by title
+ */
+const taskStates = async (user: TestUser) => {
+  const response = await api("GET", "/tasks?per_page=100&sort=title", {
+    token: user.token,
+  });
+
+  return response.body.data.tasks.map(
+    (task: any) => `${task.title}:${task.status}`,
+  );
+};
+
+describe("POST /tasks/bulk", () => {
+  it("runs every operation in their order", async () => {
+    const user = await registerUser();
+    const first = await createTask(user, { title: "First" });
+    const second = await createTask(user, { title: "Second" });
+    const third = await createTask(user, { title: "Third" });
+
+    const response = await bulk(user, {
+      operations: [
+        { action: "create", task: { title: "New", description: "A task" } },
+        { action: "update", id: first.id, changes: { status: "in_progress" } },
+        { action: "complete", id: second.id },
+        { action: "delete", id: third.id },
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.results).toEqual([
+      expect.objectContaining({
+        index: 0,
+        action: "create",
+        status: "success",
+      }),
+      expect.objectContaining({
+        index: 1,
+        action: "update",
+        status: "success",
+      }),
+      expect.objectContaining({
+        index: 2,
+        action: "complete",
+        status: "success",
+      }),
+      expect.objectContaining({
+        index: 3,
+        action: "delete",
+        status: "success",
+      }),
+    ]);
+    expect(response.body.data.results[2].task.completedAt).toEqual(
+      expect.any(String),
+    );
+    expect(await taskStates(user)).toEqual([
+      "First:in_progress",
+      "New:todo",
+      "Second:done",
+    ]);
+  });
+
+  it("rolls back every operation when one fails in atomic mode", async () => {
+    const user = await registerUser();
+    const task = await createTask(user, { title: "Unchanged" });
+
+    const response = await bulk(user, {
+      operations: [
+        { action: "create", task: { title: "New", description: "A task" } },
+        { action: "complete", id: task.id },
+        { action: "delete", id: 999999 },
+      ],
+    });
+
+    expect(response.status).toBe(404);
+    expect(response.body.error).toEqual({
+      code: "NOT_FOUND",
+      message: "Operation 2 failed: Task 999999 not found",
+    });
+    expect(await taskStates(user)).toEqual(["Unchanged:todo"]);
+
+    const history = await api("GET", `/tasks/${task.id}/history`, {
+      token: user.token,
+    });
+    expect(history.body.data.activities).toHaveLength(1);
+  });
+
+  it("only rolls back the failed operations in partial mode", async () => {
+    const user = await registerUser();
+    const stranger = await registerUser();
+    const blocked = await createTask(user, {
+      title: "Blocked",
+      status: "blocked",
+    });
+    const other = await createTask(stranger, { title: "Other" });
+
+    const response = await bulk(user, {
+      mode: "partial",
+      operations: [
+        { action: "create", task: { title: "Kept", description: "A task" } },
+        { action: "complete", id: blocked.id },
+        { action: "update", id: blocked.id, changes: { tagIds: [999999] } },
+        { action: "delete", id: other.id },
+        { action: "update", id: blocked.id, changes: { title: "Renamed" } },
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    const results = response.body.data.results;
+    expect(results.map((result: any) => result.status)).toEqual([
+      "success",
+      "error",
+      "error",
+      "error",
+      "success",
+    ]);
+    expect(results[1].error.code).toBe("INVALID_STATUS_TRANSITION");
+    expect(results[2].error).toMatchObject({
+      code: "VALIDATION_FAILED",
+      details: [{ field: "tagIds", message: "Tags not found: 999999" }],
+    });
+    expect(results[3].error.code).toBe("NOT_FOUND");
+    expect(results[4].task).toMatchObject({
+      title: "Renamed",
+      status: "blocked",
+    });
+
+    expect(await taskStates(user)).toEqual(["Kept:todo", "Renamed:blocked"]);
+    expect(await taskStates(stranger)).toEqual(["Other:todo"]);
+  });
+
+  it("rejects an invalid payload", async () => {
+    const user = await registerUser();
+
+    for (const body of [
+      { operations: [] },
+      { operations: [{ action: "archive", id: 1 }] },
+      { mode: "best_effort", operations: [{ action: "delete", id: 1 }] },
+    ]) {
+      const response = await bulk(user, body);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe("VALIDATION_FAILED");
+    }
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * The environment of the integration tests.
+ * It is loaded before the application modules, so that the data source
+ * connects to an in-memory SQLite database, migrated when it initializes.
+ */
+process.env.DB_URL = "sqlite::memory:";
+process.env.JWT_SECRET = "test-secret";
+process.env.APP_URL = "http://localhost:3000";
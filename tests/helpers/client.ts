@@ -0,0 +1,96 @@
+/**
+ * Helpers to call the application in-process with app.request().
+ */
+import app from "../../src/app";
+
+/**
+ * The status, headers and body of a response, parsed when it is JSON
+ */
+export interface ApiResponse {
+  status: number;
+  headers: Headers;
+  body: any;
+}
+
+/**
+ * A registered user with the tokens of its session
+ */
+export interface TestUser {
+  email: string;
+  password: string;
+  token: string;
+  refreshToken: string;
+}
+
+/**
+ * Sends a request to the application
+ *
+ * @param {string} method - The HTTP method
+ * @param {string} path - The path, with its query string
+ * @param {Object} options - The JSON or form body, the bearer token and the extra headers of the request
+ * @returns {Promise<ApiResponse>} - The status, headers and body of the response
+ */
+export const api = async (
+  method: string,
+  path: string,
+  options: {
+    body?: unknown;
+    token?: string;
+    headers?: Record<string, string>;
+  } = {},
+): Promise<ApiResponse> => {
+  const isForm = options.body instanceof FormData;
+  const headers: Record<string, string> = {
+    // The boundary of a form body is set by the request
+    ...(!isForm && { "content-type": "application/json" }),
+    ...options.headers,
+  };
+
+  if (options.token) {
+    headers.authorization = `Bearer ${options.token}`;
+  }
+
+  const response = await app.request(path, {
+    method,
+    headers,
+    body:
+      options.body === undefined || isForm
+        ? (options.body as FormData)
+        : JSON.stringify(options.body),
+  });
+  const contentType = response.headers.get("content-type") || "";
+
+  return {
+    status: response.status,
+    headers: response.headers,
+    body:
+      contentType.indexOf("application/json") === 0
+        ? await response.json()
+        : await response.text(),
+  };
+};
+
+let userCount = 0;
+
+/**
+ * Registers a new user with a unique email
+ *
+ * @param {string} firstName - The first name of the user
+ * @returns {Promise<TestUser>} - The user with the tokens of its session
+ */
+export const registerUser = async (firstName = "Test"): Promise<TestUser> => {
+  userCount += 1;
+
+  const email = `user${userCount}@example.com`;
+  const password = "password123";
+  const { body } = await api("POST", "/auth/register", {
+    body: { firstName, lastName: "User", email, password },
+  });
+
+  return {
+    email,
+    password,
+    token: body.data.token,
+    refreshToken: body.data.refreshToken,
+  };
+};
@@ -0,0 +1,15 @@
+/**
+ * Helpers to run the background jobs synchronously in tests.
+ */
+import { processNextJob } from "../../src/jobs";
+
+/**
+ * Runs the jobs that are due until the queue is drained
+ *
+ * @param {Date} now - The date the jobs are run at
+ */
+export const runJobs = async (now = new Date()) => {
+  while (await processNextJob(now)) {
+    // Keep running the due jobs
+  }
+};
@@ -0,0 +1,37 @@
+/**
+ * A fake mail transport that captures the mails instead of sending them.
+ */
+import { MailMessage, MailTransport } from "../../src/mail";
+
+/**
+ * The mails sent since the test file started, oldest first
+ */
+export const sentMails: MailMessage[] = [];
+
+export const captureTransport: MailTransport = {
+  send: async (message) => {
+    sentMails.push(message);
+  },
+};
+
+/**
+ * Gets the last mail sent to an address
+ *
+ * @param {string} to - The email address
+ * @returns {MailMessage | undefined} - The last mail sent to the address
+ */
+export const lastMailTo = (to: string): MailMessage | undefined =>
+  sentMails.filter((mail) => mail.to === to).pop();
+
+/**
+ * Gets the link of the application in the text of a mail
+ *
+ * @param {MailMessage} mail - The mail
+ * @returns {URL} - The first link to APP_URL in the mail
+ */
+export const findLink = (mail: MailMessage): URL =>
+  new URL(
+    mail.text
+      .split("\n")
+      .filter((line) => line.indexOf(process.env.APP_URL) === 0)[0],
+  );
@@ -0,0 +1,71 @@
+/**
+ * Helpers to share projects between the users of the tests.
+ */
+import { api, TestUser } from "./client";
+import { runJobs } from "./jobs";
+import { findLink, lastMailTo } from "./mailer";
+
+/**
+ * Creates a project owned by a user
+ *
+ * @param {TestUser} owner - The owner of the project
+ * @param {string} name - The name of the project
+ * @returns {Promise<number>} - The id of the project
+ */
+export const createProject = async (
+  owner: TestUser,
+  name = "Project",
+): Promise<number> => {
+  const response = await api("POST", "/projects", {
+    token: owner.token,
+    body: { name },
+  });
+
+  expect(response.status).toBe(200);
+
+  return response.body.data.project.id;
+};
+
+/**
+ * Invites a user to a project and accepts the invitation with its mailed link
+ *
+ * @param {TestUser} owner - The owner of the project
+ * @param {number} projectId - The id of the project
+ * @param {TestUser} member - The user joining the project
+ * @param {string} role - The role of the member, editor or viewer
+ * @returns {Promise<number>} - The user id of the member
+ */
+export const addMember = async (
+  owner: TestUser,
+  projectId: number,
+  member: TestUser,
+  role = "editor",
+): Promise<number> => {
+  const invitation = await api("POST", `/projects/${projectId}/invitations`, {
+    token: owner.token,
+    body: { email: member.email, role },
+  });
+  expect(invitation.status).toBe(200);
+
+  await runJobs();
+  const link = findLink(lastMailTo(member.email)).searchParams;
+  const accepted = await api("POST", "/projects/invitations/accept", {
+    token: member.token,
+    body: {
+      projectId: link.get("project_id"),
+      email: link.get("email"),
+      role: link.get("role"),
+      requestAt: link.get("request_at"),
+      signature: link.get("signature"),
+    },
+  });
+  expect(accepted.status).toBe(200);
+
+  const project = await api("GET", `/projects/${projectId}`, {
+    token: owner.token,
+  });
+  const members: { userId: number; email: string }[] =
+    project.body.data.project.members;
+
+  return members.filter(({ email }) => email === member.email)[0].userId;
+};
@@ -0,0 +1,37 @@
+/**
+ * Helpers to create the tasks of the users of the tests.
+ */
+import { api, TestUser } from "./client";
+
+/**
+ * A task as returned by the API, with the fields the tests read
+ */
+export interface TestTask {
+  id: number;
+  title: string;
+  description: string;
+  status: string;
+  priority: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Creates a task for a user
+ *
+ * @param {TestUser} user - The owner of the task
+ * @param {Object} fields - The fields of the task, merged with defaults
+ * @returns {Promise<TestTask>} - The created task
+ */
+export const createTask = async (
+  user: TestUser,
+  fields: object = {},
+): Promise<TestTask> => {
+  const response = await api("POST", "/tasks", {
+    token: user.token,
+    body: { title: "Task", description: "A task", ...fields },
+  });
+
+  expect(response.status).toBe(200);
+
+  return response.body.data.task;
+};
@@ -0,0 +1,45 @@
+/**
+ * A fake webhook client that captures the deliveries instead of posting them.
+ */
+import { WebhookClient, WebhookRequest } from "../../src/webhooks";
+
+/**
+ * The deliveries posted since the test file started, oldest first
+ */
+export const postedWebhooks: WebhookRequest[] = [];
+
+/**
+ * The status the fake endpoints answer with, or null when they cannot be reached
+ */
+let responseStatus: number | null = 200;
+
+/**
+ * Changes how the fake endpoints answer the next deliveries
+ *
+ * @param {number | null} status - The status of the responses, or null to
+ * fail as an unreachable endpoint
+ */
+export const respondToWebhooks = (status: number | null) => {
+  responseStatus = status;
+};
+
+export const captureClient: WebhookClient = {
+  post: async (request) => {
+    postedWebhooks.push(request);
+
+    if (responseStatus === null) {
+      throw new Error("connect ECONNREFUSED");
+    }
+
+    return { status: responseStatus };
+  },
+};
+
+/**
+ * Gets the deliveries posted to a URL
+ *
+ * @param {string} url - The URL of the webhook
+ * @returns {WebhookRequest[]} - The deliveries, oldest first
+ */
+export const postedTo = (url: string): WebhookRequest[] =>
+  postedWebhooks.filter((request) => request.url === url);
@@ -0,0 +1,217 @@
+import { AppDataSource } from "../src/data-source";
+import {
+  enqueueJob,
+  processNextJob,
+  PURGE_REFRESH_TOKENS_JOB,
+  registerJob,
+  scheduleRecurringJobs,
+  SEND_MAIL_JOB,
+} from "../src/jobs";
+import { setMailTransport } from "../src/mail";
+import { Job, JobStatus } from "../src/models";
+import { RefreshToken } from "../src/models/refresh-token.model";
+import { api, registerUser } from "./helpers/client";
+import { runJobs } from "./helpers/jobs";
+import { captureTransport, lastMailTo } from "./helpers/mailer";
+
+/**
+ * Gets a date a number of milliseconds from now
+ *
+ * @param {number} milliseconds - The offset from now
+ * @returns {Date} - The date
+ */
+const fromNow = (milliseconds: number) => new Date(Date.now() + milliseconds);
+
+let consoleError: jest.SpyInstance;
+
+beforeEach(() => {
+  consoleError = jest.spyOn(console, "error").mockImplementation();
+});
+
+afterEach(async () => {
+  consoleError.mockRestore();
+  setMailTransport(captureTransport);
+  await AppDataSource.manager.clear(Job);
+});
+
+describe("job queue", () => {
+  it("runs a job with its payload and completes it", async () => {
+    const payloads = [];
+    registerJob("record", async (payload) => {
+      payloads.push(payload);
+    });
+
+    const job = await enqueueJob("record", { value: 42 });
+    await runJobs();
+
+    const completed = await AppDataSource.manager.findOneBy(Job, {
+      id: job.id,
+    });
+    expect(payloads).toEqual([{ value: 42 }]);
+    expect(completed.status).toBe(JobStatus.Completed);
+    expect(completed.attempts).toBe(1);
+    expect(completed.finishedAt).toBeInstanceOf(Date);
+  });
+
+  it("does not run a delayed job before it is due", async () => {
+    const payloads = [];
+    registerJob("delayed", async (payload) => {
+      payloads.push(payload);
+    });
+
+    await enqueueJob("delayed", { value: 1 }, { delay: 60 * 1000 });
+
+    expect(await processNextJob()).toBe(false);
+    expect(await processNextJob(fromNow(61 * 1000))).toBe(true);
+    expect(payloads).toEqual([{ value: 1 }]);
+  });
+
+  it("retries a failed job with a backoff, then dead-letters it", async () => {
+    registerJob(
+      "flaky",
+      async () => {
+        throw new Error("Boom");
+      },
+      { maxAttempts: 3 },
+    );
+
+    const { id } = await enqueueJob("flaky");
+    const findJob = () => AppDataSource.manager.findOneBy(Job, { id });
+
+    await runJobs();
+    let job = await findJob();
+    expect(job).toMatchObject({
+      status: JobStatus.Pending,
+      attempts: 1,
+      lastError: "Boom",
+    });
+
+    // The retry waits 30 seconds, then twice as long after every attempt
+    expect(await processNextJob(fromNow(29 * 1000))).toBe(false);
+    await runJobs(fromNow(31 * 1000));
+    job = await findJob();
+    expect(job.attempts).toBe(2);
+
+    await runJobs(fromNow(10 * 60 * 1000));
+    job = await findJob();
+    expect(job).toMatchObject({ status: JobStatus.Dead, attempts: 3 });
+    expect(job.finishedAt).toBeInstanceOf(Date);
+
+    // A dead job is not retried anymore
+    expect(await processNextJob(fromNow(24 * 60 * 60 * 1000))).toBe(false);
+  });
+
+  it("claims a job again when its worker abandoned it", async () => {
+    registerJob("abandoned", async () => {});
+
+    const { id } = await enqueueJob("abandoned");
+    await AppDataSource.manager.update(Job, id, {
+      status: JobStatus.Running,
+      lockedAt: new Date(),
+      attempts: 1,
+    });
+
+    expect(await processNextJob()).toBe(false);
+    await runJobs(fromNow(6 * 60 * 1000));
+
+    const job = await AppDataSource.manager.findOneBy(Job, { id });
+    expect(job).toMatchObject({ status: JobStatus.Completed, attempts: 2 });
+  });
+
+  it("rejects an unknown job", async () => {
+    await expect(enqueueJob("unknown")).rejects.toThrow("Unknown job unknown");
+  });
+});
+
+describe("send-mail job", () => {
+  it("sends the mails queued by the handlers after the request", async () => {
+    const { email } = await registerUser();
+
+    const response = await api("POST", "/auth/forgot-password", {
+      body: { email },
+    });
+
+    expect(response.status).toBe(200);
+    expect(lastMailTo(email)).toBeUndefined();
+
+    await runJobs();
+    expect(lastMailTo(email).subject).toBe("Reset your password");
+  });
+
+  it("retries a mail the transport failed to deliver", async () => {
+    const { email } = await registerUser();
+    setMailTransport({
+      send: async () => {
+        throw new Error("Connection refused");
+      },
+    });
+
+    await api("POST", "/auth/request-verification", { body: { email } });
+    await runJobs();
+
+    const job = await AppDataSource.manager.findOneBy(Job, {
+      name: SEND_MAIL_JOB,
+      status: JobStatus.Pending,
+    });
+    expect(job.attempts).toBe(1);
+    expect(job.lastError).toBe("The email could not be sent");
+
+    setMailTransport(captureTransport);
+    await runJobs(fromNow(31 * 1000));
+
+    expect(lastMailTo(email).subject).toBe("Verify your email address");
+  });
+
+  it("does not send a mail once its link has expired", async () => {
+    const job = await enqueueJob(SEND_MAIL_JOB, {
+      to: "late@example.com",
+      mail: { subject: "Expired link", text: "Too late", html: "Too late" },
+      expiresAt: fromNow(-1000).getTime(),
+    });
+
+    await runJobs();
+
+    expect(lastMailTo("late@example.com")).toBeUndefined();
+    const finished = await AppDataSource.manager.findOneBy(Job, { id: job.id });
+    expect(finished.status).toBe(JobStatus.Completed);
+  });
+});
+
+describe("purge-refresh-tokens job", () => {
+  it("deletes the expired refresh tokens and runs again an hour later", async () => {
+    await registerUser();
+    const expired = await registerUser();
+    await AppDataSource.manager.update(
+      RefreshToken,
+      { token: expired.refreshToken },
+      { expiredAt: fromNow(-1000) },
+    );
+
+    await scheduleRecurringJobs();
+    // Scheduling again does not enqueue the job twice
+    await scheduleRecurringJobs();
+    expect(
+      await AppDataSource.manager.countBy(Job, {
+        name: PURGE_REFRESH_TOKENS_JOB,
+        status: JobStatus.Pending,
+      }),
+    ).toBe(1);
+
+    await processNextJob();
+
+    expect(
+      await AppDataSource.manager.existsBy(RefreshToken, {
+        token: expired.refreshToken,
+      }),
+    ).toBe(false);
+    expect(await AppDataSource.manager.count(RefreshToken)).toBeGreaterThan(0);
+
+    const next = await AppDataSource.manager.findOneBy(Job, {
+      name: PURGE_REFRESH_TOKENS_JOB,
+      status: JobStatus.Pending,
+    });
+    expect(next.runAt.getTime()).toBeGreaterThan(
+      fromNow(59 * 60 * 1000).getTime(),
+    );
+  });
+});
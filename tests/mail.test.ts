@@ -0,0 +1,90 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  fileTransport,
+  projectInvitationMail,
+  sendMail,
+  setMailTransport,
+  verificationMail,
+} from "../src/mail";
+import { captureTransport } from "./helpers/mailer";
+
+describe("mail templates", () => {
+  it("renders the HTML and text versions with the link", () => {
+    const mail = verificationMail({
+      firstName: "Jane",
+      url: "http://localhost:3000/auth/verify?email=jane%40example.com",
+    });
+
+    expect(mail.subject).toBe("Verify your email address");
+    expect(mail.html).toMatch(/^<!DOCTYPE html><html>/);
+    expect(mail.html).toContain(
+      'href="http://localhost:3000/auth/verify?email=jane%40example.com"',
+    );
+    expect(mail.text).toContain(
+      "\nhttp://localhost:3000/auth/verify?email=jane%40example.com\n",
+    );
+  });
+
+  it("escapes the values in the HTML version", () => {
+    const mail = projectInvitationMail({
+      inviterName: "Jane",
+      projectName: "<script>alert(1)</script>",
+      role: "editor",
+      url: "http://localhost:3000/projects/invitations/accept",
+    });
+
+    expect(mail.html).not.toContain("<script>");
+    expect(mail.html).toContain("&lt;script&gt;");
+  });
+});
+
+describe("file transport", () => {
+  it("writes the mail as an .eml file to the outbox", async () => {
+    const directory = join(tmpdir(), `outbox-${Date.now()}`);
+
+    await fileTransport(directory).send({
+      from: "info@app.com",
+      to: "jane@example.com",
+      ...verificationMail({ firstName: "Jane", url: "http://localhost/v" }),
+    });
+
+    const files = await fs.readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+
+    const raw = await fs.readFile(join(directory, files[0]), "utf8");
+    expect(raw).toContain("To: jane@example.com");
+    expect(raw).toContain("Subject: Verify your email address");
+    expect(raw).toContain("multipart/alternative");
+
+    await fs.rm(directory, { recursive: true });
+  });
+});
+
+describe("mail delivery failures", () => {
+  afterEach(() => {
+    setMailTransport(captureTransport);
+  });
+
+  it("rejects with a service unavailable error", async () => {
+    const consoleError = jest.spyOn(console, "error").mockImplementation();
+
+    setMailTransport({
+      send: async () => {
+        throw new Error("Connection refused");
+      },
+    });
+
+    await expect(
+      sendMail(
+        "jane@example.com",
+        verificationMail({ firstName: "Jane", url: "http://localhost/v" }),
+      ),
+    ).rejects.toMatchObject({ status: 503, code: "MAIL_DELIVERY_FAILED" });
+    expect(consoleError).toHaveBeenCalled();
+
+    consoleError.mockRestore();
+  });
+});
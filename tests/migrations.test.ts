@@ -0,0 +1,17 @@
+import { AppDataSource } from "../src/data-source";
+import { InitialSchema1792400400000 } from "../src/migrations/1792400400000-InitialSchema";
+
+describe("initial migration", () => {
+  it("leaves the tables of a synchronized database unchanged", async () => {
+    const queryRunner = AppDataSource.createQueryRunner();
+
+    try {
+      await expect(
+        new InitialSchema1792400400000().up(queryRunner),
+      ).resolves.toBeUndefined();
+      expect(await queryRunner.hasTable("tasks")).toBe(true);
+    } finally {
+      await queryRunner.release();
+    }
+  });
+});
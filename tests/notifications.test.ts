@@ -0,0 +1,301 @@
+import { AppDataSource } from "../src/data-source";
+import { sendDailyDigests, sendTaskReminders } from "../src/jobs";
+import { User } from "../src/models";
+import { api, registerUser, TestUser } from "./helpers/client";
+import { runJobs } from "./helpers/jobs";
+import { findLink, lastMailTo, sentMails } from "./helpers/mailer";
+import { addMember, createProject } from "./helpers/projects";
+import { createTask } from "./helpers/tasks";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Gets a date a number of milliseconds from now
+ *
+ * @param {number} milliseconds - The offset from now
+ * @returns {Date} - The date
+ */
+const fromNow = (milliseconds: number) => new Date(Date.now() + milliseconds);
+
+/**
+ * Updates the notification preferences of a user
+ *
+ * @param {TestUser} user - The user
+ * @param {Object} changes - The preferences to change
+ */
+const setPreferences = async (user: TestUser, changes: object) => {
+  const response = await api("PATCH", "/auth/notifications", {
+    token: user.token,
+    body: changes,
+  });
+
+  expect(response.status).toBe(200);
+};
+
+/**
+ * Sends the reminders due at a date and delivers their mails
+ *
+ * @param {Date} now - The date the reminders are sent at
+ */
+const remind = async (now: Date) => {
+  await sendTaskReminders(now);
+  // The mails are queued at the real time, which can be later than now
+  await runJobs(new Date(Math.max(now.getTime(), Date.now())));
+};
+
+/**
+ * Gets the subjects of the mails sent to an address
+ *
+ * @param {string} to - The email address
+ * @returns {string[]} - The subjects, oldest first
+ */
+const subjectsTo = (to: string) =>
+  sentMails.filter((mail) => mail.to === to).map((mail) => mail.subject);
+
+describe("notification preferences", () => {
+  it("returns the defaults until they are changed", async () => {
+    const user = await registerUser();
+
+    const response = await api("GET", "/auth/notifications", {
+      token: user.token,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.preferences).toEqual({
+      dueReminders: true,
+      reminderHours: 24,
+      overdueReminders: true,
+      dailyDigest: false,
+      digestHour: 8,
+      updatedAt: null,
+    });
+  });
+
+  it("updates some of the preferences", async () => {
+    const user = await registerUser();
+
+    await setPreferences(user, { dailyDigest: true, digestHour: 6 });
+    await setPreferences(user, { reminderHours: 2 });
+
+    const response = await api("GET", "/auth/notifications", {
+      token: user.token,
+    });
+    expect(response.body.data.preferences).toMatchObject({
+      dueReminders: true,
+      reminderHours: 2,
+      dailyDigest: true,
+      digestHour: 6,
+    });
+  });
+
+  it("rejects invalid preferences", async () => {
+    const user = await registerUser();
+
+    for (const body of [{}, { digestHour: 24 }, { reminderHours: 0 }]) {
+      const response = await api("PATCH", "/auth/notifications", {
+        token: user.token,
+        body,
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe("VALIDATION_FAILED");
+    }
+  });
+});
+
+describe("task reminders", () => {
+  it("reminds a task before it is due and when it is overdue, once each", async () => {
+    const user = await registerUser("Reminded");
+    const task = await createTask(user, {
+      title: "Pay rent",
+      dueAt: fromNow(30 * HOUR),
+    });
+
+    // Not yet within the 24 hours before the due date
+    await remind(new Date());
+    expect(subjectsTo(user.email)).toEqual([]);
+
+    await remind(fromNow(7 * HOUR));
+    await remind(fromNow(8 * HOUR));
+    expect(subjectsTo(user.email)).toEqual(["Due soon: Pay rent"]);
+    expect(findLink(lastMailTo(user.email)).pathname).toBe(`/tasks/${task.id}`);
+
+    await remind(fromNow(31 * HOUR));
+    await remind(fromNow(32 * HOUR));
+    expect(subjectsTo(user.email)).toEqual([
+      "Due soon: Pay rent",
+      "Overdue: Pay rent",
+    ]);
+  });
+
+  it("reminds again when the due date changes", async () => {
+    const user = await registerUser();
+    const task = await createTask(user, {
+      title: "Renew passport",
+      dueAt: fromNow(HOUR),
+    });
+
+    await remind(new Date());
+    await api("PATCH", `/tasks/${task.id}`, {
+      token: user.token,
+      body: { dueAt: fromNow(2 * HOUR) },
+    });
+    await remind(new Date());
+
+    expect(subjectsTo(user.email)).toEqual([
+      "Due soon: Renew passport",
+      "Due soon: Renew passport",
+    ]);
+  });
+
+  it("skips done tasks and the reminders turned off", async () => {
+    const user = await registerUser();
+    await setPreferences(user, { overdueReminders: false, reminderHours: 1 });
+    await createTask(user, { dueAt: fromNow(-HOUR) });
+    await createTask(user, { dueAt: fromNow(2 * HOUR) });
+    await createTask(user, { dueAt: fromNow(HOUR / 2), status: "done" });
+
+    await remind(new Date());
+
+    expect(subjectsTo(user.email)).toEqual([]);
+  });
+
+  it("reminds the assignee of a project task", async () => {
+    const owner = await registerUser("Owner");
+    const assignee = await registerUser("Assignee");
+    const projectId = await createProject(owner, "Launch");
+    const assigneeId = await addMember(owner, projectId, assignee);
+
+    await createTask(owner, {
+      title: "Ship it",
+      projectId,
+      assigneeId,
+      dueAt: fromNow(HOUR),
+    });
+    await remind(new Date());
+
+    expect(subjectsTo(owner.email)).toEqual([]);
+    expect(lastMailTo(assignee.email).subject).toBe("Due soon: Ship it");
+  });
+
+  it("does not remind the owner of a project task after leaving the project", async () => {
+    const owner = await registerUser("Owner");
+    const member = await registerUser("Former");
+    const projectId = await createProject(owner, "Roadmap");
+    const memberId = await addMember(owner, projectId, member);
+    await createTask(member, {
+      title: "Draft the roadmap",
+      projectId,
+      dueAt: fromNow(HOUR),
+    });
+
+    const removed = await api(
+      "DELETE",
+      `/projects/${projectId}/members/${memberId}`,
+      { token: owner.token },
+    );
+    expect(removed.status).toBe(200);
+    await remind(new Date());
+
+    expect(subjectsTo(member.email)).toEqual(["Invitation to Roadmap"]);
+  });
+
+  it("does not remind a disabled user", async () => {
+    const user = await registerUser();
+    await createTask(user, { title: "Renew visa", dueAt: fromNow(HOUR) });
+    await AppDataSource.manager.update(
+      User,
+      { email: user.email },
+      { disabledAt: new Date() },
+    );
+
+    await remind(new Date());
+
+    expect(subjectsTo(user.email)).toEqual([]);
+  });
+});
+
+describe("daily digest", () => {
+  it("sends the open tasks once a day after the digest hour", async () => {
+    const user = await registerUser("Digest");
+    await setPreferences(user, { dailyDigest: true, digestHour: 7 });
+    await createTask(user, { title: "Later", dueAt: "2030-01-03T00:00:00Z" });
+    await createTask(user, { title: "Soon", dueAt: "2030-01-02T00:00:00Z" });
+    await createTask(user, { title: "Someday" });
+    await createTask(user, { title: "Finished", status: "done" });
+
+    const digest = async (date: string) => {
+      const now = new Date(date);
+      await sendDailyDigests(now);
+      await runJobs(now);
+    };
+
+    await digest("2030-01-01T06:00:00Z");
+    expect(subjectsTo(user.email)).toEqual([]);
+
+    await digest("2030-01-01T07:00:00Z");
+    await digest("2030-01-01T08:00:00Z");
+    expect(subjectsTo(user.email)).toEqual(["Your daily digest: 3 open tasks"]);
+    const lines = lastMailTo(user.email)
+      .text.split("\n")
+      .filter((line) => line.indexOf("- ") === 0);
+    expect(lines.map((line) => line.split(" (")[0])).toEqual([
+      "- Soon",
+      "- Later",
+      "- Someday",
+    ]);
+
+    await digest("2030-01-02T07:30:00Z");
+    expect(subjectsTo(user.email)).toHaveLength(2);
+  });
+
+  it("leaves out the tasks of a project the user left", async () => {
+    const owner = await registerUser("Owner");
+    const member = await registerUser("Former");
+    await setPreferences(member, { dailyDigest: true, digestHour: 7 });
+    const projectId = await createProject(owner, "Roadmap");
+    const memberId = await addMember(owner, projectId, member);
+    await createTask(member, { title: "Mine" });
+    await createTask(member, { title: "Draft the roadmap", projectId });
+
+    const removed = await api(
+      "DELETE",
+      `/projects/${projectId}/members/${memberId}`,
+      { token: owner.token },
+    );
+    expect(removed.status).toBe(200);
+    await sendDailyDigests(new Date("2030-03-01T08:00:00Z"));
+    await runJobs(new Date("2030-03-01T08:00:00Z"));
+
+    const lines = lastMailTo(member.email)
+      .text.split("\n")
+      .filter((line) => line.indexOf("- ") === 0);
+    expect(lines.map((line) => line.split(" (")[0])).toEqual(["- Mine"]);
+  });
+
+  it("is not sent to a disabled user", async () => {
+    const user = await registerUser();
+    await setPreferences(user, { dailyDigest: true, digestHour: 7 });
+    await createTask(user, { title: "Open" });
+    await AppDataSource.manager.update(
+      User,
+      { email: user.email },
+      { disabledAt: new Date() },
+    );
+
+    await sendDailyDigests(new Date("2030-04-01T08:00:00Z"));
+    await runJobs(new Date("2030-04-01T08:00:00Z"));
+
+    expect(subjectsTo(user.email)).toEqual([]);
+  });
+
+  it("is not sent to the users who did not opt in", async () => {
+    const user = await registerUser();
+    await createTask(user, { title: "Open" });
+
+    await sendDailyDigests(new Date("2030-02-01T23:00:00Z"));
+    await runJobs(new Date("2030-02-01T23:00:00Z"));
+
+    expect(subjectsTo(user.email)).toEqual([]);
+  });
+});
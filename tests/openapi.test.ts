@@ -0,0 +1,103 @@
+import app from "../src/app";
+import { api } from "./helpers/client";
+
+describe("OpenAPI document", () => {
+  it("documents every route of the API", async () => {
+    const response = await api("GET", "/openapi.json");
+
+    expect(response.status).toBe(200);
+    expect(response.body.openapi).toBe("3.0.3");
+
+    const operations = Object.keys(response.body.paths).reduce(
+      (all: string[], path) =>
+        all.concat(
+          Object.keys(response.body.paths[path]).map(
+            (method) => `${method.toUpperCase()} ${path}`,
+          ),
+        ),
+      [],
+    );
+    const routes = app.routes
+      .filter((route) => route.method !== "ALL")
+      .filter((route) => !/^\/(docs|openapi\.json)/.test(route.path))
+      .map(
+        (route) => `${route.method} ${route.path.replace(/:(\w+)/g, "{$1}")}`,
+      );
+
+    expect(operations.sort()).toEqual(
+      routes.filter((route, i) => routes.indexOf(route) === i).sort(),
+    );
+  });
+
+  it("describes the request, responses and security of a route", async () => {
+    const { body } = await api("GET", "/openapi.json");
+
+    const login = body.paths["/auth/login"].post;
+    expect(login.security).toBeUndefined();
+    expect(
+      login.requestBody.content["application/json"].schema.required,
+    ).toEqual(["email", "password"]);
+    expect(Object.keys(login.responses)).toEqual(
+      expect.arrayContaining(["200", "400", "401", "429"]),
+    );
+    expect(
+      login.responses["200"].content["application/json"].schema.properties.data,
+    ).toEqual({ $ref: "#/components/schemas/Tokens" });
+
+    const updateTask = body.paths["/tasks/{id}"].patch;
+    expect(updateTask.security).toEqual([{ bearerAuth: [] }]);
+    expect(updateTask.parameters).toEqual([
+      { name: "id", in: "path", required: true, schema: { type: "integer" } },
+    ]);
+    expect(updateTask.responses["404"].content["application/json"]).toEqual({
+      schema: { $ref: "#/components/schemas/Error" },
+    });
+
+    const listTasks = body.paths["/tasks"].get;
+    expect(
+      listTasks.parameters.filter((param: any) => param.name === "sort")[0],
+    ).toMatchObject({ in: "query", required: false });
+
+    const unlock = body.paths["/auth/unlock"].get;
+    expect(
+      unlock.parameters.map((param: any) => [param.name, param.required]),
+    ).toEqual([
+      ["email", true],
+      ["locked_until", true],
+      ["signature", true],
+    ]);
+  });
+
+  it("lists the shared schemas as components", async () => {
+    const { body } = await api("GET", "/openapi.json");
+
+    expect(body.components.securitySchemes.bearerAuth.scheme).toBe("bearer");
+    expect(body.components.schemas.Task.properties.tags).toEqual({
+      type: "array",
+      items: { $ref: "#/components/schemas/Tag" },
+    });
+  });
+});
+
+describe("API docs", () => {
+  it("renders the OpenAPI document with its bundled assets", async () => {
+    const page = await app.request("/docs");
+
+    expect(page.status).toBe(200);
+    expect(page.headers.get("content-type")).toContain("text/html");
+    expect(await page.text()).toContain('url: "/openapi.json"');
+
+    const script = await app.request("/docs/swagger-ui-bundle.js");
+    expect(script.status).toBe(200);
+    expect(script.headers.get("content-type")).toContain(
+      "application/javascript",
+    );
+    expect((await script.text()).length).toBeGreaterThan(0);
+  });
+
+  it("serves only the assets of the docs", async () => {
+    const response = await api("GET", "/docs/package.json");
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,109 @@
+import { api, registerUser, TestUser } from "./helpers/client";
+import { runJobs } from "./helpers/jobs";
+import { findLink, lastMailTo } from "./helpers/mailer";
+import { addMember, createProject } from "./helpers/projects";
+import { createTask, TestTask } from "./helpers/tasks";
+
+let owner: TestUser;
+let editor: TestUser;
+let viewer: TestUser;
+let stranger: TestUser;
+let projectId: number;
+let task: TestTask;
+
+beforeAll(async () => {
+  owner = await registerUser("Owner");
+  editor = await registerUser("Editor");
+  viewer = await registerUser("Viewer");
+  stranger = await registerUser("Stranger");
+
+  projectId = await createProject(owner, "Launch");
+  await addMember(owner, projectId, editor, "editor");
+  await addMember(owner, projectId, viewer, "viewer");
+  task = await createTask(owner, { title: "Ship it", projectId });
+});
+
+describe("POST /projects/:id/invitations", () => {
+  it("links the invitation to the accept page of the frontend", async () => {
+    const invited = await registerUser("Invited");
+
+    const response = await api("POST", `/projects/${projectId}/invitations`, {
+      token: owner.token,
+      body: { email: invited.email, role: "viewer" },
+    });
+    expect(response.status).toBe(200);
+
+    await runJobs();
+    const link = findLink(lastMailTo(invited.email));
+    expect(link.pathname).toBe("/invitations/accept");
+    expect(link.searchParams.get("project_id")).toBe(String(projectId));
+  });
+});
+
+describe("project roles", () => {
+  it("lets a viewer read the tasks of the project but not change them", async () => {
+    const read = await api("GET", `/tasks/${task.id}/subtasks`, {
+      token: viewer.token,
+    });
+    expect(read.status).toBe(200);
+
+    const updated = await api("PATCH", `/tasks/${task.id}`, {
+      token: viewer.token,
+      body: { title: "Viewed" },
+    });
+    expect(updated.status).toBe(403);
+
+    const created = await api("POST", "/tasks", {
+      token: viewer.token,
+      body: { title: "Mine", description: "A task", projectId },
+    });
+    expect(created.status).toBe(403);
+  });
+
+  it("lets an editor change the tasks but not the project", async () => {
+    const updated = await api("PATCH", `/tasks/${task.id}`, {
+      token: editor.token,
+      body: { title: "Ship it now" },
+    });
+    expect(updated.status).toBe(200);
+
+    const renamed = await api("PUT", `/projects/${projectId}`, {
+      token: editor.token,
+      body: { name: "Renamed" },
+    });
+    expect(renamed.status).toBe(403);
+
+    const deleted = await api("DELETE", `/projects/${projectId}`, {
+      token: editor.token,
+    });
+    expect(deleted.status).toBe(403);
+    expect(deleted.body.error.code).toBe("INSUFFICIENT_PROJECT_ROLE");
+
+    const invited = await api("POST", `/projects/${projectId}/invitations`, {
+      token: editor.token,
+      body: { email: stranger.email, role: "viewer" },
+    });
+    expect(invited.status).toBe(403);
+  });
+
+  it.each([
+    ["GET", "/projects/:projectId", undefined],
+    ["PUT", "/projects/:projectId", { name: "Mine" }],
+    ["DELETE", "/projects/:projectId", undefined],
+    ["GET", "/tasks/:taskId/subtasks", undefined],
+    ["PATCH", "/tasks/:taskId", { title: "Mine" }],
+  ])(
+    "hides the project from a non-member on %s %s",
+    async (method, path, body) => {
+      const response = await api(
+        method,
+        path
+          .replace(":projectId", String(projectId))
+          .replace(":taskId", String(task.id)),
+        { token: stranger.token, body },
+      );
+
+      expect(response.status).toBe(404);
+    },
+  );
+});
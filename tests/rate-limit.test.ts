@@ -0,0 +1,177 @@
+import { memoryStore } from "../src/rate-limit";
+import { api, registerUser } from "./helpers/client";
+import { runJobs } from "./helpers/jobs";
+import { findLink, lastMailTo } from "./helpers/mailer";
+
+describe("rate limits", () => {
+  // The tests send the address of the client like a proxy
+  beforeAll(() => {
+    process.env.TRUST_PROXY = "1";
+  });
+
+  afterAll(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  it("tells the client about the limit with the RateLimit headers", async () => {
+    const response = await api("POST", "/auth/forgot-password", {
+      body: { email: "nobody@example.com" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("RateLimit-Limit")).toBe("3");
+    expect(response.headers.get("RateLimit-Remaining")).toBe("2");
+    expect(Number(response.headers.get("RateLimit-Reset"))).toBeGreaterThan(0);
+  });
+
+  it("limits the emails sent to an address, whatever the IP address", async () => {
+    const { email } = await registerUser();
+
+    for (let i = 0; i < 3; i++) {
+      const response = await api("POST", "/auth/request-verification", {
+        body: { email },
+        headers: { "x-forwarded-for": `10.0.0.${i}` },
+      });
+      expect(response.status).toBe(200);
+    }
+
+    const response = await api("POST", "/auth/request-verification", {
+      body: { email: email.toUpperCase() },
+      headers: { "x-forwarded-for": "10.0.0.9" },
+    });
+
+    expect(response.status).toBe(429);
+    expect(response.body.error.code).toBe("TOO_MANY_REQUESTS");
+    expect(Number(response.headers.get("Retry-After"))).toBeGreaterThan(3500);
+    expect(response.headers.get("RateLimit-Remaining")).toBe("0");
+  });
+
+  it("limits the registrations of an IP address", async () => {
+    const register = (ip: string, i: number) =>
+      api("POST", "/auth/register", {
+        body: {
+          firstName: "Bot",
+          lastName: "Bot",
+          email: `bot${ip}-${i}@example.com`,
+          password: "password123",
+        },
+        headers: { "x-forwarded-for": ip },
+      });
+
+    for (let i = 0; i < 10; i++) {
+      expect((await register("10.0.1.1", i)).status).toBe(200);
+    }
+
+    expect((await register("10.0.1.1", 10)).status).toBe(429);
+    expect((await register("10.0.1.2", 0)).status).toBe(200);
+  });
+
+  it("counts the addresses added by the trusted proxy, not by the client", async () => {
+    const forgotPassword = (i: number, forwardedFor: string) =>
+      api("POST", "/auth/forgot-password", {
+        body: { email: `forgetful${i}@example.com` },
+        headers: { "x-forwarded-for": forwardedFor },
+      });
+
+    for (let i = 0; i < 10; i++) {
+      const response = await forgotPassword(i, `198.51.100.${i}, 10.0.2.1`);
+      expect(response.status).toBe(200);
+    }
+
+    expect((await forgotPassword(10, "198.51.100.99, 10.0.2.1")).status).toBe(
+      429,
+    );
+    expect((await forgotPassword(11, "10.0.2.2")).status).toBe(200);
+  });
+
+  it("ignores the X-Forwarded-For header without a trusted proxy", async () => {
+    delete process.env.TRUST_PROXY;
+
+    try {
+      for (let i = 0; i < 10; i++) {
+        const response = await api("POST", "/auth/forgot-password", {
+          body: { email: `spoofed${i}@example.com` },
+          headers: { "x-forwarded-for": `198.51.100.${i}` },
+        });
+        expect(response.status).toBe(200);
+      }
+
+      const spoofed = await api("POST", "/auth/forgot-password", {
+        body: { email: "spoofed@example.com" },
+        headers: { "x-forwarded-for": "203.0.113.1" },
+      });
+      expect(spoofed.status).toBe(429);
+    } finally {
+      process.env.TRUST_PROXY = "1";
+    }
+  });
+
+  it("counts the requests of the memory store in fixed windows", async () => {
+    const store = memoryStore();
+
+    const first = await store.hit("key", 50);
+    const second = await store.hit("key", 50);
+    expect(second).toEqual({ count: 2, resetAt: first.resetAt });
+    expect((await store.hit("other", 50)).count).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect((await store.hit("key", 50)).count).toBe(1);
+  });
+});
+
+describe("login lockout", () => {
+  /**
+   * Logs in with a password
+   *
+   * @param {string} email - The email of the user
+   * @param {string} password - The password to try
+   */
+  const login = (email: string, password: string) =>
+    api("POST", "/auth/login", { body: { email, password } });
+
+  it("locks the user after repeated failed logins until the unlock link is opened", async () => {
+    const { email, password } = await registerUser("Locked");
+
+    for (let i = 0; i < 4; i++) {
+      expect((await login(email, "wrong-password")).status).toBe(401);
+    }
+
+    // The fifth failed login locks the user
+    expect((await login(email, "wrong-password")).status).toBe(401);
+
+    const locked = await login(email, password);
+    expect(locked.status).toBe(429);
+    expect(locked.body.error.code).toBe("ACCOUNT_LOCKED");
+    expect(Number(locked.headers.get("Retry-After"))).toBeGreaterThan(14 * 60);
+
+    await runJobs();
+    const mail = lastMailTo(email);
+    expect(mail.subject).toBe("Your account was locked");
+
+    const unlockUrl = findLink(mail);
+    const unlocked = await api(
+      "GET",
+      `${unlockUrl.pathname}${unlockUrl.search}`,
+    );
+    expect(unlocked.status).toBe(200);
+    expect((await login(email, password)).status).toBe(200);
+
+    // The link can only be used once
+    const reused = await api("GET", `${unlockUrl.pathname}${unlockUrl.search}`);
+    expect(reused.status).toBe(400);
+  });
+
+  it("starts counting again after a successful login", async () => {
+    const { email, password } = await registerUser();
+
+    for (let i = 0; i < 4; i++) {
+      await login(email, "wrong-password");
+    }
+    expect((await login(email, password)).status).toBe(200);
+
+    for (let i = 0; i < 4; i++) {
+      await login(email, "wrong-password");
+    }
+    expect((await login(email, password)).status).toBe(200);
+  });
+});
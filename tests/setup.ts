@@ -0,0 +1,26 @@
+/**
+ * The setup of the integration tests.
+ * Every test file gets its own in-memory database, and its mails and
+ * webhook deliveries are captured by fakes instead of being sent. Every
+ * test starts with fresh rate limits.
+ */
+import { AppDataSource } from "../src/data-source";
+import { setMailTransport } from "../src/mail";
+import { memoryStore, setRateLimitStore } from "../src/rate-limit";
+import { setWebhookClient } from "../src/webhooks";
+import { captureTransport } from "./helpers/mailer";
+import { captureClient } from "./helpers/webhooks";
+
+beforeAll(async () => {
+  setMailTransport(captureTransport);
+  setWebhookClient(captureClient);
+  await AppDataSource.initialize();
+});
+
+beforeEach(() => {
+  setRateLimitStore(memoryStore());
+});
+
+afterAll(async () => {
+  await AppDataSource.destroy();
+});
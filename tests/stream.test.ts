@@ -0,0 +1,233 @@
+import app from "../src/app";
+import { AppDataSource } from "../src/data-source";
+import { User } from "../src/models";
+import { api, registerUser, TestUser } from "./helpers/client";
+import { createTask } from "./helpers/tasks";
+
+/**
+ * A message read from an event stream: an event, or a comment
+ */
+interface StreamMessage {
+  id?: string;
+  event?: string;
+  data?: any;
+  comment?: string;
+}
+
+/**
+ * Opens the task stream of a user
+ *
+ * @param {TestUser} user - The user
+ * @param {Record<string, string>} headers - The extra headers of the request
+ * @returns {Promise<Object>} - The response, a function reading the next
+ * message of the stream, a function telling if the server ended the stream
+ * after the messages read, and a function closing the stream
+ */
+const openStream = async (
+  user: TestUser,
+  headers: Record<string, string> = {},
+) => {
+  const response = await app.request("/tasks/stream", {
+    headers: { authorization: `Bearer ${user.token}`, ...headers },
+  });
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const next = async (): Promise<StreamMessage> => {
+    while (buffer.indexOf("\n\n") === -1) {
+      const { value } = await reader.read();
+      buffer += decoder.decode(value, { stream: true });
+    }
+
+    const block = buffer.slice(0, buffer.indexOf("\n\n"));
+    buffer = buffer.slice(block.length + 2);
+
+    const message: StreamMessage = {};
+    block.split("\n").forEach((line) => {
+      const separator = line.indexOf(":");
+      const field = line.slice(0, separator);
+      const value = line.slice(separator + 1).trim();
+
+      if (field === "") {
+        message.comment = value;
+      } else if (field === "data") {
+        message.data = JSON.parse(value);
+      } else {
+        message[field as "id" | "event"] = value;
+      }
+    });
+
+    return message;
+  };
+
+  const isEnded = async () => buffer === "" && (await reader.read()).done;
+
+  return { response, next, isEnded, close: () => reader.cancel() };
+};
+
+describe("GET /tasks/stream", () => {
+  it("streams the changes of the tasks of the user", async () => {
+    const user = await registerUser();
+    const other = await registerUser();
+    const stream = await openStream(user);
+
+    expect(stream.response.status).toBe(200);
+    expect(stream.response.headers.get("content-type")).toBe(
+      "text/event-stream",
+    );
+
+    await createTask(other, { title: "Not mine" });
+    const task = await createTask(user, { title: "Plan the trip" });
+    await api("PATCH", `/tasks/${task.id}`, {
+      token: user.token,
+      body: { status: "done" },
+    });
+    await api("DELETE", `/tasks/${task.id}`, { token: user.token });
+
+    const created = await stream.next();
+    const updated = await stream.next();
+    const deleted = await stream.next();
+    await stream.close();
+
+    expect(created).toMatchObject({
+      event: "task.created",
+      data: { task: { id: task.id, title: "Plan the trip", status: "todo" } },
+    });
+    expect(updated).toMatchObject({
+      event: "task.updated",
+      data: { task: { id: task.id, status: "done" } },
+    });
+    expect(deleted).toMatchObject({
+      event: "task.deleted",
+      data: { task: { id: task.id } },
+    });
+    expect(deleted.data.task.deletedAt).not.toBeNull();
+    expect(created.data.task.user).toBeUndefined();
+    expect(Number(updated.id)).toBeGreaterThan(Number(created.id));
+    expect(Number(deleted.id)).toBeGreaterThan(Number(updated.id));
+  });
+
+  it("sends heartbeats", async () => {
+    process.env.STREAM_HEARTBEAT_INTERVAL = "20";
+
+    try {
+      const user = await registerUser();
+      const stream = await openStream(user);
+
+      expect(await stream.next()).toEqual({ comment: "heartbeat" });
+      await stream.close();
+    } finally {
+      delete process.env.STREAM_HEARTBEAT_INTERVAL;
+    }
+  });
+
+  it("ends the stream once the session is logged out or the user disabled", async () => {
+    process.env.STREAM_HEARTBEAT_INTERVAL = "20";
+
+    try {
+      const user = await registerUser();
+      const stream = await openStream(user);
+      expect(await stream.next()).toEqual({ comment: "heartbeat" });
+
+      await api("POST", "/auth/logout", { token: user.token });
+
+      expect(await stream.next()).toEqual({
+        event: "unauthorized",
+        data: {
+          error: { code: "SESSION_REVOKED", message: "Session revoked" },
+        },
+      });
+      expect(await stream.isEnded()).toBe(true);
+
+      const other = await registerUser();
+      const otherStream = await openStream(other);
+      await AppDataSource.manager.update(
+        User,
+        { email: other.email },
+        { disabledAt: new Date() },
+      );
+
+      let message = await otherStream.next();
+      while (message.comment === "heartbeat") {
+        message = await otherStream.next();
+      }
+      expect(message.data.error.code).toBe("ACCOUNT_DISABLED");
+      expect(await otherStream.isEnded()).toBe(true);
+    } finally {
+      delete process.env.STREAM_HEARTBEAT_INTERVAL;
+    }
+  });
+
+  it("resumes after the last event received", async () => {
+    const user = await registerUser();
+    const first = await openStream(user);
+    await createTask(user, { title: "First" });
+    const received = await first.next();
+    await first.close();
+
+    await createTask(user, { title: "Second" });
+    await createTask(user, { title: "Third" });
+
+    const resumed = await openStream(user, { "Last-Event-ID": received.id });
+    await createTask(user, { title: "Fourth" });
+
+    const titles = [];
+    for (let index = 0; index < 3; index++) {
+      titles.push((await resumed.next()).data.task.title);
+    }
+    await resumed.close();
+
+    expect(titles).toEqual(["Second", "Third", "Fourth"]);
+  });
+
+  it("sends a reset event when the missed events are not kept", async () => {
+    const user = await registerUser();
+
+    for (const lastEventId of ["999999999", "not an id"]) {
+      const stream = await openStream(user, { "Last-Event-ID": lastEventId });
+
+      expect(await stream.next()).toMatchObject({ event: "reset" });
+      await stream.close();
+    }
+  });
+
+  it("does not stream the changes rolled back", async () => {
+    const user = await registerUser();
+    const stream = await openStream(user);
+
+    const atomic = await api("POST", "/tasks/bulk", {
+      token: user.token,
+      body: {
+        operations: [
+          {
+            action: "create",
+            task: { title: "Rolled back", description: "A task" },
+          },
+          { action: "delete", id: 999999 },
+        ],
+      },
+    });
+    expect(atomic.status).toBe(404);
+
+    const partial = await api("POST", "/tasks/bulk", {
+      token: user.token,
+      body: {
+        mode: "partial",
+        operations: [
+          { action: "delete", id: 999999 },
+          { action: "create", task: { title: "Kept", description: "A task" } },
+        ],
+      },
+    });
+    expect(partial.status).toBe(200);
+
+    const event = await stream.next();
+    await stream.close();
+
+    expect(event).toMatchObject({
+      event: "task.created",
+      data: { task: { title: "Kept" } },
+    });
+  });
+});
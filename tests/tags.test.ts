@@ -0,0 +1,126 @@
+import { api, registerUser, TestUser } from "./helpers/client";
+import { createTask } from "./helpers/tasks";
+
+/**
+ * Creates a tag for a user
+ *
+ * @param {TestUser} user - The owner of the tag
+ * @param {Object} fields - The name and color of the tag
+ * @returns {Promise<{ id: number; name: string; color: string | null }>} - The created tag
+ */
+const createTag = async (
+  user: TestUser,
+  fields: { name: string; color?: string },
+): Promise<{ id: number; name: string; color: string | null }> => {
+  const response = await api("POST", "/tags", {
+    token: user.token,
+    body: fields,
+  });
+
+  expect(response.status).toBe(200);
+
+  return response.body.data.tag;
+};
+
+let owner: TestUser;
+let stranger: TestUser;
+
+beforeAll(async () => {
+  owner = await registerUser("Owner");
+  stranger = await registerUser("Stranger");
+});
+
+describe("/tags", () => {
+  it("creates, lists, updates and deletes the tags of the user", async () => {
+    const work = await createTag(owner, { name: "Work", color: "#ff0000" });
+    await createTag(owner, { name: "Home" });
+
+    const list = await api("GET", "/tags", { token: owner.token });
+    expect(list.status).toBe(200);
+    expect(list.body.data.tags.map((tag) => [tag.name, tag.color])).toEqual([
+      ["Home", null],
+      ["Work", "#ff0000"],
+    ]);
+
+    const updated = await api("PUT", `/tags/${work.id}`, {
+      token: owner.token,
+      body: { name: "Office" },
+    });
+    expect(updated.status).toBe(200);
+    expect(updated.body.data.tag).toMatchObject({
+      name: "Office",
+      color: "#ff0000",
+    });
+
+    const deleted = await api("DELETE", `/tags/${work.id}`, {
+      token: owner.token,
+    });
+    expect(deleted.status).toBe(200);
+
+    const after = await api("GET", "/tags", { token: owner.token });
+    expect(after.body.data.tags.map((tag) => tag.name)).toEqual(["Home"]);
+  });
+
+  it("rejects a name the user already has", async () => {
+    const user = await registerUser();
+    await createTag(user, { name: "Errands" });
+    const other = await createTag(user, { name: "Chores" });
+
+    const created = await api("POST", "/tags", {
+      token: user.token,
+      body: { name: "Errands" },
+    });
+    expect(created.status).toBe(409);
+    expect(created.body.error.code).toBe("TAG_EXISTS");
+
+    const renamed = await api("PUT", `/tags/${other.id}`, {
+      token: user.token,
+      body: { name: "Errands" },
+    });
+    expect(renamed.status).toBe(409);
+
+    // Another user can have a tag with the same name
+    await createTag(stranger, { name: "Errands" });
+  });
+
+  it("rejects an invalid color", async () => {
+    const response = await api("POST", "/tags", {
+      token: owner.token,
+      body: { name: "Red", color: "red" },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details[0].field).toBe("color");
+  });
+
+  it("keeps the tasks of a deleted tag", async () => {
+    const user = await registerUser();
+    const tag = await createTag(user, { name: "Garden" });
+    const task = await createTask(user, { tagIds: [tag.id] });
+
+    await api("DELETE", `/tags/${tag.id}`, { token: user.token });
+
+    const response = await api("GET", "/tasks", { token: user.token });
+    const listed = response.body.data.tasks.filter(
+      (item) => item.id === task.id,
+    )[0];
+    expect(listed.tags).toEqual([]);
+  });
+
+  it.each([
+    ["PUT", { name: "Mine" }],
+    ["DELETE", undefined],
+  ])(
+    "hides the tag of another user from %s /tags/:id",
+    async (method, body) => {
+      const tag = await createTag(owner, { name: `Private ${method}` });
+
+      const response = await api(method, `/tags/${tag.id}`, {
+        token: stranger.token,
+        body,
+      });
+
+      expect(response.status).toBe(404);
+    },
+  );
+});
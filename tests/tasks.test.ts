@@ -0,0 +1,442 @@
+import { api, registerUser, TestUser } from "./helpers/client";
+import { addMember, createProject } from "./helpers/projects";
+import { createTask } from "./helpers/tasks";
+
+let owner: TestUser;
+let stranger: TestUser;
+
+beforeAll(async () => {
+  owner = await registerUser("Owner");
+  stranger = await registerUser("Stranger");
+});
+
+describe("POST /tasks", () => {
+  it("creates a task with the default status and priority", async () => {
+    const task = await createTask(owner, { title: "Write tests" });
+
+    expect(task).toMatchObject({
+      title: "Write tests",
+      status: "todo",
+      priority: "medium",
+      completed: false,
+      tags: [],
+    });
+  });
+
+  it("rejects an invalid payload", async () => {
+    const response = await api("POST", "/tasks", {
+      token: owner.token,
+      body: { title: "", priority: "someday" },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("VALIDATION_FAILED");
+  });
+});
+
+describe("GET /tasks", () => {
+  it("lists only the tasks of the authenticated user", async () => {
+    const task = await createTask(owner, { title: "Private" });
+
+    const ownList = await api("GET", "/tasks?per_page=100", {
+      token: owner.token,
+    });
+    const strangerList = await api("GET", "/tasks", {
+      token: stranger.token,
+    });
+
+    expect(ownList.status).toBe(200);
+    expect(ownList.body.data.tasks.map((item) => item.id)).toContain(task.id);
+    expect(strangerList.body.data.tasks).toEqual([]);
+  });
+
+  it("filters, searches and paginates the tasks", async () => {
+    const user = await registerUser();
+    await createTask(user, { title: "Buy milk", priority: "high" });
+    await createTask(user, { title: "Buy bread", priority: "low" });
+    await createTask(user, { title: "Call mom", priority: "high" });
+
+    const search = await api("GET", "/tasks?search=buy&sort=title", {
+      token: user.token,
+    });
+    expect(search.body.data.tasks.map((task) => task.title)).toEqual([
+      "Buy bread",
+      "Buy milk",
+    ]);
+
+    const filtered = await api("GET", "/tasks?priority=high&per_page=1", {
+      token: user.token,
+    });
+    expect(filtered.body.data.tasks).toHaveLength(1);
+    expect(filtered.body.meta).toMatchObject({
+      total: 2,
+      page: 1,
+      perPage: 1,
+      pageCount: 2,
+    });
+
+    const next = await api(
+      "GET",
+      `/tasks?priority=high&per_page=1&cursor=${filtered.body.meta.nextCursor}`,
+      { token: user.token },
+    );
+    expect(next.body.data.tasks).toHaveLength(1);
+    expect(next.body.data.tasks[0].id).not.toBe(filtered.body.data.tasks[0].id);
+    expect(next.body.meta.nextCursor).toBeNull();
+  });
+
+  it("filters by tags, with any or all of them", async () => {
+    const user = await registerUser();
+    const [work, urgent] = await Promise.all(
+      ["Work", "Urgent"].map(async (name) => {
+        const response = await api("POST", "/tags", {
+          token: user.token,
+          body: { name },
+        });
+
+        return response.body.data.tag.id;
+      }),
+    );
+    await createTask(user, { title: "Report", tagIds: [work] });
+    await createTask(user, { title: "Deadline", tagIds: [work, urgent] });
+    await createTask(user, { title: "Untagged" });
+
+    const titles = async (query: string) => {
+      const response = await api("GET", `/tasks?sort=title&${query}`, {
+        token: user.token,
+      });
+      expect(response.status).toBe(200);
+
+      return response.body.data.tasks.map((task) => task.title);
+    };
+
+    expect(await titles(`tags=${work},${urgent}`)).toEqual([
+      "Deadline",
+      "Report",
+    ]);
+    expect(await titles(`tags=${work},${urgent}&tag_mode=all`)).toEqual([
+      "Deadline",
+    ]);
+    expect(await titles(`tags=${urgent}`)).toEqual(["Deadline"]);
+  });
+
+  it("rejects an invalid query", async () => {
+    const response = await api("GET", "/tasks?sort=bogus", {
+      token: owner.token,
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details[0].field).toBe("sort");
+  });
+});
+
+describe("PUT /tasks/:id", () => {
+  it("replaces the fields of the task", async () => {
+    const task = await createTask(owner);
+
+    const response = await api("PUT", `/tasks/${task.id}`, {
+      token: owner.token,
+      body: { title: "Renamed", description: "Changed", priority: "urgent" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.task).toMatchObject({
+      id: task.id,
+      title: "Renamed",
+      description: "Changed",
+      priority: "urgent",
+    });
+  });
+
+  it("checks the status transition and records the change like PATCH", async () => {
+    const task = await createTask(owner, { title: "Draft", status: "blocked" });
+
+    const rejected = await api("PUT", `/tasks/${task.id}`, {
+      token: owner.token,
+      body: { title: "Draft", description: "A task", status: "done" },
+    });
+    expect(rejected.status).toBe(409);
+    expect(rejected.body.error.code).toBe("INVALID_STATUS_TRANSITION");
+
+    const replaced = await api("PUT", `/tasks/${task.id}`, {
+      token: owner.token,
+      body: { title: "Final", description: "A task", status: "todo" },
+    });
+    expect(replaced.status).toBe(200);
+
+    const history = await api("GET", `/tasks/${task.id}/history`, {
+      token: owner.token,
+    });
+    expect(history.body.data.activities[0]).toMatchObject({
+      action: "task.updated",
+      changes: {
+        title: { from: "Draft", to: "Final" },
+        status: { from: "blocked", to: "todo" },
+      },
+    });
+  });
+});
+
+describe("PATCH /tasks/:id", () => {
+  it("updates only the given fields", async () => {
+    const task = await createTask(owner, { title: "Keep me" });
+
+    const response = await api("PATCH", `/tasks/${task.id}`, {
+      token: owner.token,
+      body: { status: "done" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.task).toMatchObject({
+      title: "Keep me",
+      status: "done",
+      completed: true,
+    });
+    expect(response.body.data.task.completedAt).not.toBeNull();
+  });
+
+  it("rejects a status transition that is not allowed", async () => {
+    const task = await createTask(owner, { status: "blocked" });
+
+    const response = await api("PATCH", `/tasks/${task.id}`, {
+      token: owner.token,
+      body: { status: "done" },
+    });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error.code).toBe("INVALID_STATUS_TRANSITION");
+  });
+
+  it("rejects an empty payload", async () => {
+    const task = await createTask(owner);
+
+    const response = await api("PATCH", `/tasks/${task.id}`, {
+      token: owner.token,
+      body: {},
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("DELETE /tasks/:id", () => {
+  it("deletes the task", async () => {
+    const task = await createTask(owner);
+
+    const response = await api("DELETE", `/tasks/${task.id}`, {
+      token: owner.token,
+    });
+    const again = await api("DELETE", `/tasks/${task.id}`, {
+      token: owner.token,
+    });
+
+    expect(response.status).toBe(200);
+    expect(again.status).toBe(404);
+  });
+});
+
+describe("subtasks", () => {
+  it("adds, reorders and toggles the subtasks of a task", async () => {
+    const task = await createTask(owner);
+    const subtaskIds = [];
+
+    for (const title of ["First", "Second"]) {
+      const response = await api("POST", `/tasks/${task.id}/subtasks`, {
+        token: owner.token,
+        body: { title },
+      });
+      expect(response.status).toBe(200);
+      subtaskIds.push(response.body.data.subtask.id);
+    }
+
+    const reordered = await api("PUT", `/tasks/${task.id}/subtasks/order`, {
+      token: owner.token,
+      body: { subtaskIds: [subtaskIds[1], subtaskIds[0]] },
+    });
+    expect(reordered.status).toBe(200);
+
+    const toggled = await api(
+      "POST",
+      `/tasks/${task.id}/subtasks/${subtaskIds[0]}/toggle`,
+      { token: owner.token },
+    );
+    expect(toggled.status).toBe(200);
+    expect(toggled.body.data.subtask.status).toBe("done");
+
+    const listed = await api("GET", `/tasks/${task.id}/subtasks`, {
+      token: owner.token,
+    });
+    expect(
+      listed.body.data.subtasks.map((subtask) => [
+        subtask.title,
+        subtask.status,
+      ]),
+    ).toEqual([
+      ["Second", "todo"],
+      ["First", "done"],
+    ]);
+
+    const tasks = await api("GET", "/tasks?per_page=100", {
+      token: owner.token,
+    });
+    const parent = tasks.body.data.tasks.find((item) => item.id === task.id);
+    expect(parent.progress).toEqual({ done: 1, total: 2 });
+  });
+
+  it("rejects an order that does not list every subtask", async () => {
+    const task = await createTask(owner);
+    await api("POST", `/tasks/${task.id}/subtasks`, {
+      token: owner.token,
+      body: { title: "Only" },
+    });
+
+    const response = await api("PUT", `/tasks/${task.id}/subtasks/order`, {
+      token: owner.token,
+      body: { subtaskIds: [] },
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details[0].field).toBe("subtaskIds");
+  });
+
+  it("adds a subtask after the last one when another was deleted", async () => {
+    const task = await createTask(owner);
+    const addSubtask = async (title: string) => {
+      const response = await api("POST", `/tasks/${task.id}/subtasks`, {
+        token: owner.token,
+        body: { title },
+      });
+      expect(response.status).toBe(200);
+
+      return response.body.data.subtask;
+    };
+
+    const first = await addSubtask("First");
+    await addSubtask("Second");
+    const deleted = await api("DELETE", `/tasks/${first.id}`, {
+      token: owner.token,
+    });
+    expect(deleted.status).toBe(200);
+    await addSubtask("Third");
+
+    const listed = await api("GET", `/tasks/${task.id}/subtasks`, {
+      token: owner.token,
+    });
+    expect(
+      listed.body.data.subtasks.map((subtask) => [
+        subtask.title,
+        subtask.position,
+      ]),
+    ).toEqual([
+      ["Second", 1],
+      ["Third", 2],
+    ]);
+  });
+
+  it("does not nest subtasks", async () => {
+    const task = await createTask(owner);
+    const subtask = await api("POST", `/tasks/${task.id}/subtasks`, {
+      token: owner.token,
+      body: { title: "Child" },
+    });
+
+    const response = await api(
+      "POST",
+      `/tasks/${subtask.body.data.subtask.id}/subtasks`,
+      { token: owner.token, body: { title: "Grandchild" } },
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("NESTED_SUBTASK");
+  });
+});
+
+describe("cross-user access", () => {
+  let task: any;
+  let subtaskId: number;
+
+  beforeAll(async () => {
+    task = await createTask(owner, { title: "Not yours" });
+
+    const subtask = await api("POST", `/tasks/${task.id}/subtasks`, {
+      token: owner.token,
+      body: { title: "Not yours either" },
+    });
+    subtaskId = subtask.body.data.subtask.id;
+  });
+
+  it.each([
+    ["PUT", "", { title: "Mine", description: "Mine" }],
+    ["PATCH", "", { title: "Mine" }],
+    ["DELETE", "", undefined],
+    ["GET", "/subtasks", undefined],
+    ["POST", "/subtasks", { title: "Mine" }],
+    ["PUT", "/subtasks/order", { subtaskIds: [] }],
+    ["POST", "/subtasks/:subtaskId/toggle", undefined],
+  ])(
+    "hides the task of another user from %s /tasks/:id%s",
+    async (method, suffix, body) => {
+      const path = `/tasks/${task.id}${suffix.replace(":subtaskId", String(subtaskId))}`;
+
+      const response = await api(method, path, {
+        token: stranger.token,
+        body,
+      });
+
+      expect(response.status).toBe(404);
+      expect(response.body.error.code).toBe("NOT_FOUND");
+    },
+  );
+
+  it("leaves the task of the owner unchanged", async () => {
+    const response = await api("GET", `/tasks/${task.id}/subtasks`, {
+      token: owner.token,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.subtasks).toHaveLength(1);
+    expect(response.body.data.subtasks[0].status).toBe("todo");
+  });
+});
+
+describe("project tasks", () => {
+  it("are hidden from their creator once removed from the project", async () => {
+    const projectOwner = await registerUser("Lead");
+    const member = await registerUser("Former");
+    const projectId = await createProject(projectOwner, "Roadmap");
+    const memberId = await addMember(projectOwner, projectId, member);
+    const task = await createTask(member, { title: "Draft", projectId });
+
+    const removed = await api(
+      "DELETE",
+      `/projects/${projectId}/members/${memberId}`,
+      { token: projectOwner.token },
+    );
+    expect(removed.status).toBe(200);
+
+    const list = await api("GET", "/tasks", { token: member.token });
+    expect(list.body.data.tasks.map((listed: any) => listed.id)).not.toContain(
+      task.id,
+    );
+
+    for (const [method, path] of [
+      ["GET", `/tasks/${task.id}/subtasks`],
+      ["GET", `/tasks/${task.id}/history`],
+      ["PATCH", `/tasks/${task.id}`],
+    ]) {
+      const response = await api(method, path, {
+        token: member.token,
+        body: method === "PATCH" ? { title: "Mine" } : undefined,
+      });
+
+      expect(response.status).toBe(404);
+    }
+
+    const ownerList = await api("GET", "/tasks", {
+      token: projectOwner.token,
+    });
+    expect(ownerList.body.data.tasks.map((listed: any) => listed.id)).toContain(
+      task.id,
+    );
+  });
+});
@@ -0,0 +1,322 @@
+import { api, registerUser, TestUser } from "./helpers/client";
+import { createTask } from "./helpers/tasks";
+
+/**
+ * Creates the tasks exported by the tests: a task due on a date with a tag
+ * and a done subtask, and a blocked task with a title to escape
+ *
+ * @param {TestUser} user - The owner of the tasks
+ */
+const createExportedTasks = async (user: TestUser) => {
+  const tag = await api("POST", "/tags", {
+    token: user.token,
+    body: { name: "Home" },
+  });
+  const task = await createTask(user, {
+    title: "Pay rent",
+    description: "Before the 5th",
+    priority: "high",
+    dueAt: "2030-01-01T12:00:00.000Z",
+    tagIds: [tag.body.data.tag.id],
+  });
+  const subtask = await api("POST", `/tasks/${task.id}/subtasks`, {
+    token: user.token,
+    body: { title: "Find the IBAN" },
+  });
+  await api(
+    "POST",
+    `/tasks/${task.id}/subtasks/${subtask.body.data.subtask.id}/toggle`,
+    {
+      token: user.token,
+    },
+  );
+  await createTask(user, {
+    title: 'Call "the bank", again',
+    description: "Line one\nLine two; three",
+    status: "blocked",
+  });
+};
+
+/**
+ * Uploads a file to import
+ *
+ * @param {TestUser} user - The user importing the file
+ * @param {string} name - The name of the file
+ * @param {string} content - The content of the file
+ * @param {string} query - The query string of the import
+ * @returns {Promise<any>} - The response
+ */
+const importFile = (
+  user: TestUser,
+  name: string,
+  content: string,
+  query = "",
+) => {
+  const form = new FormData();
+  form.append("file", new Blob([content]), name);
+
+  return api("POST", `/tasks/import${query}`, {
+    token: user.token,
+    body: form,
+  });
+};
+
+describe("GET /tasks/export", () => {
+  it("exports the tasks and subtasks as JSON", async () => {
+    const user = await registerUser();
+    await createExportedTasks(user);
+
+    const response = await api("GET", "/tasks/export", { token: user.token });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-disposition")).toBe(
+      'attachment; filename="tasks.json"',
+    );
+    const [task, subtask, blocked] = response.body;
+    expect(task).toMatchObject({
+      title: "Pay rent",
+      priority: "high",
+      dueAt: "2030-01-01T12:00:00.000Z",
+      tags: ["Home"],
+      parentId: null,
+    });
+    expect(subtask).toMatchObject({
+      title: "Find the IBAN",
+      status: "done",
+      completedAt: expect.any(String),
+      parentId: task.id,
+    });
+    expect(blocked.status).toBe("blocked");
+  });
+
+  it("exports the tasks as CSV", async () => {
+    const user = await registerUser();
+    await createExportedTasks(user);
+
+    const response = await api("GET", "/tasks/export?format=csv", {
+      token: user.token,
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe(
+      "text/csv; charset=utf-8",
+    );
+    const lines = response.body.split("\r\n");
+    expect(lines[0]).toBe(
+      "id,title,description,status,priority,dueAt,completedAt,tags,projectId,parentId,createdAt,updatedAt",
+    );
+    expect(lines[1]).toContain(
+      ",Pay rent,Before the 5th,todo,high,2030-01-01T12:00:00.000Z,,Home,,,",
+    );
+    expect(lines[3]).toContain(',"Call ""the bank"", again","Line one');
+  });
+
+  it("exports the tasks as VTODO entries of an iCalendar file", async () => {
+    const user = await registerUser();
+    await createExportedTasks(user);
+
+    const response = await api("GET", "/tasks/export?format=ics", {
+      token: user.token,
+    });
+
+    expect(response.status).toBe(200);
+    const lines: string[] = response.body.split("\r\n");
+    expect(lines[0]).toBe("BEGIN:VCALENDAR");
+    expect(lines.filter((line) => line === "BEGIN:VTODO")).toHaveLength(3);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        "SUMMARY:Pay rent",
+        "DUE:20300101T120000Z",
+        "PRIORITY:3",
+        "CATEGORIES:Home",
+        "STATUS:COMPLETED",
+        'SUMMARY:Call "the bank"\\, again',
+        "DESCRIPTION:Line one\\nLine two\\; three",
+        "END:VCALENDAR",
+      ]),
+    );
+    expect(lines.every((line) => line.length <= 75)).toBe(true);
+  });
+
+  it("rejects an unknown format", async () => {
+    const user = await registerUser();
+
+    const response = await api("GET", "/tasks/export?format=xml", {
+      token: user.token,
+    });
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.code).toBe("VALIDATION_FAILED");
+  });
+});
+
+describe("POST /tasks/import", () => {
+  it.each(["json", "csv", "ics"])(
+    "imports the tasks exported as %s",
+    async (format) => {
+      const owner = await registerUser();
+      const user = await registerUser();
+      await createExportedTasks(owner);
+      await api("POST", "/tags", { token: user.token, body: { name: "home" } });
+      const exported = await api("GET", `/tasks/export?format=${format}`, {
+        token: owner.token,
+      });
+      const content =
+        format === "json" ? JSON.stringify(exported.body) : exported.body;
+
+      const response = await importFile(user, `backup.${format}`, content);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.dryRun).toBe(false);
+      expect(response.body.data.newTags).toEqual([]);
+
+      const list = await api("GET", "/tasks?sort=title", {
+        token: user.token,
+      });
+      const [blocked, task] = list.body.data.tasks;
+      expect(task).toMatchObject({
+        title: "Pay rent",
+        description: "Before the 5th",
+        priority: "high",
+        dueAt: "2030-01-01T12:00:00.000Z",
+        tags: [expect.objectContaining({ name: "home" })],
+        progress: { done: 1, total: 1 },
+      });
+      expect(blocked).toMatchObject({
+        title: 'Call "the bank", again',
+        description: "Line one\nLine two; three",
+        // The iCalendar files have no blocked status
+        status: format === "ics" ? "todo" : "blocked",
+      });
+    },
+  );
+
+  it("imports a file of another calendar", async () => {
+    const user = await registerUser();
+    const calendar = [
+      "BEGIN:VCALENDAR",
+      "PRODID:-//Other//EN",
+      "BEGIN:VTODO",
+      "UID:abc@example.com",
+      "SUMMARY:Renew the passport before the trip to the mountains next sum",
+      " mer",
+      "DUE;VALUE=DATE:20300315",
+      "PRIORITY:1",
+      "CATEGORIES:Travel,Admin\\, papers",
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      "END:VALARM",
+      "END:VTODO",
+      "BEGIN:VEVENT",
+      "SUMMARY:Not a task",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\n");
+
+    const response = await importFile(user, "other.ics", calendar);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.newTags).toEqual(["Travel", "Admin, papers"]);
+    expect(response.body.data.tasks).toEqual([
+      expect.objectContaining({
+        title:
+          "Renew the passport before the trip to the mountains next summer",
+        priority: "urgent",
+        status: "todo",
+        dueAt: "2030-03-15T00:00:00.000Z",
+        tags: ["Travel", "Admin, papers"],
+      }),
+    ]);
+  });
+
+  it("reports the invalid fields with their row", async () => {
+    const user = await registerUser();
+    const csv = [
+      "id,title,status,dueAt,parentId",
+      "1,Valid,todo,,",
+      "2,,someday,2030-01-01,",
+      "3,Bad date,,tomorrow,",
+      "4,Orphan,,,9",
+    ].join("\n");
+
+    const response = await importFile(user, "tasks.csv", csv);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error.details).toEqual([
+      { row: 2, field: "title", message: expect.any(String) },
+      { row: 2, field: "status", message: expect.any(String) },
+      { row: 3, field: "dueAt", message: "Invalid date" },
+    ]);
+
+    const orphan = await importFile(
+      user,
+      "tasks.csv",
+      csv
+        .split("\n")
+        .filter((line, index) => index === 0 || index === 4)
+        .join("\n"),
+    );
+    expect(orphan.body.error.details).toEqual([
+      {
+        row: 1,
+        field: "parentId",
+        message: "The parent must be a task of the file that is not a subtask",
+      },
+    ]);
+
+    const list = await api("GET", "/tasks", { token: user.token });
+    expect(list.body.data.tasks).toEqual([]);
+  });
+
+  it("previews the import without saving it on a dry run", async () => {
+    const user = await registerUser();
+    const tasks = [
+      { id: 1, title: "Plan the move", tags: ["Home"] },
+      { id: 2, title: "Book the van", parentId: 1 },
+    ];
+
+    const response = await importFile(
+      user,
+      "tasks.json",
+      JSON.stringify(tasks),
+      "?dry_run=true",
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.dryRun).toBe(true);
+    expect(response.body.data.newTags).toEqual(["Home"]);
+    const [parent, subtask] = response.body.data.tasks;
+    expect(subtask.parentId).toBe(parent.id);
+
+    const list = await api("GET", "/tasks", { token: user.token });
+    expect(list.body.data.tasks).toEqual([]);
+    const tags = await api("GET", "/tags", { token: user.token });
+    expect(tags.body.data.tags).toEqual([]);
+  });
+
+  it("rejects a file it cannot read", async () => {
+    const user = await registerUser();
+
+    for (const [name, content, query] of [
+      ["tasks.txt", "title\nTask", ""],
+      ["tasks.json", "{ not json", ""],
+      ["tasks.json", '{"title": "Task"}', ""],
+      ["tasks.csv", 'title\n"Unclosed', ""],
+      ["tasks.txt", "BEGIN:VTODO", "?format=ics"],
+      ["tasks.json", "[]", ""],
+    ]) {
+      const response = await importFile(user, name, content, query);
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe("VALIDATION_FAILED");
+    }
+
+    const missing = await api("POST", "/tasks/import", {
+      token: user.token,
+      body: new FormData(),
+    });
+    expect(missing.body.error.details).toEqual([
+      { field: "file", message: "Expected a file" },
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { purgeTrash, sendTaskReminders } from "../src/jobs";
+import { api, registerUser, TestUser } from "./helpers/client";
+import { runJobs } from "./helpers/jobs";
+import { sentMails } from "./helpers/mailer";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates a task with a subtask
+ *
+ * @param {TestUser} user - The owner of the task
+ * @param {string} title - The title of the task
+ * @returns {Promise<{ taskId: number; subtaskId: number }>} - The ids of the task and subtask
+ */
+const createTaskWithSubtask = async (user: TestUser, title: string) => {
+  const task = await api("POST", "/tasks", {
+    token: user.token,
+    body: { title, description: "A task" },
+  });
+  const taskId = task.body.data.task.id;
+  const subtask = await api("POST", `/tasks/${taskId}/subtasks`, {
+    token: user.token,
+    body: { title: `${title} step` },
+  });
+
+  return { taskId, subtaskId: subtask.body.data.subtask.id };
+};
+
+/**
+ * Lists the titles of the tasks in the trash of a user
+ *
+ * @param {TestUser} user - The user
+ * @returns {Promise<string[]>} - The titles, the most recently deleted first
+ */
+const trashTitles = async (user: TestUser) => {
+  const response = await api("GET", "/tasks/trash", { token: user.token });
+
+  expect(response.status).toBe(200);
+
+  return response.body.data.tasks.map((task: any) => task.title);
+};
+
+describe("task trash", () => {
+  it("moves a deleted task and its subtasks to the trash", async () => {
+    const user = await registerUser();
+    const { taskId } = await createTaskWithSubtask(user, "Trashed");
+
+    const deleted = await api("DELETE", `/tasks/${taskId}`, {
+      token: user.token,
+    });
+    expect(deleted.status).toBe(200);
+    expect(deleted.body.data.task.deletedAt).toEqual(expect.any(String));
+
+    const list = await api("GET", "/tasks", { token: user.token });
+    expect(list.body.data.tasks).toEqual([]);
+    const subtasks = await api("GET", `/tasks/${taskId}/subtasks`, {
+      token: user.token,
+    });
+    expect(subtasks.status).toBe(404);
+
+    // The subtask is in the trash with its parent, and is not listed on its own
+    expect(await trashTitles(user)).toEqual(["Trashed"]);
+  });
+
+  it("restores a task with the subtasks deleted along with it", async () => {
+    const user = await registerUser();
+    const { taskId, subtaskId } = await createTaskWithSubtask(user, "Restored");
+    const other = await api("POST", `/tasks/${taskId}/subtasks`, {
+      token: user.token,
+      body: { title: "Deleted on its own" },
+    });
+
+    await api("DELETE", `/tasks/${other.body.data.subtask.id}`, {
+      token: user.token,
+    });
+    await api("DELETE", `/tasks/${taskId}`, { token: user.token });
+
+    const restored = await api("POST", `/tasks/${taskId}/restore`, {
+      token: user.token,
+    });
+    expect(restored.status).toBe(200);
+    expect(restored.body.data.task).toMatchObject({
+      id: taskId,
+      deletedAt: null,
+      progress: { done: 0, total: 1 },
+    });
+
+    const subtasks = await api("GET", `/tasks/${taskId}/subtasks`, {
+      token: user.token,
+    });
+    expect(subtasks.body.data.subtasks.map((task: any) => task.id)).toEqual([
+      subtaskId,
+    ]);
+    expect(await trashTitles(user)).toEqual(["Deleted on its own"]);
+
+    const history = await api("GET", `/tasks/${taskId}/history`, {
+      token: user.token,
+    });
+    expect(
+      history.body.data.activities
+        .slice(0, 2)
+        .map((activity: any) => activity.action),
+    ).toEqual(["task.restored", "task.trashed"]);
+  });
+
+  it("restores a subtask only while its parent is not in the trash", async () => {
+    const user = await registerUser();
+    const { taskId, subtaskId } = await createTaskWithSubtask(user, "Parent");
+
+    await api("DELETE", `/tasks/${subtaskId}`, { token: user.token });
+    await api("DELETE", `/tasks/${taskId}`, { token: user.token });
+
+    const response = await api("POST", `/tasks/${subtaskId}/restore`, {
+      token: user.token,
+    });
+
+    expect(response.status).toBe(409);
+    expect(response.body.error.code).toBe("PARENT_IN_TRASH");
+  });
+
+  it("only restores the tasks in the trash of the user", async () => {
+    const owner = await registerUser();
+    const other = await registerUser();
+    const { taskId } = await createTaskWithSubtask(owner, "Private");
+
+    const notTrashed = await api("POST", `/tasks/${taskId}/restore`, {
+      token: owner.token,
+    });
+    expect(notTrashed.status).toBe(404);
+
+    await api("DELETE", `/tasks/${taskId}`, { token: owner.token });
+
+    const response = await api("POST", `/tasks/${taskId}/restore`, {
+      token: other.token,
+    });
+    expect(response.status).toBe(404);
+    expect(await trashTitles(other)).toEqual([]);
+  });
+
+  it("sends no reminders for the tasks in the trash", async () => {
+    const user = await registerUser();
+    const task = await api("POST", "/tasks", {
+      token: user.token,
+      body: {
+        title: "Forgotten",
+        description: "A task",
+        dueAt: new Date(Date.now() + 60 * 60 * 1000),
+      },
+    });
+    await api("DELETE", `/tasks/${task.body.data.task.id}`, {
+      token: user.token,
+    });
+
+    await sendTaskReminders(new Date());
+    await runJobs();
+
+    expect(sentMails.filter((mail) => mail.to === user.email)).toEqual([]);
+  });
+
+  it("deletes the tasks for good after the retention period", async () => {
+    const user = await registerUser();
+    const { taskId } = await createTaskWithSubtask(user, "Purged");
+    await createTaskWithSubtask(user, "Kept");
+    await api("DELETE", `/tasks/${taskId}`, { token: user.token });
+
+    await purgeTrash(new Date(Date.now() + 29 * DAY));
+    expect(await trashTitles(user)).toEqual(["Purged"]);
+
+    await purgeTrash(new Date(Date.now() + 31 * DAY));
+    expect(await trashTitles(user)).toEqual([]);
+
+    const restored = await api("POST", `/tasks/${taskId}/restore`, {
+      token: user.token,
+    });
+    expect(restored.status).toBe(404);
+
+    const list = await api("GET", "/tasks", { token: user.token });
+    expect(list.body.data.tasks.map((task: any) => task.title)).toEqual([
+      "Kept",
+    ]);
+  });
+});
@@ -0,0 +1,375 @@
+import { createHmac } from "crypto";
+import { createServer } from "http";
+import { AddressInfo } from "net";
+import { AppDataSource } from "../src/data-source";
+import { Webhook } from "../src/models";
+import { httpWebhookClient, setWebhookClient } from "../src/webhooks";
+import { api, registerUser, TestUser } from "./helpers/client";
+import { runJobs } from "./helpers/jobs";
+import { createTask } from "./helpers/tasks";
+import { captureClient, postedTo, respondToWebhooks } from "./helpers/webhooks";
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Gets a date a number of milliseconds from now
+ *
+ * @param {number} milliseconds - The offset from now
+ * @returns {Date} - The date
+ */
+const fromNow = (milliseconds: number) => new Date(Date.now() + milliseconds);
+
+/**
+ * Registers a webhook for a user
+ *
+ * @param {TestUser} user - The owner of the webhook
+ * @param {string} url - The URL of the webhook
+ * @param {Object} fields - The other fields of the webhook, merged with defaults
+ * @returns {Promise<any>} - The registered webhook, with its secret
+ */
+const createWebhook = async (
+  user: TestUser,
+  url: string,
+  fields: object = {},
+) => {
+  const response = await api("POST", "/webhooks", {
+    token: user.token,
+    body: { url, events: ["task.created"], ...fields },
+  });
+
+  expect(response.status).toBe(200);
+
+  return response.body.data.webhook;
+};
+
+/**
+ * Lists the deliveries of a webhook
+ *
+ * @param {TestUser} user - The owner of the webhook
+ * @param {number} webhookId - The id of the webhook
+ * @returns {Promise<any[]>} - The deliveries, newest first
+ */
+const listDeliveries = async (user: TestUser, webhookId: number) => {
+  const response = await api("GET", `/webhooks/${webhookId}/deliveries`, {
+    token: user.token,
+  });
+
+  expect(response.status).toBe(200);
+
+  return response.body.data.deliveries;
+};
+
+beforeEach(() => {
+  respondToWebhooks(200);
+});
+
+describe("webhooks", () => {
+  it("returns the secret only when the webhook is registered", async () => {
+    const user = await registerUser();
+    const webhook = await createWebhook(user, "https://example.com/hooks/1");
+
+    expect(webhook.secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(webhook).toMatchObject({
+      url: "https://example.com/hooks/1",
+      events: ["task.created"],
+      active: true,
+    });
+
+    const updated = await api("PATCH", `/webhooks/${webhook.id}`, {
+      token: user.token,
+      body: { events: ["task.updated", "task.deleted"], active: false },
+    });
+    expect(updated.status).toBe(200);
+
+    const response = await api("GET", "/webhooks", { token: user.token });
+    expect(response.body.data.webhooks).toHaveLength(1);
+    expect(response.body.data.webhooks[0]).toMatchObject({
+      events: ["task.updated", "task.deleted"],
+      active: false,
+    });
+    expect(response.body.data.webhooks[0].secret).toBeUndefined();
+  });
+
+  it("rejects invalid webhooks", async () => {
+    const user = await registerUser();
+
+    for (const body of [
+      { url: "ftp://example.com", events: ["task.created"] },
+      { url: "not a url", events: ["task.created"] },
+      { url: "https://example.com", events: [] },
+      { url: "https://example.com", events: ["task.archived"] },
+    ]) {
+      const response = await api("POST", "/webhooks", {
+        token: user.token,
+        body,
+      });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe("VALIDATION_FAILED");
+    }
+  });
+
+  it("rejects the URLs of loopback, private and link-local hosts", async () => {
+    const user = await registerUser();
+    const webhook = await createWebhook(user, "https://example.com/hooks/3");
+
+    for (const url of [
+      "http://localhost:3000/hooks",
+      "http://api.localhost/hooks",
+      "http://127.0.0.1/hooks",
+      "http://2130706433/hooks",
+      "http://10.0.0.5/hooks",
+      "http://172.16.8.1/hooks",
+      "http://192.168.1.1/hooks",
+      "http://169.254.169.254/latest/meta-data",
+      "http://metadata.google.internal/computeMetadata/v1",
+      "http://0.0.0.0/hooks",
+      "http://[::1]/hooks",
+      "http://[::ffff:127.0.0.1]/hooks",
+      "http://[fd00::1]/hooks",
+      "http://[fe80::1]/hooks",
+    ]) {
+      const created = await api("POST", "/webhooks", {
+        token: user.token,
+        body: { url, events: ["task.created"] },
+      });
+      const updated = await api("PATCH", `/webhooks/${webhook.id}`, {
+        token: user.token,
+        body: { url },
+      });
+
+      expect([url, created.status, updated.status]).toEqual([url, 400, 400]);
+      expect(created.body.error.details[0].message).toBe(
+        "The URL must not point to a loopback, private or link-local host",
+      );
+    }
+  });
+
+  it("is not found for other users", async () => {
+    const owner = await registerUser();
+    const other = await registerUser();
+    const webhook = await createWebhook(owner, "https://example.com/hooks/2");
+
+    for (const [method, path] of [
+      ["GET", `/webhooks/${webhook.id}`],
+      ["DELETE", `/webhooks/${webhook.id}`],
+      ["GET", `/webhooks/${webhook.id}/deliveries`],
+      ["POST", `/webhooks/${webhook.id}/test`],
+    ]) {
+      const response = await api(method, path, { token: other.token });
+
+      expect(response.status).toBe(404);
+    }
+  });
+});
+
+describe("webhook deliveries", () => {
+  it("posts the subscribed events of the tasks, signed with the secret", async () => {
+    const user = await registerUser();
+    const other = await registerUser();
+    const url = "https://example.com/hooks/events";
+    const webhook = await createWebhook(user, url, {
+      events: ["task.created", "task.completed", "task.deleted"],
+    });
+    await createWebhook(other, "https://example.com/hooks/other");
+
+    const task = await createTask(user, { title: "Write the report" });
+    await api("PATCH", `/tasks/${task.id}`, {
+      token: user.token,
+      body: { title: "Write the annual report" },
+    });
+    await api("PATCH", `/tasks/${task.id}`, {
+      token: user.token,
+      body: { status: "done" },
+    });
+    await api("DELETE", `/tasks/${task.id}`, { token: user.token });
+    await api("POST", `/tasks/${task.id}/restore`, { token: user.token });
+    await runJobs();
+
+    const requests = postedTo(url);
+    expect(
+      requests.map((request) => request.headers["X-Webhook-Event"]),
+    ).toEqual(["task.created", "task.completed", "task.deleted"]);
+    expect(postedTo("https://example.com/hooks/other")).toEqual([]);
+
+    const [created, completed] = requests;
+    const timestamp = created.headers["X-Webhook-Timestamp"];
+    const signature = createHmac("sha256", webhook.secret)
+      .update(`${timestamp}.${created.body}`)
+      .digest("hex");
+    expect(created.headers["X-Webhook-Signature"]).toBe(`sha256=${signature}`);
+
+    const payload = JSON.parse(created.body);
+    expect(payload).toMatchObject({
+      event: "task.created",
+      data: { task: { id: task.id, title: "Write the report" } },
+    });
+    expect(payload.data.task.user).toBeUndefined();
+    expect(created.headers["X-Webhook-Id"]).toBe(payload.id);
+    expect(JSON.parse(completed.body).data.task).toMatchObject({
+      title: "Write the annual report",
+      status: "done",
+    });
+  });
+
+  it("retries a failed delivery with backoff and logs its attempts", async () => {
+    const user = await registerUser();
+    const url = "https://example.com/hooks/retried";
+    const webhook = await createWebhook(user, url);
+
+    respondToWebhooks(500);
+    await createTask(user);
+    await runJobs();
+    await runJobs(fromNow(MINUTE / 4));
+    expect(postedTo(url)).toHaveLength(1);
+
+    let [delivery] = await listDeliveries(user, webhook.id);
+    expect(delivery).toMatchObject({
+      event: "task.created",
+      status: "pending",
+      attempts: 1,
+      responseStatus: 500,
+      error: "The endpoint answered with status 500",
+    });
+
+    await runJobs(fromNow(MINUTE));
+    expect(postedTo(url)).toHaveLength(2);
+
+    respondToWebhooks(200);
+    await runJobs(fromNow(3 * MINUTE));
+    expect(postedTo(url)).toHaveLength(3);
+
+    [delivery] = await listDeliveries(user, webhook.id);
+    expect(delivery).toMatchObject({
+      status: "succeeded",
+      attempts: 3,
+      responseStatus: 200,
+      error: null,
+    });
+    expect(delivery.deliveredAt).not.toBeNull();
+
+    // Every attempt is the same event
+    const ids = postedTo(url).map((request) => request.headers["X-Webhook-Id"]);
+    expect(ids[0]).toBe(ids[1]);
+    expect(ids[1]).toBe(ids[2]);
+  });
+
+  it("marks a delivery as failed after its last attempt", async () => {
+    const user = await registerUser();
+    const url = "https://example.com/hooks/unreachable";
+    const webhook = await createWebhook(user, url);
+
+    respondToWebhooks(null);
+    await createTask(user);
+    for (let hours = 0; hours < 10; hours++) {
+      await runJobs(fromNow(hours * 60 * MINUTE));
+    }
+
+    expect(postedTo(url)).toHaveLength(6);
+    const [delivery] = await listDeliveries(user, webhook.id);
+    expect(delivery).toMatchObject({
+      status: "failed",
+      attempts: 6,
+      responseStatus: null,
+      error: "The endpoint could not be reached: connect ECONNREFUSED",
+    });
+  });
+
+  it("skips the inactive and deleted webhooks", async () => {
+    const user = await registerUser();
+    const inactive = "https://example.com/hooks/inactive";
+    const deleted = "https://example.com/hooks/deleted";
+    await createWebhook(user, inactive, { active: false });
+    const webhook = await createWebhook(user, deleted);
+
+    await createTask(user);
+    await api("DELETE", `/webhooks/${webhook.id}`, { token: user.token });
+    await runJobs();
+
+    expect(postedTo(inactive)).toEqual([]);
+    expect(postedTo(deleted)).toEqual([]);
+  });
+});
+
+describe("POST /webhooks/:id/test", () => {
+  it("posts a test event right away and logs it", async () => {
+    const user = await registerUser();
+    const url = "https://example.com/hooks/test";
+    const webhook = await createWebhook(user, url, { active: false });
+
+    const succeeded = await api("POST", `/webhooks/${webhook.id}/test`, {
+      token: user.token,
+    });
+    expect(succeeded.status).toBe(200);
+    expect(succeeded.body.data.delivery).toMatchObject({
+      event: "webhook.test",
+      status: "succeeded",
+      attempts: 1,
+      responseStatus: 200,
+    });
+    expect(JSON.parse(postedTo(url)[0].body).data).toEqual({
+      webhook: { id: webhook.id, url },
+    });
+
+    respondToWebhooks(503);
+    const failed = await api("POST", `/webhooks/${webhook.id}/test`, {
+      token: user.token,
+    });
+    expect(failed.body.data.delivery).toMatchObject({
+      status: "failed",
+      attempts: 1,
+      responseStatus: 503,
+    });
+
+    const deliveries = await listDeliveries(user, webhook.id);
+    expect(deliveries.map((delivery: any) => delivery.status)).toEqual([
+      "failed",
+      "succeeded",
+    ]);
+  });
+});
+
+describe("webhook client", () => {
+  it("does not post to the hosts resolving to private addresses", async () => {
+    let received = 0;
+    const server = createServer((request, response) => {
+      received += 1;
+      response.end("internal data");
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = server.address() as AddressInfo;
+
+    const user = await registerUser();
+    const webhook = await createWebhook(user, "https://example.com/hooks/dns");
+    setWebhookClient(httpWebhookClient);
+
+    try {
+      // The host of the webhook now resolves to the local machine
+      for (const url of [
+        `http://localhost:${port}/hooks`,
+        `http://127.0.0.1:${port}/hooks`,
+      ]) {
+        await AppDataSource.manager.update(Webhook, webhook.id, { url });
+
+        const response = await api("POST", `/webhooks/${webhook.id}/test`, {
+          token: user.token,
+        });
+
+        expect(response.status).toBe(200);
+        expect(response.body.data.delivery).toMatchObject({
+          status: "failed",
+          responseStatus: null,
+        });
+        expect(response.body.data.delivery.error).toMatch(/private address/);
+        expect(JSON.stringify(response.body)).not.toContain("internal data");
+      }
+    } finally {
+      setWebhookClient(captureClient);
+      server.close();
+    }
+
+    expect(received).toBe(0);
+  });
+});